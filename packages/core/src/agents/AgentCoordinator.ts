@@ -1,14 +1,61 @@
 import type { SubAgent } from './SubAgent';
-import type { AgentContext, AgentResult, CoordinationConfig } from './types';
+import type {
+  AgentContext,
+  AgentExecuteOptions,
+  AgentResult,
+  AgentStreamChunk,
+  ConsensusResult,
+  CoordinationConfig,
+  Plan,
+  PlanStep,
+  PlanStepResult,
+  ResultAggregator,
+} from './types';
 import type { TaskQueue } from '../utils/task-queue';
 import type { EventBus } from '../utils/event-bus';
 import type { Logger } from '../utils/logger';
+import { TaskCancelledError, abortable, createLinkedAbortController, delay } from '../utils/abort';
+import { RetryPolicy, type RetryDecision } from './RetryPolicy';
+import { LLMRouterStrategy } from './LLMRouterStrategy';
+import { SemanticMatchStrategy } from './SemanticMatchStrategy';
+import type { ModelAdapter } from '../core/model/ModelAdapter';
+import { HashingEmbedder, type Embedder } from '../core/memory/Embedder';
+import { BudgetExceededError, type Budget } from '../core/usage/Budget';
+import type { UsageLedger } from '../core/usage/UsageLedger';
+import { attributeToTask } from '../core/usage/metered';
 
 /**
  * Selection strategy interface
  */
 export interface SelectionStrategy {
-  select(task: string, candidates: SubAgent[], context?: AgentContext): SubAgent | null;
+  select(
+    task: string,
+    candidates: SubAgent[],
+    context?: AgentContext
+  ): SubAgent | null | Promise<SubAgent | null>;
+  /**
+   * Order the capable candidates from best to worst
+   *
+   * Used to find fallbacks when the selected agent fails. Strategies that
+   * do not implement it get no fallbacks.
+   */
+  rank?(
+    task: string,
+    candidates: SubAgent[],
+    context?: AgentContext
+  ): SubAgent[] | Promise<SubAgent[]>;
+  /**
+   * Score each candidate for a task by agent ID, reported in subagent:selected
+   */
+  score?(
+    task: string,
+    candidates: SubAgent[],
+    context?: AgentContext
+  ): Record<string, number> | Promise<Record<string, number>>;
+  /** Called when a sub-agent is registered, e.g. to precompute embeddings */
+  register?(agent: SubAgent): void;
+  /** Called when a sub-agent is unregistered */
+  unregister?(agentId: string): void;
 }
 
 /**
@@ -16,16 +63,15 @@ export interface SelectionStrategy {
  */
 export class PrioritySelectionStrategy implements SelectionStrategy {
   select(task: string, candidates: SubAgent[], context?: AgentContext): SubAgent | null {
+    return this.rank(task, candidates, context)[0] ?? null;
+  }
+
+  rank(task: string, candidates: SubAgent[], context?: AgentContext): SubAgent[] {
     // Filter to agents that can handle the task
     const capable = candidates.filter((agent) => agent.canHandle(task, context));
 
-    if (capable.length === 0) {
-      return null;
-    }
-
-    // Sort by priority (descending) and return highest
-    capable.sort((a, b) => b.priority - a.priority);
-    return capable[0];
+    // Sort by priority (descending)
+    return capable.sort((a, b) => b.priority - a.priority);
   }
 }
 
@@ -34,13 +80,13 @@ export class PrioritySelectionStrategy implements SelectionStrategy {
  */
 export class CapabilityMatchStrategy implements SelectionStrategy {
   select(task: string, candidates: SubAgent[], context?: AgentContext): SubAgent | null {
+    return this.rank(task, candidates, context)[0] ?? null;
+  }
+
+  rank(task: string, candidates: SubAgent[], context?: AgentContext): SubAgent[] {
     // Filter to agents that can handle the task
     const capable = candidates.filter((agent) => agent.canHandle(task, context));
 
-    if (capable.length === 0) {
-      return null;
-    }
-
     // Score each agent and sort by score (descending)
     const scored = capable.map((agent) => ({
       agent,
@@ -48,7 +94,7 @@ export class CapabilityMatchStrategy implements SelectionStrategy {
     }));
 
     scored.sort((a, b) => b.score - a.score);
-    return scored[0].agent;
+    return scored.map(({ agent }) => agent);
   }
 }
 
@@ -70,6 +116,19 @@ export class RoundRobinStrategy implements SelectionStrategy {
     this.lastIndex = (this.lastIndex + 1) % capable.length;
     return capable[this.lastIndex];
   }
+
+  /**
+   * Rank starting at the next agent in turn, advancing the rotation like select()
+   */
+  rank(task: string, candidates: SubAgent[], context?: AgentContext): SubAgent[] {
+    const selected = this.select(task, candidates, context);
+    if (!selected) {
+      return [];
+    }
+
+    const capable = candidates.filter((agent) => agent.canHandle(task, context));
+    return [...capable.slice(this.lastIndex), ...capable.slice(0, this.lastIndex)];
+  }
 }
 
 /**
@@ -79,6 +138,14 @@ export interface CoordinatorDependencies {
   taskQueue: TaskQueue;
   eventBus: EventBus;
   logger?: Logger;
+  /** Model the llm-router strategy asks */
+  routerModel?: ModelAdapter;
+  /** Embedder for the semantic-match strategy (a local hashing embedder by default) */
+  embedder?: Embedder;
+  /** Ledger the routing and judging calls are recorded in */
+  usage?: UsageLedger;
+  /** Agent the coordinator works for; its own model calls are recorded for it */
+  agentId?: string;
 }
 
 /**
@@ -92,18 +159,31 @@ export class AgentCoordinator {
   private taskQueue: TaskQueue;
   private eventBus: EventBus;
   private logger?: Logger;
+  private routerModel?: ModelAdapter;
+  private embedder?: Embedder;
+  private usage?: UsageLedger;
+  private agentId?: string;
   private config: CoordinationConfig;
+  private retryPolicies: Map<string, RetryPolicy> = new Map();
 
   constructor(dependencies: CoordinatorDependencies, config: Partial<CoordinationConfig> = {}) {
     this.taskQueue = dependencies.taskQueue;
     this.eventBus = dependencies.eventBus;
     this.logger = dependencies.logger;
+    this.routerModel = dependencies.routerModel;
+    this.embedder = dependencies.embedder;
+    this.usage = dependencies.usage;
+    this.agentId = dependencies.agentId;
 
     this.config = {
       maxConcurrent: config.maxConcurrent ?? 3,
       timeout: config.timeout ?? 30000,
       retryAttempts: config.retryAttempts ?? 2,
       selectionStrategy: config.selectionStrategy ?? 'capability-match',
+      retry: config.retry,
+      maxFallbacks: config.maxFallbacks ?? 2,
+      router: config.router,
+      semantic: config.semantic,
     };
 
     // Initialize selection strategy
@@ -115,6 +195,8 @@ export class AgentCoordinator {
    */
   registerSubAgent(agent: SubAgent): void {
     this.subAgents.set(agent.id, agent);
+    this.retryPolicies.delete(agent.id);
+    this.selectionStrategy.register?.(agent);
     this.logger?.info(`Registered sub-agent: ${agent.name}`, {
       id: agent.id,
       specialization: agent.specialization,
@@ -128,6 +210,7 @@ export class AgentCoordinator {
   unregisterSubAgent(agentId: string): boolean {
     const result = this.subAgents.delete(agentId);
     if (result) {
+      this.selectionStrategy.unregister?.(agentId);
       this.logger?.info(`Unregistered sub-agent: ${agentId}`);
     }
     return result;
@@ -147,20 +230,36 @@ export class AgentCoordinator {
     return Array.from(this.subAgents.values());
   }
 
+  /**
+   * Rank the sub-agents for a task: the selected one, then its fallbacks
+   *
+   * Emits subagent:selected for the first. Pass the ranking on to
+   * executeTask(), executeStreamTask() or executeConsensus() so the
+   * strategy is not asked twice.
+   *
+   * @param limit Number of agents kept (default: one plus maxFallbacks)
+   */
+  async rankSubAgents(
+    task: string,
+    context?: AgentContext,
+    limit = 1 + (this.config.maxFallbacks ?? 0)
+  ): Promise<SubAgent[]> {
+    const ranked = await this.rankCandidates(task, limit, context);
+    if (ranked.length > 0) {
+      await this.emitSelected(task, ranked[0], context);
+    }
+    return ranked;
+  }
+
   /**
    * Select a sub-agent for a task
    */
-  selectSubAgent(task: string, context?: AgentContext): SubAgent | null {
+  async selectSubAgent(task: string, context?: AgentContext): Promise<SubAgent | null> {
     const candidates = Array.from(this.subAgents.values());
-    const selected = this.selectionStrategy.select(task, candidates, context);
+    const selected = await this.selectionStrategy.select(task, candidates, context);
 
     if (selected) {
-      this.eventBus.emit('subagent:selected', {
-        subAgentId: selected.id,
-        task,
-        parentAgentId: context?.parentTaskId ?? 'main',
-      });
-      this.logger?.debug(`Selected sub-agent: ${selected.name}`, { task });
+      await this.emitSelected(task, selected, context);
     }
 
     return selected;
@@ -168,19 +267,417 @@ export class AgentCoordinator {
 
   /**
    * Execute a task using the best matching sub-agent
+   *
+   * When that agent still fails after its retries, the next ranked candidates
+   * are tried in turn, up to maxFallbacks. The result metadata records which
+   * one answered as subAgentId and subAgentFallbackIndex.
+   *
+   * @param candidates Ranking from rankSubAgents(); the task is ranked here when omitted
+   */
+  async executeTask(
+    task: string,
+    context?: AgentContext,
+    options: AgentExecuteOptions = {},
+    candidates?: SubAgent[]
+  ): Promise<AgentResult> {
+    const ranked =
+      candidates ?? (await this.rankCandidates(task, 1 + (this.config.maxFallbacks ?? 0), context));
+
+    if (ranked.length === 0) {
+      return noMatchingSubAgent();
+    }
+
+    let result!: AgentResult;
+    let fallbackIndex = 0;
+
+    for (const [index, agent] of ranked.entries()) {
+      if (index > 0) {
+        this.emitFallback(task, ranked[index - 1], agent, result, context);
+      }
+
+      result = await this.executeWithRetry(agent, task, context, options);
+      fallbackIndex = index;
+
+      if (!this.canFallback(result, context)) {
+        break;
+      }
+    }
+
+    return withAnsweredBy(result, ranked[fallbackIndex], fallbackIndex);
+  }
+
+  /**
+   * Stream a task from the best matching sub-agent, falling back like executeTask()
+   *
+   * The next ranked candidate is tried only while nothing has been streamed
+   * to the caller. Once an agent has produced output, its failure is
+   * returned as-is, since a fallback would repeat that output.
+   *
+   * @param candidates Ranking from rankSubAgents(); the task is ranked here when omitted
+   * @returns The final result, with subAgentId and subAgentFallbackIndex in its metadata
+   */
+  async *executeStreamTask(
+    task: string,
+    context?: AgentContext,
+    candidates?: SubAgent[]
+  ): AsyncGenerator<AgentStreamChunk, AgentResult> {
+    const ranked =
+      candidates ?? (await this.rankCandidates(task, 1 + (this.config.maxFallbacks ?? 0), context));
+
+    if (ranked.length === 0) {
+      return noMatchingSubAgent();
+    }
+
+    let result!: AgentResult;
+    let fallbackIndex = 0;
+
+    for (const [index, agent] of ranked.entries()) {
+      if (index > 0) {
+        this.emitFallback(task, ranked[index - 1], agent, result, context);
+      }
+
+      let streamed = false;
+      const stream = this.executeStreamWithAgent(agent.id, task, context);
+      for (let next = await stream.next(); ; next = await stream.next()) {
+        if (next.done) {
+          result = next.value;
+          break;
+        }
+        if (next.value.type !== 'subagent-start' && next.value.type !== 'subagent-complete') {
+          streamed = true;
+        }
+        yield next.value;
+      }
+      fallbackIndex = index;
+
+      if (streamed || !this.canFallback(result, context)) {
+        break;
+      }
+    }
+
+    return withAnsweredBy(result, ranked[fallbackIndex], fallbackIndex);
+  }
+
+  /**
+   * Send a task to the top ranked sub-agents in parallel and combine their answers
+   *
+   * Each agent runs through the task queue with its own retries; failures are
+   * passed to the aggregator along with the answers. The per-agent results
+   * are kept in metadata.consensus.results, best ranked first.
+   *
+   * @param agents Number of sub-agents to ask
+   * @param ranked Ranking from rankSubAgents(); the task is ranked here when omitted
+   */
+  async executeConsensus(
+    task: string,
+    aggregator: ResultAggregator,
+    agents: number,
+    context?: AgentContext,
+    options: AgentExecuteOptions = {},
+    ranked?: SubAgent[]
+  ): Promise<AgentResult> {
+    const candidates = ranked
+      ? ranked.slice(0, agents)
+      : await this.rankCandidates(task, agents, context);
+
+    if (candidates.length === 0) {
+      return noMatchingSubAgent();
+    }
+
+    this.logger?.debug('Running consensus', {
+      task,
+      subAgents: candidates.map((agent) => agent.id),
+      aggregator: aggregator.name,
+    });
+
+    const results = await this.collectConsensus(task, aggregator, candidates, context, options);
+    const aggregated = await aggregator.aggregate(
+      task,
+      results,
+      context?.signal,
+      this.agentId === undefined ? undefined : attributeToTask(this.agentId, context)
+    );
+    const byRank = [...results].sort((a, b) => a.rank - b.rank);
+
+    return {
+      ...aggregated,
+      metadata: {
+        ...aggregated.metadata,
+        mode: 'consensus',
+        consensus: {
+          aggregator: aggregator.name,
+          results: byRank.map((r) => ({
+            subAgentId: r.subAgentId,
+            success: r.result.success,
+            content: r.result.content,
+            error: r.result.error?.message,
+          })),
+        },
+      },
+    };
+  }
+
+  /**
+   * Run a consensus task on each candidate through the task queue
+   *
+   * Results are collected in completion order, which first-success
+   * aggregation relies on. Once the aggregator finds them decisive, the
+   * runs still going are cancelled and left out.
+   */
+  private async collectConsensus(
+    task: string,
+    aggregator: ResultAggregator,
+    candidates: SubAgent[],
+    context?: AgentContext,
+    options: AgentExecuteOptions = {}
+  ): Promise<ConsensusResult[]> {
+    const { controller, dispose } = createLinkedAbortController(context?.signal);
+    const results: ConsensusResult[] = [];
+    let decided = false;
+
+    const run = async (agent: SubAgent, rank: number): Promise<void> => {
+      let result: AgentResult;
+      try {
+        result = await this.taskQueue.add(
+          (signal) =>
+            this.executeWithRetry(agent, task, context && { ...context, signal }, options),
+          {
+            // Each attempt is timed on its own, so retries and backoff are not cut short
+            timeout: 0,
+            priority: 5,
+            signal: controller.signal,
+            budget: context?.activeBudget,
+          }
+        );
+      } catch (error) {
+        result = {
+          success: false,
+          content: '',
+          error: error instanceof Error ? error : new Error(String(error)),
+        };
+      }
+      if (!decided) {
+        results.push({ subAgentId: agent.id, result, rank });
+      }
+    };
+
+    try {
+      await new Promise<void>((resolve) => {
+        let pending = candidates.length;
+        for (const [rank, agent] of candidates.entries()) {
+          void run(agent, rank).then(() => {
+            if (!decided && aggregator.isDecisive?.(results)) {
+              decided = true;
+              controller.abort(new TaskCancelledError('Consensus already decided'));
+            }
+            if (--pending === 0 || decided) {
+              resolve();
+            }
+          });
+        }
+      });
+    } finally {
+      dispose();
+    }
+
+    return results;
+  }
+
+  /**
+   * Execute a task with a specific sub-agent
    */
-  async executeTask(task: string, context?: AgentContext): Promise<AgentResult> {
-    const agent = this.selectSubAgent(task, context);
+  async executeWithAgent(
+    agentId: string,
+    task: string,
+    context?: AgentContext,
+    options: AgentExecuteOptions = {}
+  ): Promise<AgentResult> {
+    const agent = this.subAgents.get(agentId);
+
+    if (!agent) {
+      return {
+        success: false,
+        content: `Sub-agent not found: ${agentId}`,
+        error: new Error(`Sub-agent not found: ${agentId}`),
+      };
+    }
+
+    return this.executeWithRetry(agent, task, context, options);
+  }
+
+  /**
+   * Execute a task with a specific sub-agent, streaming its output
+   *
+   * Attempts that fail before producing any output are retried. Once chunks
+   * have been streamed to the caller a failure is returned as-is, since a
+   * retry would duplicate partial output.
+   *
+   * @returns The sub-agent's final result
+   */
+  async *executeStreamWithAgent(
+    agentId: string,
+    task: string,
+    context?: AgentContext
+  ): AsyncGenerator<AgentStreamChunk, AgentResult> {
+    const agent = this.subAgents.get(agentId);
 
     if (!agent) {
       return {
         success: false,
-        content: 'No suitable sub-agent found for this task',
-        error: new Error('No matching sub-agent'),
+        content: `Sub-agent not found: ${agentId}`,
+        error: new Error(`Sub-agent not found: ${agentId}`),
       };
     }
 
-    return this.executeWithRetry(agent, task, context);
+    const parentAgentId = context?.parentTaskId ?? 'main';
+    yield { type: 'subagent-start', subAgentId: agent.id, parentAgentId, task };
+
+    const policy = this.getRetryPolicy(agent);
+    let result: AgentResult | undefined;
+    let lastError: Error | undefined;
+
+    for (let attempt = 0; ; attempt++) {
+      let streamed = false;
+      result = undefined;
+      // Attempts are not started once the budget is spent
+      const exceeded = context?.activeBudget?.exceeded({ modelCalls: 1 });
+      if (exceeded) {
+        lastError = exceeded;
+        break;
+      }
+      const { controller, dispose } = createLinkedAbortController(context?.signal);
+      try {
+        const stream = withTimeout(
+          agent.executeStream(task, context && { ...context, signal: controller.signal }),
+          this.config.timeout,
+          controller
+        );
+        for await (const chunk of stream) {
+          if (chunk.type === 'result') {
+            result = chunk.result;
+          } else {
+            streamed = true;
+            yield chunk;
+          }
+        }
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        this.logger?.warn(`Streamed task failed (attempt ${attempt + 1})`, {
+          agentId: agent.id,
+          error: lastError.message,
+        });
+      } finally {
+        dispose();
+      }
+
+      // Cancelled tasks and partially streamed output are not retried
+      if (result?.success || streamed || context?.signal?.aborted) {
+        break;
+      }
+      const decision = policy.decide(attempt, result ? { result } : { error: lastError });
+      if (!(await this.backoff(agent, task, attempt, decision, context))) {
+        break;
+      }
+    }
+
+    const finalResult: AgentResult = result ?? {
+      success: false,
+      content: '',
+      error: lastError ?? new Error('Unknown error'),
+    };
+
+    this.eventBus.emit('subagent:complete', {
+      subAgentId: agent.id,
+      result: finalResult,
+      parentAgentId,
+    });
+    yield { type: 'subagent-complete', subAgentId: agent.id, parentAgentId, result: finalResult };
+
+    return finalResult;
+  }
+
+  /**
+   * Execute plan steps through the task queue in dependency order
+   *
+   * Each step is queued as soon as all of its dependencies have completed,
+   * so independent steps run in parallel. Steps whose dependencies failed
+   * are skipped, as are steps queued after the budget ran out. A step on a
+   * sub-agent is expected to run through its retries, which time each
+   * attempt, so only the other steps are timed as a whole.
+   */
+  async executePlan(
+    plan: Plan,
+    runStep: (
+      step: PlanStep,
+      dependencyResults: PlanStepResult[],
+      signal: AbortSignal
+    ) => Promise<AgentResult>,
+    options: { signal?: AbortSignal; budget?: Budget } = {}
+  ): Promise<PlanStepResult[]> {
+    const stepsById = new Map(plan.steps.map((step) => [step.id, step]));
+    const scheduled = new Map<string, Promise<PlanStepResult>>();
+    const visiting = new Set<string>();
+
+    const schedule = (step: PlanStep): Promise<PlanStepResult> => {
+      const existing = scheduled.get(step.id);
+      if (existing) {
+        return existing;
+      }
+      if (visiting.has(step.id)) {
+        throw new Error(`Plan contains a dependency cycle at step ${step.id}`);
+      }
+      visiting.add(step.id);
+
+      const dependencies = step.dependsOn.map((depId) => {
+        const depStep = stepsById.get(depId);
+        if (!depStep) {
+          throw new Error(`Step ${step.id} depends on unknown step ${depId}`);
+        }
+        return schedule(depStep);
+      });
+
+      const promise = Promise.all(dependencies).then(async (dependencyResults) => {
+        const failed = dependencyResults.find((dep) => !dep.result.success);
+        if (failed) {
+          this.logger?.warn('Skipping plan step due to failed dependency', {
+            stepId: step.id,
+            dependency: failed.stepId,
+          });
+          return {
+            stepId: step.id,
+            subAgentId: step.subAgentId,
+            result: {
+              success: false,
+              content: `Skipped: dependency ${failed.stepId} failed`,
+              error: new Error(`Dependency ${failed.stepId} failed`),
+            },
+          };
+        }
+
+        let result: AgentResult;
+        try {
+          result = await this.taskQueue.add((signal) => runStep(step, dependencyResults, signal), {
+            timeout: step.subAgentId ? 0 : this.config.timeout,
+            priority: 5,
+            signal: options.signal,
+            budget: options.budget,
+          });
+        } catch (error) {
+          result = {
+            success: false,
+            content: '',
+            error: error instanceof Error ? error : new Error(String(error)),
+          };
+        }
+
+        return { stepId: step.id, subAgentId: step.subAgentId, result };
+      });
+
+      scheduled.set(step.id, promise);
+      return promise;
+    };
+
+    return Promise.all(plan.steps.map((step) => schedule(step)));
   }
 
   /**
@@ -190,9 +687,12 @@ export class AgentCoordinator {
     tasks: Array<{ task: string; context?: AgentContext }>
   ): Promise<AgentResult[]> {
     const taskPromises = tasks.map(({ task, context }) =>
-      this.taskQueue.add(() => this.executeTask(task, context), {
-        timeout: this.config.timeout,
+      this.taskQueue.add((signal) => this.executeTask(task, context && { ...context, signal }), {
+        // Attempts on each candidate are timed on their own
+        timeout: 0,
         priority: 5,
+        signal: context?.signal,
+        budget: context?.activeBudget,
       })
     );
 
@@ -223,33 +723,30 @@ export class AgentCoordinator {
 
   /**
    * Execute with retry logic
+   *
+   * Failed attempts are retried with backoff as the agent's retry policy
+   * allows. When retries run out, the last unsuccessful result is returned.
    */
   private async executeWithRetry(
     agent: SubAgent,
     task: string,
-    context?: AgentContext
+    context?: AgentContext,
+    options: AgentExecuteOptions = {}
   ): Promise<AgentResult> {
+    const policy = this.getRetryPolicy(agent);
+    let result: AgentResult | undefined;
     let lastError: Error | undefined;
 
-    for (let attempt = 0; attempt <= this.config.retryAttempts; attempt++) {
+    for (let attempt = 0; ; attempt++) {
+      result = undefined;
+      // Attempts are not started once the budget is spent
+      const exceeded = context?.activeBudget?.exceeded({ modelCalls: 1 });
+      if (exceeded) {
+        lastError = exceeded;
+        break;
+      }
       try {
-        if (attempt > 0) {
-          this.logger?.info(`Retrying task (attempt ${attempt + 1})`, {
-            agentId: agent.id,
-            task,
-          });
-        }
-
-        const result = await this.executeWithTimeout(agent, task, context);
-
-        // Emit completion event
-        this.eventBus.emit('subagent:complete', {
-          subAgentId: agent.id,
-          result,
-          parentAgentId: context?.parentTaskId ?? 'main',
-        });
-
-        return result;
+        result = await this.executeWithTimeout(agent, task, context, options);
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
         this.logger?.warn(`Task execution failed (attempt ${attempt + 1})`, {
@@ -257,39 +754,196 @@ export class AgentCoordinator {
           error: lastError.message,
         });
       }
+
+      // Cancelled tasks are not retried
+      if (result?.success || context?.signal?.aborted) {
+        break;
+      }
+      const decision = policy.decide(attempt, result ? { result } : { error: lastError });
+      if (!(await this.backoff(agent, task, attempt, decision, context))) {
+        break;
+      }
     }
 
-    return {
-      success: false,
-      content: '',
-      error: lastError ?? new Error('Unknown error'),
-    };
+    if (!result) {
+      return {
+        success: false,
+        content: '',
+        error: lastError ?? new Error('Unknown error'),
+      };
+    }
+
+    // Emit completion event
+    this.eventBus.emit('subagent:complete', {
+      subAgentId: agent.id,
+      result,
+      parentAgentId: context?.parentTaskId ?? 'main',
+    });
+
+    return result;
+  }
+
+  /**
+   * Emit subagent:selected, with the strategy's scores when it has them
+   */
+  private async emitSelected(
+    task: string,
+    selected: SubAgent,
+    context?: AgentContext
+  ): Promise<void> {
+    const candidates = Array.from(this.subAgents.values());
+    const scores = await this.selectionStrategy.score?.(task, candidates, context);
+    this.eventBus.emit('subagent:selected', {
+      subAgentId: selected.id,
+      task,
+      parentAgentId: context?.parentTaskId ?? 'main',
+      ...(scores && { scores }),
+    });
+    this.logger?.debug(`Selected sub-agent: ${selected.name}`, { task, scores });
+  }
+
+  /**
+   * Log and emit a move to the next ranked sub-agent
+   */
+  private emitFallback(
+    task: string,
+    previous: SubAgent,
+    agent: SubAgent,
+    result: AgentResult,
+    context?: AgentContext
+  ): void {
+    const reason = result.error?.message ?? 'Unsuccessful result';
+    this.logger?.warn(`Sub-agent ${previous.name} failed, falling back to ${agent.name}`, {
+      task,
+      reason,
+    });
+    this.eventBus.emit('subagent:fallback', {
+      fromSubAgentId: previous.id,
+      toSubAgentId: agent.id,
+      task,
+      parentAgentId: context?.parentTaskId ?? 'main',
+      reason,
+    });
+  }
+
+  /**
+   * Whether a result may move on to the next ranked sub-agent
+   *
+   * Cancelled tasks and exceeded budgets do not fall back.
+   */
+  private canFallback(result: AgentResult, context?: AgentContext): boolean {
+    return (
+      !result.success && !context?.signal?.aborted && !(result.error instanceof BudgetExceededError)
+    );
+  }
+
+  /**
+   * Rank the sub-agents for a task and keep the best `limit`
+   *
+   * Strategies that cannot rank yield only their selection.
+   */
+  private async rankCandidates(
+    task: string,
+    limit: number,
+    context?: AgentContext
+  ): Promise<SubAgent[]> {
+    const candidates = Array.from(this.subAgents.values());
+
+    if (!this.selectionStrategy.rank) {
+      const selected = await this.selectionStrategy.select(task, candidates, context);
+      return selected ? [selected] : [];
+    }
+
+    const ranked = await this.selectionStrategy.rank(task, candidates, context);
+    return ranked.slice(0, limit);
+  }
+
+  /**
+   * Wait before retrying a failed attempt
+   *
+   * @returns false when the decision is not to retry, or the task was cancelled while waiting
+   */
+  private async backoff(
+    agent: SubAgent,
+    task: string,
+    attempt: number,
+    decision: RetryDecision,
+    context?: AgentContext
+  ): Promise<boolean> {
+    if (!decision.retry) {
+      return false;
+    }
+
+    this.logger?.info(`Retrying task in ${decision.delayMs}ms (attempt ${attempt + 2})`, {
+      agentId: agent.id,
+      errorKind: decision.errorKind,
+      task,
+    });
+    this.eventBus.emit('subagent:retry', {
+      subAgentId: agent.id,
+      task,
+      parentAgentId: context?.parentTaskId ?? 'main',
+      attempt: attempt + 1,
+      delayMs: decision.delayMs,
+      reason: decision.reason,
+      errorKind: decision.errorKind,
+    });
+
+    try {
+      await delay(decision.delayMs, context?.signal);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get the retry policy for a sub-agent
+   *
+   * The agent's own settings override the coordinator's.
+   */
+  private getRetryPolicy(agent: SubAgent): RetryPolicy {
+    let policy = this.retryPolicies.get(agent.id);
+    if (!policy) {
+      policy = new RetryPolicy({
+        maxRetries: this.config.retryAttempts,
+        ...this.config.retry,
+        ...agent.retry,
+      });
+      this.retryPolicies.set(agent.id, policy);
+    }
+    return policy;
   }
 
   /**
    * Execute with timeout
+   *
+   * On timeout, cancellation or the budget's deadline the attempt's signal
+   * is aborted, which stops the sub-agent's model calls and tools, before
+   * rejecting.
    */
   private async executeWithTimeout(
     agent: SubAgent,
     task: string,
-    context?: AgentContext
+    context?: AgentContext,
+    options: AgentExecuteOptions = {}
   ): Promise<AgentResult> {
-    return new Promise<AgentResult>((resolve, reject) => {
-      const timeoutId = setTimeout(() => {
-        reject(new Error(`Task timed out after ${this.config.timeout}ms`));
-      }, this.config.timeout);
-
-      agent
-        .execute(task, context)
-        .then((result) => {
-          clearTimeout(timeoutId);
-          resolve(result);
-        })
-        .catch((error) => {
-          clearTimeout(timeoutId);
-          reject(error);
-        });
-    });
+    const { controller, dispose } = createLinkedAbortController(context?.signal);
+    const timeoutId = setTimeout(() => {
+      controller.abort(new Error(`Task timed out after ${this.config.timeout}ms`));
+    }, this.config.timeout);
+    const stopDeadline = context?.activeBudget?.abortAtDeadline(controller);
+
+    try {
+      return await abortable(
+        agent.execute(task, context && { ...context, signal: controller.signal }, options),
+        controller.signal
+      );
+    } finally {
+      clearTimeout(timeoutId);
+      stopDeadline?.();
+      dispose();
+    }
   }
 
   /**
@@ -301,6 +955,27 @@ export class AgentCoordinator {
         return new PrioritySelectionStrategy();
       case 'round-robin':
         return new RoundRobinStrategy();
+      case 'llm-router':
+        if (!this.routerModel) {
+          this.logger?.warn('No routing model available, using capability matching');
+          return new CapabilityMatchStrategy();
+        }
+        return new LLMRouterStrategy(
+          {
+            model: this.routerModel,
+            fallback: new CapabilityMatchStrategy(),
+            describe: (candidates) => this.getSubAgentDescriptions(candidates),
+            logger: this.logger,
+            usage: this.usage,
+            agentId: this.agentId,
+          },
+          this.config.router
+        );
+      case 'semantic-match':
+        return new SemanticMatchStrategy(
+          { embedder: this.embedder ?? new HashingEmbedder(), logger: this.logger },
+          this.config.semantic
+        );
       case 'capability-match':
       default:
         return new CapabilityMatchStrategy();
@@ -318,6 +993,10 @@ export class AgentCoordinator {
     } else {
       this.selectionStrategy = strategy;
     }
+
+    for (const agent of this.subAgents.values()) {
+      this.selectionStrategy.register?.(agent);
+    }
   }
 
   /**
@@ -340,14 +1019,64 @@ export class AgentCoordinator {
   }
 
   /**
-   * Get sub-agent descriptions for prompt generation
+   * Get sub-agent descriptions for prompt generation, one line per agent with its ID
    */
-  getSubAgentDescriptions(): string {
-    const agents = Array.from(this.subAgents.values());
+  getSubAgentDescriptions(agents: SubAgent[] = Array.from(this.subAgents.values())): string {
     if (agents.length === 0) {
       return 'No sub-agents available.';
     }
 
-    return agents.map((agent) => agent.getDescription()).join('\n');
+    return agents.map((agent) => `- ${agent.id}: ${agent.getDescription()}`).join('\n');
+  }
+}
+
+/**
+ * Failed result for a task no sub-agent matched
+ */
+function noMatchingSubAgent(): AgentResult {
+  return {
+    success: false,
+    content: 'No suitable sub-agent found for this task',
+    error: new Error('No matching sub-agent'),
+  };
+}
+
+/**
+ * Record in a result which ranked sub-agent answered
+ */
+function withAnsweredBy(result: AgentResult, agent: SubAgent, fallbackIndex: number): AgentResult {
+  return {
+    ...result,
+    metadata: { ...result.metadata, subAgentId: agent.id, subAgentFallbackIndex: fallbackIndex },
+  };
+}
+
+/**
+ * Wrap an async generator so the whole iteration fails after timeoutMs
+ *
+ * The controller is aborted on timeout, and iteration also fails as soon as
+ * it is aborted for any other reason.
+ */
+async function* withTimeout<T>(
+  generator: AsyncGenerator<T>,
+  timeoutMs: number,
+  controller: AbortController
+): AsyncGenerator<T> {
+  const timeoutId = setTimeout(() => {
+    controller.abort(new Error(`Task timed out after ${timeoutMs}ms`));
+  }, timeoutMs);
+
+  try {
+    while (true) {
+      const next = await abortable(generator.next(), controller.signal);
+      if (next.done) {
+        return;
+      }
+      yield next.value;
+    }
+  } finally {
+    clearTimeout(timeoutId);
+    // Close the underlying stream on timeout or early exit
+    generator.return(undefined).catch(() => undefined);
   }
 }
@@ -1,10 +1,35 @@
-import type { ModelMessage } from 'ai';
+import {
+  NoObjectGeneratedError,
+  type AssistantContent,
+  type ModelMessage,
+  type Tool,
+  type ToolResultPart,
+} from 'ai';
+import type { ZodType } from 'zod';
 import type { ModelAdapter } from '../core/model/ModelAdapter';
 import type { ToolRegistry } from '../core/tools/ToolRegistry';
 import type { Memory } from '../core/memory/Memory';
+import type { LongTermMemory } from '../core/memory/LongTermMemory';
+import { UsageLedger, type UsageScope } from '../core/usage/UsageLedger';
+import { chargeModelCall, type CallAttribution } from '../core/usage/metered';
+import type { Budget, BudgetExceededError } from '../core/usage/Budget';
+import { ApprovalGate, ToolApprovalError } from '../core/tools/ApprovalGate';
 import type { EventBus } from '../utils/event-bus';
+import { abortable } from '../utils/abort';
 import type { Logger } from '../utils/logger';
-import type { AgentConfig, AgentContext, AgentResult, Message, GenerateOptions } from './types';
+import type {
+  AgentConfig,
+  AgentContext,
+  AgentExecuteOptions,
+  AgentResult,
+  AgentStreamChunk,
+  ApprovalDecision,
+  Message,
+  GenerateOptions,
+  GenerateResult,
+  GenerateStep,
+  ToolCallResult,
+} from './types';
 
 /**
  * Base agent dependencies - injected via constructor
@@ -15,6 +40,145 @@ export interface AgentDependencies {
   memory: Memory;
   eventBus: EventBus;
   logger?: Logger;
+  /** Semantic memory used to recall relevant past context */
+  longTermMemory?: LongTermMemory;
+  /**
+   * Gate that tool calls requiring confirmation wait on; without one, such
+   * calls are rejected
+   */
+  approvals?: ApprovalGate;
+  /** Ledger model calls are recorded in; agents sharing one roll up together */
+  usage?: UsageLedger;
+}
+
+/**
+ * Options for an agent's model calls
+ */
+export interface AgentGenerateOptions extends Partial<GenerateOptions> {
+  maxSteps?: number;
+  /** What the calls are attributed to in the usage ledger */
+  scope?: UsageScope;
+  /** Budget the calls are charged to; runs stop once it is exceeded */
+  budget?: Budget;
+}
+
+/**
+ * What happened around a tool call besides its result
+ */
+interface ToolRun {
+  startedAt?: Date;
+  durationMs?: number;
+  approval?: ApprovalDecision;
+}
+
+/**
+ * Wrap tool execute functions to record their timings by tool call ID
+ */
+function timeTools(tools: Record<string, Tool>, runs: Map<string, ToolRun>): Record<string, Tool> {
+  const timed: Record<string, Tool> = {};
+
+  for (const [name, tool] of Object.entries(tools)) {
+    const execute = tool.execute;
+    timed[name] = execute
+      ? {
+          ...tool,
+          execute: async (input, options) => {
+            const startedAt = new Date();
+            try {
+              return await execute(input, options);
+            } finally {
+              runs.set(options.toolCallId, {
+                ...runs.get(options.toolCallId),
+                startedAt,
+                durationMs: Date.now() - startedAt.getTime(),
+              });
+            }
+          },
+        }
+      : tool;
+  }
+
+  return timed;
+}
+
+/**
+ * Wrap tool execute functions to charge each call to a budget
+ *
+ * A call past the budget's limit is counted, then fails without running.
+ */
+function budgetTools(tools: Record<string, Tool>, budget: Budget): Record<string, Tool> {
+  const budgeted: Record<string, Tool> = {};
+
+  for (const [name, tool] of Object.entries(tools)) {
+    const execute = tool.execute;
+    budgeted[name] = execute
+      ? {
+          ...tool,
+          execute: async (input, options) => {
+            budget.charge({ toolCalls: 1 });
+            budget.check();
+            return execute(input, options);
+          },
+        }
+      : tool;
+  }
+
+  return budgeted;
+}
+
+/**
+ * Turn model steps into the assistant tool-call and tool-result messages
+ * that led up to the final answer
+ */
+function stepsToMessages(steps: GenerateStep[]): Message[] {
+  const messages: Message[] = [];
+
+  for (const step of steps) {
+    if (step.toolCalls.length === 0) continue;
+
+    const timestamp = new Date();
+    messages.push({ role: 'assistant', content: step.text, timestamp, toolCalls: step.toolCalls });
+
+    for (const toolResult of step.toolResults) {
+      messages.push({
+        role: 'tool',
+        content:
+          toolResult.error ??
+          (typeof toolResult.result === 'string'
+            ? toolResult.result
+            : JSON.stringify(toolResult.result ?? null)),
+        timestamp,
+        toolCallId: toolResult.toolCallId,
+        toolName: toolResult.toolName,
+        toolResult: toolResult.result,
+        isError: toolResult.error !== undefined,
+      });
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Build the AI SDK output for a stored tool message
+ */
+function toToolOutput(message: Message): ToolResultPart['output'] {
+  if (message.isError) {
+    return { type: 'error-text', value: message.content };
+  }
+  if (message.toolResult === undefined || typeof message.toolResult === 'string') {
+    return { type: 'text', value: message.content };
+  }
+  return { type: 'json', value: message.toolResult as ToolResultPart['output']['value'] & object };
+}
+
+/**
+ * Result metadata naming the model that answered, when a failover adapter reported it
+ */
+function modelMetadata(result: Pick<GenerateResult, 'model' | 'fallbackIndex'>) {
+  return result.model === undefined
+    ? {}
+    : { model: result.model, modelFallbackIndex: result.fallbackIndex };
 }
 
 /**
@@ -27,6 +191,9 @@ export abstract class BaseAgent {
   protected readonly model: ModelAdapter;
   protected readonly tools: ToolRegistry;
   protected readonly memory: Memory;
+  protected readonly longTermMemory?: LongTermMemory;
+  protected readonly approvals: ApprovalGate;
+  protected readonly usage: UsageLedger;
   protected readonly eventBus: EventBus;
   protected readonly logger?: Logger;
   protected readonly config: AgentConfig;
@@ -35,6 +202,12 @@ export abstract class BaseAgent {
     this.model = dependencies.model;
     this.tools = dependencies.tools;
     this.memory = dependencies.memory;
+    this.longTermMemory = dependencies.longTermMemory;
+    // A gate without a handler rejects every call that needs confirmation
+    this.approvals =
+      dependencies.approvals ??
+      new ApprovalGate({ eventBus: dependencies.eventBus, logger: dependencies.logger });
+    this.usage = dependencies.usage ?? new UsageLedger();
     this.eventBus = dependencies.eventBus;
     this.logger = dependencies.logger;
     this.config = config;
@@ -57,36 +230,52 @@ export abstract class BaseAgent {
   /**
    * Execute a task
    */
-  abstract execute(task: string, context?: AgentContext): Promise<AgentResult>;
+  abstract execute(
+    task: string,
+    context?: AgentContext,
+    options?: AgentExecuteOptions
+  ): Promise<AgentResult>;
+
+  /**
+   * Execute a task, streaming progress as it happens
+   *
+   * The default implementation runs execute() and yields only the final
+   * result. Agents that can stream tokens override this.
+   */
+  async *executeStream(task: string, context?: AgentContext): AsyncGenerator<AgentStreamChunk> {
+    const result = await this.execute(task, context);
+    yield { type: 'result', agentId: this.id, result };
+  }
 
   /**
    * Generate a response using the model
    */
   protected async generate(
     messages: ModelMessage[],
-    options: Partial<GenerateOptions> = {}
+    options: AgentGenerateOptions = {}
   ): Promise<AgentResult> {
     try {
+      options.budget?.check({ modelCalls: 1 });
       const result = await this.model.generate({
         messages,
         systemPrompt: options.systemPrompt ?? this.config.systemPrompt,
         tools: options.tools ?? this.tools.toCoreTools(this.id),
         maxTokens: options.maxTokens,
         temperature: options.temperature,
+        abortSignal: options.abortSignal,
       });
+      this.recordUsage(result, options.scope);
+      this.chargeBudget(options.budget, result.usage, result.model);
 
       return {
         success: true,
         content: result.text,
-        toolCalls: result.toolCalls?.map((call) => ({
-          toolName: call.toolName,
-          toolCallId: call.toolCallId,
-          args: call.args as Record<string, unknown>,
-          result: undefined, // Will be filled if tools are executed
-        })),
+        // Tools are not executed here, so the calls carry no results
+        toolCalls: result.toolCalls?.map((call) => this.traceToolCall(call, 0)),
         metadata: {
           usage: result.usage,
           finishReason: result.finishReason,
+          ...modelMetadata(result),
         },
       };
     } catch (error) {
@@ -94,26 +283,37 @@ export abstract class BaseAgent {
       return {
         success: false,
         content: '',
-        error: error instanceof Error ? error : new Error(String(error)),
+        error: this.toError(error, options.budget),
       };
     }
   }
 
   /**
    * Generate a response with automatic tool execution
+   *
+   * A run stopped by its budget fails with a BudgetExceededError, keeping
+   * the text and tool calls produced until then.
    */
   protected async generateWithTools(
     messages: ModelMessage[],
-    options: Partial<GenerateOptions> & { maxSteps?: number } = {}
+    options: AgentGenerateOptions = {}
   ): Promise<AgentResult> {
+    const { budget } = options;
+    const runs = new Map<string, ToolRun>();
+    const toolCalls: ToolCallResult[] = [];
+    let stepIndex = 0;
+
     try {
+      budget?.check({ modelCalls: 1 });
       const result = await this.model.generateWithTools({
         messages,
         systemPrompt: options.systemPrompt ?? this.config.systemPrompt,
-        tools: options.tools ?? this.tools.toCoreTools(this.id),
+        tools: this.prepareTools(options.tools, runs, budget),
         maxTokens: options.maxTokens,
         temperature: options.temperature,
+        abortSignal: options.abortSignal,
         maxSteps: options.maxSteps ?? 5,
+        shouldStop: budget && (() => budget.exceeded({ modelCalls: 1 }) !== undefined),
         onToolCall: (call) => {
           this.eventBus.emit('tool:call', {
             toolName: call.toolName,
@@ -121,20 +321,34 @@ export abstract class BaseAgent {
             agentId: this.id,
           });
         },
+        onStepFinish: (step) => {
+          for (const call of step.toolCalls) {
+            const toolResult = step.toolResults.find((r) => r.toolCallId === call.toolCallId);
+            const traced = this.traceToolCall(call, stepIndex, toolResult, runs);
+            toolCalls.push(traced);
+            if (toolResult) {
+              this.eventBus.emit('tool:result', traced);
+            }
+          }
+          this.chargeBudget(budget, step.usage, step.model);
+          stepIndex++;
+        },
       });
 
+      this.recordUsage(result, options.scope);
+      const toolMessages = stepsToMessages(result.steps ?? []);
+      const stopped = this.budgetStop(budget, result.finishReason);
+
       return {
-        success: true,
+        success: !stopped,
+        error: stopped,
         content: result.text,
-        toolCalls: result.toolCalls?.map((call) => ({
-          toolName: call.toolName,
-          toolCallId: call.toolCallId,
-          args: call.args as Record<string, unknown>,
-          result: undefined,
-        })),
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        messages: toolMessages.length > 0 ? toolMessages : undefined,
         metadata: {
           usage: result.usage,
           finishReason: result.finishReason,
+          ...modelMetadata(result),
         },
       };
     } catch (error) {
@@ -142,7 +356,234 @@ export abstract class BaseAgent {
       return {
         success: false,
         content: '',
-        error: error instanceof Error ? error : new Error(String(error)),
+        error: this.toError(error, budget),
+      };
+    }
+  }
+
+  /**
+   * Generate an answer matching a schema
+   *
+   * When the output does not match, the model is shown the validation error
+   * and asked once more.
+   */
+  protected async generateStructured<T>(
+    messages: ModelMessage[],
+    schema: ZodType<T>,
+    options: AgentGenerateOptions = {}
+  ): Promise<AgentResult<T>> {
+    const request = {
+      systemPrompt: options.systemPrompt ?? this.config.systemPrompt,
+      schema,
+      maxTokens: options.maxTokens,
+      temperature: options.temperature,
+      abortSignal: options.abortSignal,
+    };
+
+    try {
+      let result;
+      try {
+        options.budget?.check({ modelCalls: 1 });
+        result = await this.model.generateObject({ ...request, messages });
+      } catch (error) {
+        if (!NoObjectGeneratedError.isInstance(error) || options.abortSignal?.aborted) {
+          throw error;
+        }
+        // The rejected answer was still paid for
+        const usage = error.usage && {
+          promptTokens: error.usage.inputTokens ?? 0,
+          completionTokens: error.usage.outputTokens ?? 0,
+          totalTokens: error.usage.totalTokens ?? 0,
+        };
+        this.recordUsage({ usage }, options.scope);
+        this.chargeBudget(options.budget, usage);
+        options.budget?.check({ modelCalls: 1 });
+        const reason = error.cause instanceof Error ? error.cause.message : error.message;
+        this.logger?.warn('Structured output did not match the schema, asking again', { reason });
+        result = await this.model.generateObject({
+          ...request,
+          messages: [
+            ...messages,
+            ...(error.text ? [{ role: 'assistant' as const, content: error.text }] : []),
+            {
+              role: 'user',
+              content: `That answer does not match the required schema: ${reason}\nReply again with only the corrected JSON.`,
+            },
+          ],
+        });
+      }
+      this.recordUsage(result, options.scope);
+      this.chargeBudget(options.budget, result.usage, result.model);
+
+      return {
+        success: true,
+        content: JSON.stringify(result.object, null, 2),
+        object: result.object,
+        metadata: {
+          usage: result.usage,
+          finishReason: result.finishReason,
+          ...modelMetadata(result),
+        },
+      };
+    } catch (error) {
+      this.logger?.error('Structured generation failed', { error });
+      return {
+        success: false,
+        content: '',
+        error: this.toError(error, options.budget),
+      };
+    }
+  }
+
+  /**
+   * Generate an answer matching a schema, letting the model use tools first
+   *
+   * Tools and structured output cannot share a model call, so with tools the
+   * model answers as usual and then restates its answer in the schema's shape.
+   */
+  protected async generateOutput<T>(
+    messages: ModelMessage[],
+    schema: ZodType<T>,
+    options: AgentGenerateOptions = {}
+  ): Promise<AgentResult<T>> {
+    const tools = options.tools ?? this.tools.toCoreTools(this.id);
+    if (Object.keys(tools).length === 0) {
+      return this.generateStructured(messages, schema, options);
+    }
+
+    const result = await this.generateWithTools(messages, { ...options, tools });
+    return this.structureResult(messages, result, schema, options);
+  }
+
+  /**
+   * Restate a finished text answer as an object matching a schema
+   *
+   * Results that failed or already carry an object are returned unchanged.
+   */
+  protected async structureResult<T>(
+    messages: ModelMessage[],
+    result: AgentResult,
+    schema: ZodType<T>,
+    options: AgentGenerateOptions = {}
+  ): Promise<AgentResult<T>> {
+    if (!result.success || result.object !== undefined) {
+      return result as AgentResult<T>;
+    }
+
+    const structured = await this.generateStructured(
+      [
+        ...messages,
+        { role: 'assistant', content: result.content },
+        { role: 'user', content: 'Restate your answer as JSON matching the required schema.' },
+      ],
+      schema,
+      options
+    );
+    if (!structured.success) {
+      return { ...result, object: undefined, success: false, error: structured.error };
+    }
+    return { ...result, content: structured.content, object: structured.object };
+  }
+
+  /**
+   * Stream a response with automatic tool execution
+   *
+   * Yields text, tool-call and tool-result chunks as they arrive and returns
+   * the accumulated result once the model is done. Like generateWithTools, a
+   * run stopped by its budget fails but keeps what was streamed.
+   */
+  protected async *streamWithTools(
+    messages: ModelMessage[],
+    options: AgentGenerateOptions = {}
+  ): AsyncGenerator<AgentStreamChunk, AgentResult> {
+    let content = '';
+    const runs = new Map<string, ToolRun>();
+    const toolCalls: ToolCallResult[] = [];
+    const steps: GenerateStep[] = [];
+    let step: GenerateStep = { text: '', toolCalls: [], toolResults: [] };
+    let usage: GenerateResult['usage'];
+    let finishReason: string | undefined;
+    let answeredBy: Pick<GenerateResult, 'model' | 'fallbackIndex'> = {};
+    const { budget } = options;
+
+    try {
+      budget?.check({ modelCalls: 1 });
+      const stream = this.model.stream({
+        messages,
+        systemPrompt: options.systemPrompt ?? this.config.systemPrompt,
+        tools: this.prepareTools(options.tools, runs, budget),
+        maxTokens: options.maxTokens,
+        temperature: options.temperature,
+        abortSignal: options.abortSignal,
+        maxSteps: options.maxSteps ?? 5,
+        onStepFinish:
+          budget && ((finished) => this.chargeBudget(budget, finished.usage, finished.model)),
+        shouldStop: budget && (() => budget.exceeded({ modelCalls: 1 }) !== undefined),
+      });
+
+      for await (const chunk of stream) {
+        if (chunk.type === 'text-delta' && chunk.textDelta) {
+          content += chunk.textDelta;
+          step.text += chunk.textDelta;
+          yield { type: 'text-delta', agentId: this.id, textDelta: chunk.textDelta };
+        } else if (chunk.type === 'tool-call' && chunk.toolCall) {
+          toolCalls.push(this.traceToolCall(chunk.toolCall, steps.length));
+          step.toolCalls.push(chunk.toolCall);
+          this.eventBus.emit('tool:call', {
+            toolName: chunk.toolCall.toolName,
+            args: chunk.toolCall.args,
+            agentId: this.id,
+          });
+          yield { type: 'tool-call', agentId: this.id, ...chunk.toolCall };
+        } else if (chunk.type === 'tool-result' && chunk.toolResult) {
+          const index = toolCalls.findIndex((c) => c.toolCallId === chunk.toolResult?.toolCallId);
+          if (index >= 0) {
+            toolCalls[index] = this.traceToolCall(
+              toolCalls[index],
+              toolCalls[index].step,
+              chunk.toolResult,
+              runs
+            );
+            this.eventBus.emit('tool:result', toolCalls[index]);
+          }
+          step.toolResults.push(chunk.toolResult);
+          yield { type: 'tool-result', agentId: this.id, ...chunk.toolResult };
+        } else if (chunk.type === 'step-finish') {
+          steps.push({
+            ...step,
+            finishReason: chunk.finishReason as GenerateStep['finishReason'],
+            usage: chunk.usage,
+          });
+          step = { text: '', toolCalls: [], toolResults: [] };
+        } else if (chunk.type === 'finish') {
+          usage = chunk.usage;
+          finishReason = chunk.finishReason;
+          answeredBy = { model: chunk.model, fallbackIndex: chunk.fallbackIndex };
+        }
+      }
+
+      this.recordUsage({ steps, usage, ...answeredBy }, options.scope);
+      const toolMessages = stepsToMessages(steps);
+      const stopped = this.budgetStop(budget, finishReason);
+
+      return {
+        success: !stopped,
+        error: stopped,
+        content,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        messages: toolMessages.length > 0 ? toolMessages : undefined,
+        metadata: {
+          usage,
+          finishReason,
+          ...modelMetadata(answeredBy),
+        },
+      };
+    } catch (error) {
+      this.logger?.error('Streaming generation failed', { error });
+      return {
+        success: false,
+        content,
+        error: this.toError(error, budget),
       };
     }
   }
@@ -168,24 +609,315 @@ export abstract class BaseAgent {
     };
   }
 
+  /**
+   * Get the conversation history that fits in the context window
+   * alongside this agent's system prompt and tool schemas
+   *
+   * With long-term memory, context relevant to the latest user message is
+   * recalled and placed first.
+   */
+  protected async getContextHistory(
+    conversationId: string,
+    tools?: Record<string, Tool>
+  ): Promise<Message[]> {
+    // Let a pending compaction finish so the history includes its summary
+    await this.memory.waitForCompaction(conversationId);
+
+    const recalled = await this.recallContext(conversationId);
+    const history = this.memory.getRecentMessages(conversationId, undefined, {
+      systemPrompt: this.config.systemPrompt,
+      tools: tools ?? this.tools.toCoreTools(this.id),
+      messages: recalled ? [recalled] : [],
+    });
+
+    return recalled ? [recalled, ...history] : history;
+  }
+
+  /**
+   * Recall long-term context for the latest user message
+   *
+   * Records still present in the conversation history are left out.
+   */
+  protected async recallContext(conversationId: string): Promise<Message | undefined> {
+    if (!this.longTermMemory) return undefined;
+
+    const history = this.memory.getHistory(conversationId);
+    const query = [...history].reverse().find((msg) => msg.role === 'user')?.content;
+    if (!query) return undefined;
+
+    // Left out inside the search, so they do not take up places in the top k
+    const inHistory = new Set(history.map((msg) => `${msg.role}\n${msg.content}`));
+    try {
+      const results = await this.longTermMemory.recall(query, undefined, {
+        exclude: (record) =>
+          record.kind === 'message' &&
+          record.conversationId === conversationId &&
+          inHistory.has(`${record.role}\n${record.text}`),
+      });
+      if (results.length === 0) return undefined;
+
+      this.logger?.debug('Recalled long-term context', { conversationId, count: results.length });
+      const lines = results.map((result) =>
+        result.kind === 'fact' ? `- ${result.text}` : `- (${result.role}) ${result.text}`
+      );
+      return {
+        role: 'system',
+        content: `Relevant context from long-term memory:\n${lines.join('\n')}`,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger?.warn('Long-term recall failed', { conversationId, error });
+      return undefined;
+    }
+  }
+
   /**
    * Convert Message to ModelMessage format
+   *
+   * Tool calls and results are rebuilt as AI SDK tool parts. Providers
+   * reject a call without its result (or the reverse), so halves of a pair
+   * cut off by the context window are left out.
    */
   protected toCoreMessages(messages: Message[]): ModelMessage[] {
-    return messages.map((msg) => ({
-      role: msg.role as 'user' | 'assistant' | 'system',
-      content: msg.content,
-    }));
+    const callIds = new Set(
+      messages.flatMap((msg) => msg.toolCalls?.map((call) => call.toolCallId) ?? [])
+    );
+    const resultIds = new Set(
+      messages.filter((msg) => msg.role === 'tool').map((msg) => msg.toolCallId)
+    );
+    const coreMessages: ModelMessage[] = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'tool') {
+        if (!msg.toolCallId || !callIds.has(msg.toolCallId)) continue;
+        coreMessages.push({
+          role: 'tool',
+          content: [
+            {
+              type: 'tool-result',
+              toolCallId: msg.toolCallId,
+              toolName: msg.toolName ?? '',
+              output: toToolOutput(msg),
+            },
+          ],
+        });
+      } else if (msg.role === 'assistant' && msg.toolCalls?.length) {
+        const parts: Exclude<AssistantContent, string> = [];
+        if (msg.content) {
+          parts.push({ type: 'text', text: msg.content });
+        }
+        for (const call of msg.toolCalls) {
+          if (resultIds.has(call.toolCallId)) {
+            parts.push({
+              type: 'tool-call',
+              toolCallId: call.toolCallId,
+              toolName: call.toolName,
+              input: call.args,
+            });
+          }
+        }
+        if (parts.length > 0) {
+          coreMessages.push({ role: 'assistant', content: parts });
+        }
+      } else {
+        coreMessages.push({
+          role: msg.role as 'user' | 'assistant' | 'system',
+          content: msg.content,
+        });
+      }
+    }
+
+    return coreMessages;
+  }
+
+  /**
+   * Build the trace entry for a tool call, with its result once known
+   */
+  private traceToolCall(
+    call: { toolCallId: string; toolName: string; args: Record<string, unknown> },
+    step: number,
+    toolResult?: { result: unknown; error?: string },
+    runs?: Map<string, ToolRun>
+  ): ToolCallResult {
+    const run = runs?.get(call.toolCallId);
+    return {
+      toolName: call.toolName,
+      toolCallId: call.toolCallId,
+      args: call.args,
+      result: toolResult?.result,
+      error: toolResult?.error,
+      agentId: this.id,
+      step,
+      startedAt: run?.startedAt,
+      durationMs: run?.durationMs,
+      approval: run?.approval,
+    };
+  }
+
+  /**
+   * Resolve the tools for a run, timed and gated behind approval
+   */
+  private prepareTools(
+    tools: Record<string, Tool> | undefined,
+    runs: Map<string, ToolRun>,
+    budget?: Budget
+  ): Record<string, Tool> {
+    const resolved = tools ?? this.tools.toCoreTools(this.id);
+    // Timing wraps the tool alone, so time spent waiting for approval is not counted
+    const timed = timeTools(budget ? budgetTools(resolved, budget) : resolved, runs);
+    const approvals = this.approvals;
+
+    const gated: Record<string, Tool> = {};
+    for (const [name, tool] of Object.entries(timed)) {
+      const execute = tool.execute;
+      gated[name] = execute
+        ? {
+            ...tool,
+            execute: async (input, options) => {
+              if (!this.tools.requiresApproval(name, input)) {
+                return execute(input, options);
+              }
+
+              const decision = await abortable(
+                approvals.review({
+                  toolName: name,
+                  toolCallId: options.toolCallId,
+                  args: input as Record<string, unknown>,
+                  agentId: this.id,
+                }),
+                options.abortSignal
+              );
+              runs.set(options.toolCallId, { ...runs.get(options.toolCallId), approval: decision });
+
+              if (decision.action === 'reject') {
+                throw new ToolApprovalError(
+                  `Tool call rejected${decision.reason ? `: ${decision.reason}` : ''}`
+                );
+              }
+              if (decision.action === 'edit') {
+                const validation = this.tools.get(name)?.validateInput(decision.args);
+                if (validation && !validation.success) {
+                  throw new ToolApprovalError(
+                    `Edited arguments are invalid: ${validation.error.message}`
+                  );
+                }
+                return execute(validation ? validation.data : decision.args, options);
+              }
+              return execute(input, options);
+            },
+          }
+        : tool;
+    }
+
+    return gated;
+  }
+
+  /**
+   * Record a finished call in the usage ledger, one record per model step
+   */
+  private recordUsage(
+    result: Pick<GenerateResult, 'usage' | 'steps' | 'model'>,
+    scope: UsageScope = {}
+  ): void {
+    const model = result.model ?? `${this.config.model.provider}/${this.config.model.name}`;
+    const usages = result.steps?.length ? result.steps.map((step) => step.usage) : [result.usage];
+
+    for (const usage of usages) {
+      this.usage.record({ ...scope, agentId: this.id, model, usage });
+    }
+  }
+
+  /**
+   * Charge a finished model call to a budget, priced like the usage ledger does
+   */
+  private chargeBudget(
+    budget: Budget | undefined,
+    usage: GenerateResult['usage'],
+    model = `${this.config.model.provider}/${this.config.model.name}`
+  ): void {
+    chargeModelCall(budget, usage, model, this.usage);
+  }
+
+  /**
+   * The budget error that cut a finished run short, if any
+   *
+   * A tool loop the budget ended early finishes on a step that still called tools.
+   */
+  private budgetStop(
+    budget: Budget | undefined,
+    finishReason?: string
+  ): BudgetExceededError | undefined {
+    return (
+      budget?.exceeded() ??
+      (finishReason === 'tool-calls' ? budget?.exceeded({ modelCalls: 1 }) : undefined)
+    );
+  }
+
+  /**
+   * Error for a failed run; runs aborted at the budget's deadline report the budget
+   */
+  private toError(error: unknown, budget?: Budget): Error {
+    return budget?.exceeded() ?? (error instanceof Error ? error : new Error(String(error)));
+  }
+
+  /**
+   * Options for the model calls of a task: its signal, usage scope and budget
+   */
+  protected callOptions(taskId: string, context: AgentContext): AgentGenerateOptions {
+    return {
+      abortSignal: context.signal,
+      scope: {
+        taskId,
+        rootTaskId: context.rootTaskId ?? taskId,
+        conversationId: context.conversationId,
+      },
+      budget: context.activeBudget,
+    };
+  }
+
+  /**
+   * Attribution for model calls made on this agent's behalf, such as compactions
+   */
+  private attribution(calls: AgentGenerateOptions): CallAttribution {
+    return { ...calls.scope, agentId: this.id, budget: calls.budget };
+  }
+
+  /**
+   * Store the tool-call and tool-result messages of a successful result
+   *
+   * @param calls Options of the task's calls; compactions are recorded and charged like them
+   */
+  protected recordToolMessages(
+    conversationId: string,
+    result: AgentResult,
+    calls: AgentGenerateOptions = {}
+  ): void {
+    if (result.success && result.messages?.length) {
+      this.memory.addMessages(conversationId, result.messages, this.attribution(calls));
+    }
   }
 
   /**
    * Add a message to memory
+   *
+   * @param calls Options of the task's calls; compactions are recorded and charged like them
    */
-  protected addToMemory(conversationId: string, role: Message['role'], content: string): void {
-    this.memory.addMessage(conversationId, {
+  protected addToMemory(
+    conversationId: string,
+    role: Message['role'],
+    content: string,
+    calls: AgentGenerateOptions = {}
+  ): void {
+    const message: Message = {
       role,
       content,
       timestamp: new Date(),
+    };
+    this.memory.addMessage(conversationId, message, this.attribution(calls));
+
+    // Indexing embeds the message, so it runs in the background
+    this.longTermMemory?.indexMessage(conversationId, message).catch((error: unknown) => {
+      this.logger?.warn('Failed to index message in long-term memory', { conversationId, error });
     });
   }
 
@@ -0,0 +1,223 @@
+import { z } from 'zod';
+import type { ModelAdapter } from '../core/model/ModelAdapter';
+import type { UsageLedger } from '../core/usage/UsageLedger';
+import { attributeToTask, generateMetered, type CallAttribution } from '../core/usage/metered';
+import type { Logger } from '../utils/logger';
+import { extractJson } from '../utils/json';
+import type { SelectionStrategy } from './AgentCoordinator';
+import type { SubAgent } from './SubAgent';
+import type { AgentContext } from './types';
+
+/**
+ * Schema for the routing choice returned by the model
+ */
+export const routingDecisionSchema = z.object({
+  /** Chosen sub-agent, or null when none fits */
+  subAgentId: z.string().nullable(),
+  confidence: z.number().min(0).max(1),
+  reason: z.string().optional(),
+});
+
+/**
+ * Routing choice made by the model
+ */
+export type RoutingDecision = z.infer<typeof routingDecisionSchema>;
+
+/**
+ * LLM router options
+ */
+export interface LLMRouterOptions {
+  /** Decisions below this confidence fall back to keyword matching (default 0.6) */
+  confidenceThreshold?: number;
+  /** Number of routing decisions kept (default 100) */
+  cacheSize?: number;
+  /** System prompt override for routing */
+  systemPrompt?: string;
+}
+
+/**
+ * LLM router dependencies
+ */
+export interface LLMRouterDependencies {
+  /** Routing model; a small, fast model is enough */
+  model: ModelAdapter;
+  /** Strategy used when the model is unsure, fails, or returns nonsense */
+  fallback: SelectionStrategy;
+  /** Describe the candidates for the prompt, one line per agent with its ID */
+  describe: (candidates: SubAgent[]) => string;
+  logger?: Logger;
+  /** Ledger routing calls are recorded in */
+  usage?: UsageLedger;
+  /** Agent routing calls are recorded for, usually the main agent */
+  agentId?: string;
+}
+
+const DEFAULT_ROUTER_PROMPT = `You route tasks to specialized sub-agents. Pick the one sub-agent best suited to the user's task, judging by what the task means rather than the exact words used.
+If no sub-agent fits, choose null so the main agent handles the task itself.
+
+Respond with JSON only, no prose, in this shape:
+{"subAgentId":"agent-id or null","confidence":0.0-1.0,"reason":"..."}`;
+
+/**
+ * Selection strategy that asks a model which sub-agent should take a task
+ *
+ * Keyword matching misses paraphrases ("look over my TS" is a code review);
+ * a routing model does not. Confident choices win; otherwise the fallback
+ * strategy decides. Decisions are cached per task and candidate set.
+ */
+export class LLMRouterStrategy implements SelectionStrategy {
+  private model: ModelAdapter;
+  private fallback: SelectionStrategy;
+  private describe: (candidates: SubAgent[]) => string;
+  private logger?: Logger;
+  private usage?: UsageLedger;
+  private agentId?: string;
+  private confidenceThreshold: number;
+  private cacheSize: number;
+  private systemPrompt: string;
+  private cache: Map<string, RoutingDecision> = new Map();
+
+  constructor(dependencies: LLMRouterDependencies, options: LLMRouterOptions = {}) {
+    this.model = dependencies.model;
+    this.fallback = dependencies.fallback;
+    this.describe = dependencies.describe;
+    this.logger = dependencies.logger;
+    this.usage = dependencies.usage;
+    this.agentId = dependencies.agentId;
+    this.confidenceThreshold = options.confidenceThreshold ?? 0.6;
+    this.cacheSize = options.cacheSize ?? 100;
+    this.systemPrompt = options.systemPrompt ?? DEFAULT_ROUTER_PROMPT;
+  }
+
+  async select(
+    task: string,
+    candidates: SubAgent[],
+    context?: AgentContext
+  ): Promise<SubAgent | null> {
+    return (await this.rank(task, candidates, context))[0] ?? null;
+  }
+
+  /**
+   * Rank the routed agent first, followed by the fallback strategy's ranking
+   */
+  async rank(task: string, candidates: SubAgent[], context?: AgentContext): Promise<SubAgent[]> {
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const keywordRanked = await this.rankByFallback(task, candidates, context);
+    const decision = await this.route(
+      task,
+      candidates,
+      context?.signal,
+      this.agentId === undefined ? undefined : attributeToTask(this.agentId, context)
+    );
+    if (!decision || decision.confidence < this.confidenceThreshold) {
+      this.logger?.debug('Routing model unsure, using keyword matching', {
+        task,
+        confidence: decision?.confidence,
+      });
+      return keywordRanked;
+    }
+
+    // A confident "none of them" means the main agent handles the task
+    if (decision.subAgentId === null) {
+      return [];
+    }
+
+    const chosen = candidates.find((agent) => agent.id === decision.subAgentId);
+    if (!chosen) {
+      return keywordRanked;
+    }
+    return [chosen, ...keywordRanked.filter((agent) => agent !== chosen)];
+  }
+
+  /**
+   * Forget cached routing decisions
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Get the routing decision for a task, from the cache or the model
+   *
+   * Returns undefined when the model fails or its answer is unusable.
+   *
+   * @param attribution Who the routing call is recorded for in the usage ledger
+   */
+  async route(
+    task: string,
+    candidates: SubAgent[],
+    signal?: AbortSignal,
+    attribution?: CallAttribution
+  ): Promise<RoutingDecision | undefined> {
+    const key = `${candidates.map((agent) => agent.id).join(',')}\n${task.trim()}`;
+    const cached = this.cache.get(key);
+    if (cached) {
+      // Refresh its position so the least recently used decision is evicted first
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      return cached;
+    }
+
+    let text: string;
+    try {
+      const result = await generateMetered(
+        this.model,
+        {
+          systemPrompt: this.systemPrompt,
+          messages: [
+            {
+              role: 'user',
+              content: `Available sub-agents:\n${this.describe(candidates)}\n\nTask: ${task}`,
+            },
+          ],
+          abortSignal: signal,
+        },
+        this.usage,
+        attribution
+      );
+      text = result.text;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      this.logger?.warn('Routing model failed, using keyword matching', { error });
+      return undefined;
+    }
+
+    const parsed = routingDecisionSchema.safeParse(extractJson(text));
+    if (!parsed.success) {
+      this.logger?.warn('Routing model returned an invalid decision', { text });
+      return undefined;
+    }
+
+    const decision = parsed.data;
+    if (decision.subAgentId !== null && !candidates.some((a) => a.id === decision.subAgentId)) {
+      this.logger?.warn('Routing model chose an unknown sub-agent', {
+        subAgentId: decision.subAgentId,
+      });
+      return undefined;
+    }
+
+    this.logger?.debug('Routed task', { task, ...decision });
+    this.cache.set(key, decision);
+    if (this.cache.size > this.cacheSize) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    return decision;
+  }
+
+  private async rankByFallback(
+    task: string,
+    candidates: SubAgent[],
+    context?: AgentContext
+  ): Promise<SubAgent[]> {
+    if (this.fallback.rank) {
+      return this.fallback.rank(task, candidates, context);
+    }
+    const selected = await this.fallback.select(task, candidates, context);
+    return selected ? [selected] : [];
+  }
+}
@@ -1,8 +1,27 @@
-import { BaseAgent, type AgentDependencies } from './BaseAgent';
+import type { Tool } from 'ai';
+import type { ZodType } from 'zod';
+import { BaseAgent, type AgentDependencies, type AgentGenerateOptions } from './BaseAgent';
 import { AgentCoordinator, type CoordinatorDependencies } from './AgentCoordinator';
 import { SubAgent, ToolSubAgent } from './SubAgent';
-import type { AgentConfig, AgentContext, AgentResult, SubAgentConfig } from './types';
+import { Planner } from './Planner';
+import { createAggregator } from './ResultAggregator';
+import { SubAgentTool } from './SubAgentTool';
+import type {
+  AgentConfig,
+  AgentContext,
+  AgentResult,
+  AgentStreamChunk,
+  ExecuteOptions,
+  Plan,
+  PlanStepResult,
+  SubAgentConfig,
+} from './types';
+import type { ModelAdapter } from '../core/model/ModelAdapter';
+import type { Embedder } from '../core/memory/Embedder';
+import { Budget } from '../core/usage/Budget';
+import { attributeToTask } from '../core/usage/metered';
 import type { TaskQueue } from '../utils/task-queue';
+import { TaskCancelledError, createLinkedAbortController } from '../utils/abort';
 import type { Config } from '../config/schema';
 
 /**
@@ -10,6 +29,10 @@ import type { Config } from '../config/schema';
  */
 export interface MainAgentDependencies extends AgentDependencies {
   taskQueue: TaskQueue;
+  /** Model for the llm-router selection strategy (defaults to the agent's model) */
+  routerModel?: ModelAdapter;
+  /** Embedder for the semantic-match selection strategy */
+  embedder?: Embedder;
 }
 
 /**
@@ -20,6 +43,9 @@ export interface MainAgentDependencies extends AgentDependencies {
  */
 export class MainAgent extends BaseAgent {
   private coordinator: AgentCoordinator;
+  private planner: Planner;
+  private runningTasks = new Map<string, AbortController>();
+  private conversationBudgets = new Map<string, Budget>();
 
   constructor(dependencies: MainAgentDependencies, config: AgentConfig) {
     super(dependencies, config);
@@ -29,13 +55,31 @@ export class MainAgent extends BaseAgent {
       taskQueue: dependencies.taskQueue,
       eventBus: dependencies.eventBus,
       logger: dependencies.logger,
+      routerModel: dependencies.routerModel ?? dependencies.model,
+      embedder: dependencies.embedder,
+      usage: this.usage,
+      agentId: this.id,
     };
 
     this.coordinator = new AgentCoordinator(coordinatorDeps, {
       maxConcurrent: config.maxConcurrent ?? 3,
       timeout: config.timeout ?? 30000,
       retryAttempts: config.retryAttempts ?? 2,
+      retry: config.retry,
+      maxFallbacks: config.maxFallbacks,
+      selectionStrategy: config.selectionStrategy,
+      router: config.router,
+      semantic: config.semantic,
+    });
+
+    this.planner = new Planner({
+      model: dependencies.model,
+      logger: dependencies.logger,
+      usage: this.usage,
     });
+
+    // A cleared or deleted conversation starts over with a fresh budget
+    this.memory.onReset((conversationId) => this.conversationBudgets.delete(conversationId));
   }
 
   /**
@@ -53,6 +97,9 @@ export class MainAgent extends BaseAgent {
       model: this.model,
       tools: this.tools,
       memory: this.memory,
+      longTermMemory: this.longTermMemory,
+      approvals: this.approvals,
+      usage: this.usage,
       eventBus: this.eventBus,
       logger: this.logger,
     };
@@ -69,12 +116,59 @@ export class MainAgent extends BaseAgent {
     return this.coordinator;
   }
 
+  /**
+   * Propose a plan for a task without executing it
+   */
+  async plan(task: string, signal?: AbortSignal): Promise<Plan> {
+    return this.planner.createPlan(task, this.coordinator.getAllSubAgents(), signal, {
+      agentId: this.id,
+    });
+  }
+
+  /**
+   * Cancel a running task
+   *
+   * Aborts its model calls, tools and sub-agents; the task then resolves
+   * with a failed result.
+   *
+   * @returns false if no task with this ID is running
+   */
+  cancel(taskId: string, reason?: string): boolean {
+    const controller = this.runningTasks.get(taskId);
+    if (!controller) {
+      return false;
+    }
+
+    this.logger?.info('Cancelling task', { taskId, reason });
+    controller.abort(new TaskCancelledError(reason ?? `Task ${taskId} cancelled`));
+    return true;
+  }
+
+  /**
+   * IDs of the tasks currently running
+   */
+  getRunningTasks(): string[] {
+    return Array.from(this.runningTasks.keys());
+  }
+
   /**
    * Execute a task
+   *
+   * With an output schema the answer is also returned as a validated
+   * result.object, whichever mode produced it.
    */
-  async execute(task: string, context?: AgentContext): Promise<AgentResult> {
-    const ctx = this.createContext(context);
-    const taskId = this.generateTaskId();
+  async execute<T = unknown>(
+    task: string,
+    context?: AgentContext,
+    options: ExecuteOptions<T> = {}
+  ): Promise<AgentResult<T>> {
+    const taskId = options.taskId ?? this.generateTaskId();
+    const { controller, dispose } = createLinkedAbortController(context?.signal);
+    const ctx = this.createTaskContext(taskId, controller.signal, context);
+    const stopDeadline = ctx.activeBudget?.abortAtDeadline(controller);
+    const calls = this.callOptions(taskId, ctx);
+    const mode = options.mode ?? this.config.mode ?? 'delegate';
+    this.runningTasks.set(taskId, controller);
 
     this.emitTaskStart(taskId, task);
     this.logger?.info('MainAgent executing task', { taskId, task });
@@ -82,7 +176,7 @@ export class MainAgent extends BaseAgent {
     try {
       // Check depth limit
       if (this.isMaxDepthExceeded(ctx)) {
-        const result: AgentResult = {
+        const result: AgentResult<T> = {
           success: false,
           content: 'Maximum recursion depth exceeded',
           error: new Error('Max depth exceeded'),
@@ -92,58 +186,445 @@ export class MainAgent extends BaseAgent {
       }
 
       // Add task to memory
-      this.addToMemory(ctx.conversationId, 'user', task);
-
-      // Determine if task should be delegated
-      const subAgent = this.coordinator.selectSubAgent(task, ctx);
+      this.addToMemory(ctx.conversationId, 'user', task, calls);
 
       let result: AgentResult;
-      if (subAgent) {
-        // Delegate to sub-agent
-        this.logger?.debug('Delegating to sub-agent', {
-          subAgentId: subAgent.id,
-          subAgentName: subAgent.name,
-        });
-        result = await this.coordinator.executeTask(task, {
-          ...ctx,
-          parentTaskId: taskId,
-        });
+      if (mode === 'plan') {
+        // Decompose into steps and run them in dependency order
+        this.logger?.debug('Planning task');
+        result = await this.executePlanned(task, ctx, taskId);
+      } else if (mode === 'agents-as-tools') {
+        // The model decides which sub-agents to call, if any
+        this.logger?.debug('Handling task with sub-agents as tools');
+        result = await this.handleWithDelegates({ ...ctx, parentTaskId: taskId }, calls);
+        this.recordToolMessages(ctx.conversationId, result, calls);
       } else {
-        // Handle directly
-        this.logger?.debug('Handling task directly');
-        result = await this.handleDirectly(task, ctx);
+        // Determine if task should be delegated; the ranking is reused for fallbacks
+        const candidates = await this.rankForTask(task, ctx, mode, options);
+
+        if (candidates.length > 0 && mode === 'consensus') {
+          // Ask several sub-agents and combine their answers
+          this.logger?.debug('Running consensus across sub-agents');
+          result = await this.executeConsensus(
+            task,
+            { ...ctx, parentTaskId: taskId },
+            options,
+            candidates
+          );
+        } else if (candidates.length > 0) {
+          // Delegate to sub-agent
+          this.logger?.debug('Delegating to sub-agent', {
+            subAgentId: candidates[0].id,
+            subAgentName: candidates[0].name,
+          });
+          result = await this.coordinator.executeTask(
+            task,
+            { ...ctx, parentTaskId: taskId },
+            { output: options.output },
+            candidates
+          );
+        } else {
+          // Handle directly
+          this.logger?.debug('Handling task directly');
+          result = await this.handleDirectly(ctx, calls, options.output);
+          // Delegated sub-agents record their own tool messages
+          this.recordToolMessages(ctx.conversationId, result, calls);
+        }
+      }
+
+      // Plans, consensus and delegation to custom agents answer in text; restate it
+      if (options.output) {
+        const request = [{ role: 'user' as const, content: task }];
+        result = await this.structureResult(request, result, options.output, calls);
       }
 
       // Add response to memory
       if (result.success) {
-        this.addToMemory(ctx.conversationId, 'assistant', result.content);
+        this.addToMemory(ctx.conversationId, 'assistant', result.content, calls);
       }
 
+      result = this.withUsage(result, taskId, ctx);
       this.emitTaskComplete(taskId, result);
-      return result;
+      return result as AgentResult<T>;
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.emitTaskError(taskId, err);
       this.logger?.error('MainAgent failed', { taskId, error });
 
-      return {
-        success: false,
-        content: '',
-        error: err,
-      };
+      return this.withUsage({ success: false, content: '', error: err }, taskId, ctx);
+    } finally {
+      this.runningTasks.delete(taskId);
+      stopDeadline?.();
+      dispose();
+    }
+  }
+
+  /**
+   * Execute a task, streaming text, tool activity and delegation as it happens
+   *
+   * The final chunk is always of type 'result'.
+   */
+  async *executeStream(
+    task: string,
+    context?: AgentContext,
+    options: ExecuteOptions = {}
+  ): AsyncGenerator<AgentStreamChunk> {
+    const taskId = options.taskId ?? this.generateTaskId();
+    const { controller, dispose } = createLinkedAbortController(context?.signal);
+    const ctx = this.createTaskContext(taskId, controller.signal, context);
+    const stopDeadline = ctx.activeBudget?.abortAtDeadline(controller);
+    const calls = this.callOptions(taskId, ctx);
+    const mode = options.mode ?? this.config.mode ?? 'delegate';
+    this.runningTasks.set(taskId, controller);
+
+    this.emitTaskStart(taskId, task);
+    this.logger?.info('MainAgent streaming task', { taskId, task });
+
+    let result: AgentResult;
+    try {
+      if (this.isMaxDepthExceeded(ctx)) {
+        result = {
+          success: false,
+          content: 'Maximum recursion depth exceeded',
+          error: new Error('Max depth exceeded'),
+        };
+      } else {
+        this.addToMemory(ctx.conversationId, 'user', task, calls);
+
+        if (mode === 'plan') {
+          // Plan steps run in parallel, so only the merged result is streamed
+          result = await this.executePlanned(task, ctx, taskId);
+        } else if (mode === 'agents-as-tools') {
+          const tools = this.createDelegateTools({ ...ctx, parentTaskId: taskId });
+          const history = await this.getContextHistory(ctx.conversationId, tools);
+          result = yield* this.streamWithTools(this.toCoreMessages(history), {
+            tools,
+            ...calls,
+          });
+          this.recordToolMessages(ctx.conversationId, result, calls);
+        } else {
+          const candidates = await this.rankForTask(task, ctx, mode, options);
+
+          if (candidates.length > 0 && mode === 'consensus') {
+            // Answers are combined once all are in, so only the merged result is streamed
+            result = await this.executeConsensus(
+              task,
+              { ...ctx, parentTaskId: taskId },
+              options,
+              candidates
+            );
+          } else if (candidates.length > 0) {
+            // Falls back to the next candidate only while nothing has been streamed
+            this.logger?.debug('Delegating to sub-agent (streaming)', {
+              subAgentId: candidates[0].id,
+              subAgentName: candidates[0].name,
+            });
+            result = yield* this.coordinator.executeStreamTask(
+              task,
+              { ...ctx, parentTaskId: taskId },
+              candidates
+            );
+          } else {
+            this.logger?.debug('Handling task directly (streaming)');
+            const history = await this.getContextHistory(ctx.conversationId);
+            result = yield* this.streamWithTools(this.toCoreMessages(history), {
+              ...calls,
+            });
+            this.recordToolMessages(ctx.conversationId, result, calls);
+          }
+        }
+
+        // Streamed text is restated as an object once complete
+        if (options.output) {
+          const request = [{ role: 'user' as const, content: task }];
+          result = await this.structureResult(request, result, options.output, calls);
+        }
+
+        if (result.success) {
+          this.addToMemory(ctx.conversationId, 'assistant', result.content, calls);
+        }
+      }
+
+      result = this.withUsage(result, taskId, ctx);
+      this.emitTaskComplete(taskId, result);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.emitTaskError(taskId, err);
+      this.logger?.error('MainAgent streaming failed', { taskId, error });
+
+      result = this.withUsage({ success: false, content: '', error: err }, taskId, ctx);
+    } finally {
+      this.runningTasks.delete(taskId);
+      stopDeadline?.();
+      dispose();
+    }
+
+    yield { type: 'result', agentId: this.id, result };
+  }
+
+  /**
+   * Build the context for a task
+   *
+   * A top-level task gets a budget from the configured limits and any
+   * overrides in the context, charged to its conversation's budget too.
+   */
+  private createTaskContext(
+    taskId: string,
+    signal: AbortSignal,
+    context?: AgentContext
+  ): AgentContext {
+    const ctx: AgentContext = {
+      ...this.createContext(context),
+      signal,
+      rootTaskId: context?.rootTaskId ?? taskId,
+    };
+    if (ctx.activeBudget) {
+      return ctx;
+    }
+
+    const limits = { ...this.config.budget?.task, ...ctx.budget };
+    // Without a context the conversation is new and ends with the task
+    const conversation = context && this.getConversationBudget(ctx.conversationId);
+    if (!conversation && Object.keys(limits).length === 0) {
+      return ctx;
+    }
+    return { ...ctx, activeBudget: new Budget({ name: 'task', limits, parent: conversation }) };
+  }
+
+  /**
+   * Get the budget shared by every task in a conversation, if one is configured
+   */
+  private getConversationBudget(conversationId: string): Budget | undefined {
+    const limits = this.config.budget?.conversation;
+    if (!limits) {
+      return undefined;
+    }
+
+    let budget = this.conversationBudgets.get(conversationId);
+    if (!budget) {
+      budget = new Budget({ name: 'conversation', limits });
+      this.conversationBudgets.set(conversationId, budget);
+    }
+    return budget;
+  }
+
+  /**
+   * Attach the usage of the whole task tree to a top-level result
+   */
+  private withUsage<R extends AgentResult>(result: R, taskId: string, context: AgentContext): R {
+    if (context.rootTaskId !== taskId) {
+      return result;
     }
+    return { ...result, usage: this.usage.getTotals({ rootTaskId: taskId }) };
   }
 
   /**
    * Handle task directly without delegation
    */
-  private async handleDirectly(_task: string, context: AgentContext): Promise<AgentResult> {
+  private async handleDirectly(
+    context: AgentContext,
+    calls: AgentGenerateOptions,
+    output?: ZodType
+  ): Promise<AgentResult> {
     // Get conversation history (task is already in history from execute())
-    const history = this.memory.getRecentMessages(context.conversationId);
+    const history = await this.getContextHistory(context.conversationId);
     const messages = this.toCoreMessages(history);
 
-    // Generate response with tools
-    return this.generateWithTools(messages);
+    // Generate response with tools, structured when a schema is given
+    return output
+      ? this.generateOutput(messages, output, calls)
+      : this.generateWithTools(messages, calls);
+  }
+
+  /**
+   * Handle a task directly, with the sub-agents available as tools
+   */
+  private async handleWithDelegates(
+    context: AgentContext,
+    calls: AgentGenerateOptions
+  ): Promise<AgentResult> {
+    const tools = this.createDelegateTools(context);
+    const history = await this.getContextHistory(context.conversationId, tools);
+
+    return this.generateWithTools(this.toCoreMessages(history), { ...calls, tools });
+  }
+
+  /**
+   * Build this agent's tools plus a delegate_to_<id> tool per sub-agent
+   *
+   * A delegate whose name is already taken, by a registered tool or by
+   * another sub-agent whose ID sanitizes the same way, is left out with a
+   * warning; the tool registered first keeps the name.
+   */
+  private createDelegateTools(context: AgentContext): Record<string, Tool> {
+    const tools = this.tools.toCoreTools(this.id);
+    const delegates = new Map<string, string>();
+
+    for (const agent of this.coordinator.getAllSubAgents()) {
+      const delegate = new SubAgentTool({ agent, coordinator: this.coordinator, context });
+      if (tools[delegate.name]) {
+        const holder = delegates.get(delegate.name);
+        this.logger?.warn(
+          `Tool name ${delegate.name} is taken, not offering sub-agent ${agent.id}`,
+          {
+            subAgentId: agent.id,
+            takenBy: holder ? `sub-agent ${holder}` : 'registered tool',
+          }
+        );
+        continue;
+      }
+      delegates.set(delegate.name, agent.id);
+      tools[delegate.name] = delegate.toCoreTool({
+        agentId: this.id,
+        conversationId: context.conversationId,
+      });
+    }
+
+    return tools;
+  }
+
+  /**
+   * Plan the task, run the steps in dependency order and merge the results
+   */
+  private async executePlanned(
+    task: string,
+    context: AgentContext,
+    taskId: string
+  ): Promise<AgentResult> {
+    const plan = await this.planner.createPlan(
+      task,
+      this.coordinator.getAllSubAgents(),
+      context.signal,
+      attributeToTask(this.id, { ...context, parentTaskId: taskId })
+    );
+    this.eventBus.emit('plan:created', { taskId, plan, agentId: this.id });
+    this.logger?.debug('Executing plan', { taskId, steps: plan.steps.length });
+
+    const stepResults = await this.coordinator.executePlan(
+      plan,
+      async (step, dependencies, signal) => {
+        this.eventBus.emit('plan:step:start', { taskId, step, agentId: this.id });
+
+        const stepTask = this.planner.buildStepTask(plan, step, dependencies);
+        const stepContext: AgentContext = {
+          ...context,
+          // Isolate each step's history so parallel steps don't interleave
+          conversationId: `${context.conversationId}:${step.id}`,
+          parentTaskId: taskId,
+          signal,
+        };
+
+        const result = step.subAgentId
+          ? await this.coordinator.executeWithAgent(step.subAgentId, stepTask, stepContext)
+          : await this.generateWithTools(
+              [{ role: 'user', content: stepTask }],
+              this.callOptions(taskId, stepContext)
+            );
+
+        this.eventBus.emit('plan:step:complete', {
+          taskId,
+          stepResult: { stepId: step.id, subAgentId: step.subAgentId, result },
+          agentId: this.id,
+        });
+        return result;
+      },
+      { signal: context.signal, budget: context.activeBudget }
+    );
+
+    return this.mergePlanResults(plan, stepResults);
+  }
+
+  /**
+   * Send the task to several sub-agents and aggregate their answers
+   */
+  private async executeConsensus(
+    task: string,
+    context: AgentContext,
+    options: ExecuteOptions,
+    candidates: SubAgent[]
+  ): Promise<AgentResult> {
+    const { agents, aggregator } = this.consensusSettings(options);
+    const resolved =
+      typeof aggregator === 'string'
+        ? createAggregator(aggregator, {
+            model: this.model,
+            logger: this.logger,
+            usage: this.usage,
+          })
+        : aggregator;
+
+    return this.coordinator.executeConsensus(
+      task,
+      resolved,
+      agents,
+      context,
+      { output: options.output },
+      candidates
+    );
+  }
+
+  /**
+   * Consensus settings for a task: the configured ones, overridden by the task's
+   */
+  private consensusSettings(options: ExecuteOptions) {
+    const { agents = 3, aggregator = 'majority-vote' } = {
+      ...this.config.consensus,
+      ...options.consensus,
+    };
+    return { agents, aggregator };
+  }
+
+  /**
+   * Rank the sub-agents for a delegated or consensus task, once
+   *
+   * Consensus needs as many agents as it asks; delegation needs the first
+   * and its fallbacks.
+   */
+  private rankForTask(
+    task: string,
+    context: AgentContext,
+    mode: ExecuteOptions['mode'],
+    options: ExecuteOptions
+  ): Promise<SubAgent[]> {
+    return this.coordinator.rankSubAgents(
+      task,
+      context,
+      mode === 'consensus' ? this.consensusSettings(options).agents : undefined
+    );
+  }
+
+  /**
+   * Merge step results into a single result
+   *
+   * The content is taken from the final steps (those nothing else depends on).
+   */
+  private mergePlanResults(plan: Plan, stepResults: PlanStepResult[]): AgentResult {
+    const dependedOn = new Set(plan.steps.flatMap((step) => step.dependsOn));
+    const finalResults = stepResults.filter((r) => !dependedOn.has(r.stepId));
+    const failed = stepResults.find((r) => !r.result.success);
+
+    const content =
+      finalResults.length === 1
+        ? finalResults[0].result.content
+        : finalResults.map((r) => `[${r.stepId}]\n${r.result.content}`).join('\n\n');
+
+    return {
+      success: !failed,
+      content,
+      toolCalls: stepResults.flatMap((r) => r.result.toolCalls ?? []),
+      error: failed?.result.error,
+      metadata: {
+        mode: 'plan',
+        plan,
+        steps: stepResults.map((r) => ({
+          stepId: r.stepId,
+          subAgentId: r.subAgentId,
+          success: r.result.success,
+          content: r.result.content,
+          error: r.result.error?.message,
+        })),
+      },
+    };
   }
 
   /**
@@ -168,6 +649,23 @@ export class MainAgent extends BaseAgent {
    * Chat-style interaction
    */
   async chat(message: string, conversationId?: string): Promise<string> {
+    const result = await this.execute(message, this.createChatContext(conversationId));
+    return result.content;
+  }
+
+  /**
+   * Chat-style interaction with streaming output
+   */
+  async *chatStream(message: string, conversationId?: string): AsyncGenerator<AgentStreamChunk> {
+    yield* this.executeStream(message, this.createChatContext(conversationId));
+  }
+
+  /**
+   * Build the context for a chat turn, loading existing history
+   *
+   * Pass it to execute or executeStream to run a chat turn with task options.
+   */
+  createChatContext(conversationId?: string): AgentContext {
     const context: AgentContext = {
       conversationId: conversationId ?? `chat-${Date.now()}`,
       history: [],
@@ -182,8 +680,7 @@ export class MainAgent extends BaseAgent {
       context.history = existingHistory;
     }
 
-    const result = await this.execute(message, context);
-    return result.content;
+    return context;
   }
 
   /**
@@ -196,6 +693,7 @@ export class MainAgent extends BaseAgent {
       coordinator: this.coordinator.getStats(),
       memory: this.memory.getStats(),
       tools: this.tools.getStats(),
+      usage: { ...this.usage.getTotals(), byModel: this.usage.getTotalsByModel() },
     };
   }
 }
@@ -215,7 +713,15 @@ export async function createMainAgent(
     maxConcurrent: config.coordination.maxConcurrent,
     timeout: config.coordination.timeout,
     retryAttempts: config.coordination.retryAttempts,
+    retry: config.coordination.retry,
+    maxFallbacks: config.coordination.maxFallbacks,
+    selectionStrategy: config.coordination.selectionStrategy,
+    router: config.coordination.router,
+    semantic: config.coordination.semantic,
     maxDepth: config.maxDepth,
+    mode: config.mode,
+    consensus: config.consensus,
+    budget: config.budget,
   };
 
   const agent = new MainAgent(dependencies, agentConfig);
@@ -231,6 +737,8 @@ export async function createMainAgent(
         specialization: subConfig.specialization,
         capabilities: subConfig.capabilities,
         priority: subConfig.priority,
+        retry: subConfig.retry,
+        examples: subConfig.examples,
       });
     }
   }
@@ -0,0 +1,216 @@
+import { z } from 'zod';
+import type { ModelAdapter } from '../core/model/ModelAdapter';
+import type { UsageLedger } from '../core/usage/UsageLedger';
+import { generateMetered, type CallAttribution } from '../core/usage/metered';
+import type { Logger } from '../utils/logger';
+import { extractJson } from '../utils/json';
+import type { SubAgent } from './SubAgent';
+import type { Plan, PlanStep, PlanStepResult } from './types';
+
+/**
+ * Schema for the plan returned by the model
+ */
+export const planSchema = z.object({
+  steps: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        description: z.string().min(1),
+        subAgentId: z.string().nullish(),
+        dependsOn: z.array(z.string()).default([]),
+      })
+    )
+    .min(1),
+});
+
+/**
+ * Error thrown when a plan is malformed (unknown dependencies, cycles, duplicates)
+ */
+export class InvalidPlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidPlanError';
+  }
+}
+
+/**
+ * Planner options
+ */
+export interface PlannerOptions {
+  /** Maximum number of steps a plan may contain */
+  maxSteps?: number;
+  /** System prompt override for plan generation */
+  systemPrompt?: string;
+}
+
+/**
+ * Planner dependencies
+ */
+export interface PlannerDependencies {
+  model: ModelAdapter;
+  logger?: Logger;
+  /** Ledger planning calls are recorded in */
+  usage?: UsageLedger;
+}
+
+const DEFAULT_PLANNER_PROMPT = `You are a planning assistant. Break the user's task into a small number of concrete steps.
+Each step may be assigned to one of the available sub-agents by its id, or left unassigned to be handled by the main agent.
+Steps may depend on the results of earlier steps. Independent steps should not depend on each other so they can run in parallel.
+
+Respond with JSON only, no prose, in this shape:
+{"steps":[{"id":"step-1","description":"...","subAgentId":"agent-id or null","dependsOn":[]}]}`;
+
+/**
+ * Planner that decomposes a task into a dependency graph of steps
+ *
+ * The model proposes the plan; the planner validates it against the
+ * registered sub-agents and checks the dependency graph is acyclic.
+ */
+export class Planner {
+  private model: ModelAdapter;
+  private logger?: Logger;
+  private usage?: UsageLedger;
+  private maxSteps: number;
+  private systemPrompt: string;
+
+  constructor(dependencies: PlannerDependencies, options: PlannerOptions = {}) {
+    this.model = dependencies.model;
+    this.logger = dependencies.logger;
+    this.usage = dependencies.usage;
+    this.maxSteps = options.maxSteps ?? 8;
+    this.systemPrompt = options.systemPrompt ?? DEFAULT_PLANNER_PROMPT;
+  }
+
+  /**
+   * Ask the model for a plan and validate it
+   *
+   * @param attribution Who the planning call is recorded for in the usage ledger
+   */
+  async createPlan(
+    task: string,
+    subAgents: SubAgent[],
+    signal?: AbortSignal,
+    attribution?: CallAttribution
+  ): Promise<Plan> {
+    const agentList =
+      subAgents.length > 0
+        ? subAgents.map((agent) => `- ${agent.id}: ${agent.getDescription()}`).join('\n')
+        : '(none)';
+
+    const result = await generateMetered(
+      this.model,
+      {
+        systemPrompt: this.systemPrompt,
+        messages: [
+          {
+            role: 'user',
+            content: `Available sub-agents:\n${agentList}\n\nMaximum steps: ${this.maxSteps}\n\nTask: ${task}`,
+          },
+        ],
+        abortSignal: signal,
+      },
+      this.usage,
+      attribution
+    );
+
+    const parsed = planSchema.safeParse(extractJson(result.text));
+    if (!parsed.success) {
+      throw new InvalidPlanError(`Model returned an invalid plan: ${parsed.error.message}`);
+    }
+
+    const knownAgents = new Set(subAgents.map((agent) => agent.id));
+    const steps: PlanStep[] = parsed.data.steps.map((step) => {
+      let subAgentId = step.subAgentId ?? undefined;
+      if (subAgentId && !knownAgents.has(subAgentId)) {
+        this.logger?.warn('Plan step references unknown sub-agent, handling directly', {
+          stepId: step.id,
+          subAgentId,
+        });
+        subAgentId = undefined;
+      }
+      return {
+        id: step.id,
+        description: step.description,
+        subAgentId,
+        dependsOn: step.dependsOn,
+      };
+    });
+
+    const plan: Plan = { task, steps };
+    this.validatePlan(plan);
+    return plan;
+  }
+
+  /**
+   * Validate step count, step IDs and dependency graph
+   */
+  validatePlan(plan: Plan): void {
+    if (plan.steps.length > this.maxSteps) {
+      throw new InvalidPlanError(`Plan has ${plan.steps.length} steps (max: ${this.maxSteps})`);
+    }
+
+    const ids = new Set<string>();
+    for (const step of plan.steps) {
+      if (ids.has(step.id)) {
+        throw new InvalidPlanError(`Duplicate step id: ${step.id}`);
+      }
+      ids.add(step.id);
+    }
+
+    for (const step of plan.steps) {
+      for (const dep of step.dependsOn) {
+        if (!ids.has(dep)) {
+          throw new InvalidPlanError(`Step ${step.id} depends on unknown step ${dep}`);
+        }
+      }
+    }
+
+    // Throws on cycles
+    this.getExecutionOrder(plan);
+  }
+
+  /**
+   * Group steps into levels; every step only depends on steps in earlier levels
+   */
+  getExecutionOrder(plan: Plan): PlanStep[][] {
+    const remaining = new Map(plan.steps.map((step) => [step.id, step]));
+    const done = new Set<string>();
+    const levels: PlanStep[][] = [];
+
+    while (remaining.size > 0) {
+      const level = Array.from(remaining.values()).filter((step) =>
+        step.dependsOn.every((dep) => done.has(dep))
+      );
+
+      if (level.length === 0) {
+        throw new InvalidPlanError(
+          `Plan contains a dependency cycle between steps: ${Array.from(remaining.keys()).join(', ')}`
+        );
+      }
+
+      for (const step of level) {
+        remaining.delete(step.id);
+        done.add(step.id);
+      }
+      levels.push(level);
+    }
+
+    return levels;
+  }
+
+  /**
+   * Build the prompt for a step, including the output of the steps it depends on
+   */
+  buildStepTask(plan: Plan, step: PlanStep, dependencyResults: PlanStepResult[]): string {
+    const parts = [`Overall task: ${plan.task}`, `Current step: ${step.description}`];
+
+    if (dependencyResults.length > 0) {
+      parts.push(
+        'Results from previous steps:\n' +
+          dependencyResults.map((dep) => `[${dep.stepId}]\n${dep.result.content}`).join('\n\n')
+      );
+    }
+
+    return parts.join('\n\n');
+  }
+}
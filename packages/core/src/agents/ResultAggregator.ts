@@ -0,0 +1,208 @@
+import type { ModelAdapter } from '../core/model/ModelAdapter';
+import type { UsageLedger } from '../core/usage/UsageLedger';
+import { generateMetered, type CallAttribution } from '../core/usage/metered';
+import type { Logger } from '../utils/logger';
+import type { AgentResult, AggregatorType, ConsensusResult, ResultAggregator } from './types';
+
+/**
+ * Failed result for a consensus run in which no sub-agent succeeded
+ */
+function noSuccess(results: ConsensusResult[]): AgentResult {
+  const reasons = results.map((r) => `${r.subAgentId}: ${r.result.error?.message ?? 'failed'}`);
+  return {
+    success: false,
+    content: '',
+    error: new Error(`No sub-agent succeeded (${reasons.join('; ')})`),
+  };
+}
+
+/**
+ * Successful answers, best ranked first
+ */
+function successesByRank(results: ConsensusResult[]): ConsensusResult[] {
+  return results.filter((r) => r.result.success).sort((a, b) => a.rank - b.rank);
+}
+
+/**
+ * Picks the answer given by the most sub-agents
+ *
+ * Answers are compared ignoring case, whitespace and trailing punctuation, so
+ * it suits short answers (a label, a number, yes/no) better than prose.
+ * Ties go to the answer from the best ranked sub-agent.
+ */
+export class MajorityVoteAggregator implements ResultAggregator {
+  readonly name = 'majority-vote';
+
+  async aggregate(_task: string, results: ConsensusResult[]): Promise<AgentResult> {
+    const successes = successesByRank(results);
+    if (successes.length === 0) {
+      return noSuccess(results);
+    }
+
+    // Insertion order follows rank, so the first group to reach a count wins ties
+    const groups = new Map<string, ConsensusResult[]>();
+    for (const answer of successes) {
+      const key = normalizeAnswer(answer.result.content);
+      groups.set(key, [...(groups.get(key) ?? []), answer]);
+    }
+
+    let winner: ConsensusResult[] = [];
+    for (const group of groups.values()) {
+      if (group.length > winner.length) {
+        winner = group;
+      }
+    }
+
+    return {
+      ...winner[0].result,
+      metadata: {
+        votes: winner.length,
+        voters: winner.map((r) => r.subAgentId),
+        distinctAnswers: groups.size,
+      },
+    };
+  }
+}
+
+/**
+ * Takes the first successful answer to arrive
+ *
+ * The other sub-agents are cancelled as soon as it does.
+ */
+export class FirstSuccessAggregator implements ResultAggregator {
+  readonly name = 'first-success';
+
+  isDecisive(results: ConsensusResult[]): boolean {
+    return results.some((r) => r.result.success);
+  }
+
+  async aggregate(_task: string, results: ConsensusResult[]): Promise<AgentResult> {
+    const first = results.find((r) => r.result.success);
+    if (!first) {
+      return noSuccess(results);
+    }
+    return { ...first.result, metadata: { chosen: first.subAgentId } };
+  }
+}
+
+/**
+ * Judge aggregator dependencies
+ */
+export interface JudgeAggregatorDependencies {
+  /** Model that compares the answers and writes the final one */
+  model: ModelAdapter;
+  /** Used when the judge fails (defaults to majority vote) */
+  fallback?: ResultAggregator;
+  logger?: Logger;
+  /** Ledger judging calls are recorded in */
+  usage?: UsageLedger;
+}
+
+const DEFAULT_JUDGE_PROMPT = `You are given a task and answers to it from several specialized sub-agents.
+Compare the answers, keep what is correct, resolve disagreements and write the single best answer to the task.
+Reply with the final answer only, without mentioning the sub-agents.`;
+
+/**
+ * Asks a model to compare the answers and synthesize the final one
+ *
+ * A single successful answer is returned as-is, without calling the model.
+ */
+export class JudgeAggregator implements ResultAggregator {
+  readonly name = 'judge';
+  private model: ModelAdapter;
+  private fallback: ResultAggregator;
+  private logger?: Logger;
+  private usage?: UsageLedger;
+
+  constructor(dependencies: JudgeAggregatorDependencies) {
+    this.model = dependencies.model;
+    this.fallback = dependencies.fallback ?? new MajorityVoteAggregator();
+    this.logger = dependencies.logger;
+    this.usage = dependencies.usage;
+  }
+
+  async aggregate(
+    task: string,
+    results: ConsensusResult[],
+    signal?: AbortSignal,
+    attribution?: CallAttribution
+  ): Promise<AgentResult> {
+    const successes = successesByRank(results);
+    if (successes.length === 0) {
+      return noSuccess(results);
+    }
+    if (successes.length === 1) {
+      return { ...successes[0].result, metadata: { judged: false } };
+    }
+
+    const answers = successes
+      .map((r, index) => `[Answer ${index + 1}]\n${r.result.content}`)
+      .join('\n\n');
+
+    try {
+      const result = await generateMetered(
+        this.model,
+        {
+          systemPrompt: DEFAULT_JUDGE_PROMPT,
+          messages: [{ role: 'user', content: `Task: ${task}\n\n${answers}` }],
+          abortSignal: signal,
+        },
+        this.usage,
+        attribution
+      );
+      return {
+        success: true,
+        content: result.text,
+        toolCalls: successes.flatMap((r) => r.result.toolCalls ?? []),
+        metadata: { judged: true, usage: result.usage },
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      this.logger?.warn(`Judge failed, using ${this.fallback.name}`, { error });
+      const result = await this.fallback.aggregate(task, results, signal, attribution);
+      return { ...result, metadata: { ...result.metadata, judged: false } };
+    }
+  }
+}
+
+/**
+ * Aggregator dependencies
+ */
+export interface AggregatorDependencies {
+  /** Model for the judge aggregator */
+  model: ModelAdapter;
+  logger?: Logger;
+  /** Ledger the judge aggregator's calls are recorded in */
+  usage?: UsageLedger;
+}
+
+/**
+ * Create a built-in aggregator
+ */
+export function createAggregator(
+  type: AggregatorType,
+  dependencies: AggregatorDependencies
+): ResultAggregator {
+  switch (type) {
+    case 'judge':
+      return new JudgeAggregator(dependencies);
+    case 'first-success':
+      return new FirstSuccessAggregator();
+    case 'majority-vote':
+    default:
+      return new MajorityVoteAggregator();
+  }
+}
+
+/**
+ * Normalize an answer for comparison
+ */
+function normalizeAnswer(content: string): string {
+  return content
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[.!?]+$/, '');
+}
@@ -0,0 +1,255 @@
+import { APICallError, RetryError } from 'ai';
+import { BudgetExceededError } from '../core/usage/Budget';
+import type { AgentResult, RetryErrorKind, RetryPolicyConfig } from './types';
+
+/**
+ * Retry policy options
+ */
+export interface RetryPolicyOptions extends RetryPolicyConfig {
+  /** Override the classification of an error; return undefined to use the default */
+  classify?: (error: Error) => RetryErrorKind | undefined;
+}
+
+/**
+ * Outcome of asking the policy about a failed attempt
+ */
+export interface RetryDecision {
+  retry: boolean;
+  errorKind: RetryErrorKind;
+  /** Delay before the next attempt, when retrying */
+  delayMs: number;
+  reason: string;
+}
+
+const DEFAULT_STATUS_CODES = [408, 409, 425, 429, 500, 502, 503, 504];
+
+const DEFAULT_ERROR_CODES = [
+  'rate_limit_exceeded',
+  'rate_limit_error',
+  'overloaded_error',
+  'RESOURCE_EXHAUSTED',
+  'UNAVAILABLE',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+];
+
+const NETWORK_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE']);
+
+/**
+ * Error kinds that are never worth retrying
+ */
+const FATAL_KINDS = new Set<RetryErrorKind>(['client', 'cancelled', 'budget']);
+
+/**
+ * Error kinds that are expected to go away on their own
+ */
+const TRANSIENT_KINDS = new Set<RetryErrorKind>(['rate-limit', 'timeout', 'server', 'network']);
+
+/**
+ * Find a provider or system error code on an error
+ */
+function getErrorCode(error: Error): string | undefined {
+  const { code } = error as { code?: unknown };
+  if (typeof code === 'string') {
+    return code;
+  }
+
+  // Provider error bodies: { error: { type, code } } or { type }
+  if (APICallError.isInstance(error) && error.data && typeof error.data === 'object') {
+    const data = error.data as { type?: unknown; error?: { type?: unknown; code?: unknown } };
+    const candidate = data.error?.code ?? data.error?.type ?? data.type;
+    if (typeof candidate === 'string') {
+      return candidate;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Kind of a retryable HTTP status
+ *
+ * Conflicts (409) and too-early responses (425) clear up on their own like
+ * server errors do.
+ */
+function statusKind(status: number): RetryErrorKind {
+  if (status === 429) return 'rate-limit';
+  if (status === 408) return 'timeout';
+  return 'server';
+}
+
+/**
+ * Decides whether and when a failed sub-agent attempt is retried
+ *
+ * Delays grow exponentially with jitter. Errors are classified so that
+ * rate limits, timeouts, server and network errors are retried while bad
+ * requests, cancellations and exceeded budgets are not.
+ */
+export class RetryPolicy {
+  readonly maxRetries: number;
+  private initialDelayMs: number;
+  private maxDelayMs: number;
+  private backoffMultiplier: number;
+  private jitter: number;
+  private retryOnUnsuccessful: boolean;
+  private retryableStatusCodes: Set<number>;
+  private retryableErrorCodes: Set<string>;
+  private classifyOverride?: (error: Error) => RetryErrorKind | undefined;
+
+  constructor(options: RetryPolicyOptions = {}) {
+    this.maxRetries = options.maxRetries ?? 2;
+    this.initialDelayMs = options.initialDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 10000;
+    this.backoffMultiplier = options.backoffMultiplier ?? 2;
+    this.jitter = Math.min(1, Math.max(0, options.jitter ?? 0.5));
+    this.retryOnUnsuccessful = options.retryOnUnsuccessful ?? false;
+    this.retryableStatusCodes = new Set(options.retryableStatusCodes ?? DEFAULT_STATUS_CODES);
+    this.retryableErrorCodes = new Set([
+      ...DEFAULT_ERROR_CODES,
+      ...(options.retryableErrorCodes ?? []),
+    ]);
+    this.classifyOverride = options.classify;
+  }
+
+  /**
+   * Classify an error
+   */
+  classify(error: Error): RetryErrorKind {
+    const override = this.classifyOverride?.(error);
+    if (override) {
+      return override;
+    }
+
+    // The AI SDK wraps errors it already retried itself
+    if (RetryError.isInstance(error) && error.lastError instanceof Error) {
+      return this.classify(error.lastError);
+    }
+
+    if (error.name === 'AbortError' || error.name === 'TaskCancelledError') {
+      return 'cancelled';
+    }
+    if (error instanceof BudgetExceededError) {
+      return 'budget';
+    }
+
+    const code = getErrorCode(error);
+    if (code && NETWORK_CODES.has(code)) {
+      return 'network';
+    }
+
+    // Only the configured statuses are retried, so leaving one out opts out of it
+    if (APICallError.isInstance(error) && error.statusCode !== undefined) {
+      const status = error.statusCode;
+      if (this.retryableStatusCodes.has(status)) return statusKind(status);
+      if (code && this.retryableErrorCodes.has(code)) return 'server';
+      return 'client';
+    }
+
+    if (code && this.retryableErrorCodes.has(code)) {
+      return /rate|exhausted/i.test(code) ? 'rate-limit' : 'server';
+    }
+    if (/rate.?limit|too many requests/i.test(error.message)) {
+      return 'rate-limit';
+    }
+    if (/timed? ?out/i.test(error.message)) {
+      return 'timeout';
+    }
+
+    return 'unknown';
+  }
+
+  /**
+   * Decide what to do after an attempt threw or returned an unsuccessful result
+   *
+   * @param attempt Zero-based index of the attempt that failed
+   */
+  decide(attempt: number, failure: { error?: Error; result?: AgentResult }): RetryDecision {
+    const { error, result } = failure;
+
+    let errorKind: RetryErrorKind;
+    let retryable: boolean;
+    if (error) {
+      errorKind = this.classify(error);
+      retryable = this.isRetryableKind(errorKind, error);
+    } else {
+      // Sub-agents report model failures as results, so transient errors are
+      // retried like thrown ones; other failures only when enabled
+      const resultError = result?.error;
+      errorKind = resultError ? this.classify(resultError) : 'unsuccessful';
+      retryable =
+        (resultError !== undefined && TRANSIENT_KINDS.has(errorKind)) ||
+        (this.retryOnUnsuccessful &&
+          (!resultError || this.isRetryableKind(errorKind, resultError)));
+    }
+
+    const reason = (error ?? result?.error)?.message ?? 'Unsuccessful result';
+    if (!retryable || attempt >= this.maxRetries) {
+      return { retry: false, errorKind, delayMs: 0, reason };
+    }
+
+    return {
+      retry: true,
+      errorKind,
+      delayMs: this.getDelay(attempt, error ?? result?.error),
+      reason,
+    };
+  }
+
+  /**
+   * Delay before the retry following a failed attempt
+   *
+   * A Retry-After header on the error is honoured, up to maxDelayMs.
+   */
+  getDelay(attempt: number, error?: Error): number {
+    const retryAfter = error && this.getRetryAfterMs(error);
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, this.maxDelayMs);
+    }
+
+    const base = Math.min(
+      this.initialDelayMs * Math.pow(this.backoffMultiplier, attempt),
+      this.maxDelayMs
+    );
+    return Math.round(base * (1 - this.jitter * Math.random()));
+  }
+
+  private isRetryableKind(kind: RetryErrorKind, error: Error): boolean {
+    if (FATAL_KINDS.has(kind)) {
+      return false;
+    }
+    // Respect the provider's own verdict when it says not to retry
+    if (APICallError.isInstance(error) && !error.isRetryable && kind === 'unknown') {
+      return false;
+    }
+    return true;
+  }
+
+  private getRetryAfterMs(error: Error): number | undefined {
+    const source = RetryError.isInstance(error) ? error.lastError : error;
+    if (!APICallError.isInstance(source)) {
+      return undefined;
+    }
+
+    const header = source.responseHeaders?.['retry-after'];
+    if (!header) {
+      return undefined;
+    }
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+}
+
+/**
+ * Create a retry policy
+ */
+export function createRetryPolicy(options: RetryPolicyOptions = {}): RetryPolicy {
+  return new RetryPolicy(options);
+}
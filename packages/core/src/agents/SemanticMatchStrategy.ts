@@ -0,0 +1,150 @@
+import { cosineSimilarity, type Embedder } from '../core/memory/Embedder';
+import type { Logger } from '../utils/logger';
+import type { SelectionStrategy } from './AgentCoordinator';
+import type { SubAgent } from './SubAgent';
+import type { AgentContext } from './types';
+
+/**
+ * Semantic match options
+ */
+export interface SemanticMatchOptions {
+  /** Minimum cosine similarity for an agent to be selected (default 0.3) */
+  threshold?: number;
+  /** Number of task embeddings kept (default 50) */
+  cacheSize?: number;
+}
+
+/**
+ * Semantic match dependencies
+ */
+export interface SemanticMatchDependencies {
+  embedder: Embedder;
+  logger?: Logger;
+}
+
+/**
+ * Text describing what a sub-agent does, embedded alongside its example tasks
+ */
+function describeProfile(agent: SubAgent): string {
+  return `${agent.name}: ${agent.specialization}. Capabilities: ${agent.capabilities.join(', ')}`;
+}
+
+/**
+ * Selection strategy that picks the sub-agent closest to the task by embedding similarity
+ *
+ * Each agent's profile and example tasks are embedded once, at registration.
+ * A task scores against an agent as its best similarity to any of those
+ * texts. Cheaper than asking a model, and unlike keyword matching it is not
+ * thrown off by case or word order.
+ */
+export class SemanticMatchStrategy implements SelectionStrategy {
+  private embedder: Embedder;
+  private logger?: Logger;
+  private threshold: number;
+  private cacheSize: number;
+  private profiles: Map<string, Promise<number[][]>> = new Map();
+  private taskVectors: Map<string, Promise<number[]>> = new Map();
+
+  constructor(dependencies: SemanticMatchDependencies, options: SemanticMatchOptions = {}) {
+    this.embedder = dependencies.embedder;
+    this.logger = dependencies.logger;
+    this.threshold = options.threshold ?? 0.3;
+    this.cacheSize = options.cacheSize ?? 50;
+  }
+
+  /**
+   * Embed a sub-agent's profile and example tasks
+   */
+  register(agent: SubAgent): void {
+    const texts = [describeProfile(agent), ...agent.examples];
+    const vectors = this.embedder.embed(texts);
+    // Failures surface when the agent is scored
+    vectors.catch(() => undefined);
+    this.profiles.set(agent.id, vectors);
+  }
+
+  /**
+   * Forget a sub-agent's embeddings
+   */
+  unregister(agentId: string): void {
+    this.profiles.delete(agentId);
+  }
+
+  async select(
+    task: string,
+    candidates: SubAgent[],
+    context?: AgentContext
+  ): Promise<SubAgent | null> {
+    return (await this.rank(task, candidates, context))[0] ?? null;
+  }
+
+  /**
+   * Rank the candidates at or above the threshold by similarity
+   */
+  async rank(task: string, candidates: SubAgent[], context?: AgentContext): Promise<SubAgent[]> {
+    const scores = await this.score(task, candidates, context);
+
+    return candidates
+      .filter((agent) => scores[agent.id] >= this.threshold)
+      .sort((a, b) => scores[b.id] - scores[a.id]);
+  }
+
+  /**
+   * Similarity of the task to each candidate, by agent ID
+   */
+  async score(
+    task: string,
+    candidates: SubAgent[],
+    _context?: AgentContext
+  ): Promise<Record<string, number>> {
+    const scores: Record<string, number> = {};
+    if (candidates.length === 0) {
+      return scores;
+    }
+
+    const taskVector = await this.embedTask(task);
+    for (const agent of candidates) {
+      const vectors = await this.getProfile(agent);
+      scores[agent.id] = Math.max(0, ...vectors.map((v) => cosineSimilarity(taskVector, v)));
+    }
+    return scores;
+  }
+
+  /**
+   * Get an agent's embeddings, embedding agents that were never registered
+   *
+   * An agent whose embeddings failed scores 0 and is embedded again next time.
+   */
+  private async getProfile(agent: SubAgent): Promise<number[][]> {
+    if (!this.profiles.has(agent.id)) {
+      this.register(agent);
+    }
+
+    try {
+      return await this.profiles.get(agent.id)!;
+    } catch (error) {
+      this.logger?.warn(`Failed to embed sub-agent ${agent.name}`, { error });
+      this.profiles.delete(agent.id);
+      return [];
+    }
+  }
+
+  /**
+   * Embed a task, reusing recent embeddings since a task is often scored more than once
+   */
+  private embedTask(task: string): Promise<number[]> {
+    const cached = this.taskVectors.get(task);
+    if (cached) {
+      return cached;
+    }
+
+    const vector = this.embedder.embed([task]).then(([first]) => first);
+    // Failed embeddings are not kept
+    vector.catch(() => this.taskVectors.delete(task));
+    this.taskVectors.set(task, vector);
+    if (this.taskVectors.size > this.cacheSize) {
+      this.taskVectors.delete(this.taskVectors.keys().next().value as string);
+    }
+    return vector;
+  }
+}
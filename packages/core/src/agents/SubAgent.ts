@@ -1,5 +1,13 @@
+import type { Tool } from 'ai';
 import { BaseAgent, type AgentDependencies } from './BaseAgent';
-import type { AgentContext, AgentResult, SubAgentConfig } from './types';
+import type {
+  AgentContext,
+  AgentExecuteOptions,
+  AgentResult,
+  AgentStreamChunk,
+  RetryPolicyConfig,
+  SubAgentConfig,
+} from './types';
 
 /**
  * Abstract base class for sub-agents
@@ -18,12 +26,20 @@ export abstract class SubAgent extends BaseAgent {
   /** Priority for selection (higher = preferred) */
   readonly priority: number;
 
+  /** Retry policy overrides applied by the coordinator */
+  readonly retry?: RetryPolicyConfig;
+
+  /** Example tasks this agent handles well */
+  readonly examples: string[];
+
   protected readonly subAgentConfig: SubAgentConfig;
 
   constructor(dependencies: AgentDependencies, config: SubAgentConfig) {
     super(dependencies, config);
     this.subAgentConfig = config;
     this.priority = config.priority ?? 5;
+    this.retry = config.retry;
+    this.examples = config.examples ?? [];
   }
 
   /**
@@ -108,7 +124,11 @@ export class ToolSubAgent extends SubAgent {
     return false;
   }
 
-  async execute(task: string, context?: AgentContext): Promise<AgentResult> {
+  async execute<T = unknown>(
+    task: string,
+    context?: AgentContext,
+    options: AgentExecuteOptions<T> = {}
+  ): Promise<AgentResult<T>> {
     const ctx = this.createContext(context);
     const taskId = this.generateTaskId();
 
@@ -126,30 +146,28 @@ export class ToolSubAgent extends SubAgent {
       }
 
       // Add task to memory
-      this.addToMemory(ctx.conversationId, 'user', task);
+      const calls = this.callOptions(taskId, ctx);
+      this.addToMemory(ctx.conversationId, 'user', task, calls);
 
       // Get history for context
-      const history = this.memory.getRecentMessages(ctx.conversationId);
+      const tools = this.getAvailableTools();
+      const history = await this.getContextHistory(ctx.conversationId, tools);
       const messages = this.toCoreMessages(history);
 
-      // Build tools subset if specific tools are configured
-      let tools = this.tools.toCoreTools(this.id);
-      if (this.toolNames.length > 0) {
-        tools = Object.fromEntries(
-          Object.entries(tools).filter(([name]) => this.toolNames.includes(name))
-        );
-      }
+      // Generate response with tools, structured when a schema is given
+      const request = { ...calls, tools };
+      const result = options.output
+        ? await this.generateOutput(messages, options.output, request)
+        : await this.generateWithTools(messages, request);
 
-      // Generate response with tools
-      const result = await this.generateWithTools(messages, { tools });
-
-      // Add response to memory
+      // Add tool activity and the response to memory
+      this.recordToolMessages(ctx.conversationId, result, calls);
       if (result.success) {
-        this.addToMemory(ctx.conversationId, 'assistant', result.content);
+        this.addToMemory(ctx.conversationId, 'assistant', result.content, calls);
       }
 
       this.emitTaskComplete(taskId, result);
-      return result;
+      return result as AgentResult<T>;
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.emitTaskError(taskId, err);
@@ -162,6 +180,68 @@ export class ToolSubAgent extends SubAgent {
       };
     }
   }
+
+  async *executeStream(task: string, context?: AgentContext): AsyncGenerator<AgentStreamChunk> {
+    const ctx = this.createContext(context);
+    const taskId = this.generateTaskId();
+
+    this.emitTaskStart(taskId, task);
+    this.logger?.info(`SubAgent ${this.name} streaming task`, { taskId, task });
+
+    let result: AgentResult;
+    try {
+      // Check depth limit
+      if (this.isMaxDepthExceeded(ctx)) {
+        yield {
+          type: 'result',
+          agentId: this.id,
+          result: {
+            success: false,
+            content: 'Maximum recursion depth exceeded',
+            error: new Error('Max depth exceeded'),
+          },
+        };
+        return;
+      }
+
+      const calls = this.callOptions(taskId, ctx);
+      this.addToMemory(ctx.conversationId, 'user', task, calls);
+
+      const tools = this.getAvailableTools();
+      const history = await this.getContextHistory(ctx.conversationId, tools);
+      const messages = this.toCoreMessages(history);
+
+      result = yield* this.streamWithTools(messages, { ...calls, tools });
+
+      this.recordToolMessages(ctx.conversationId, result, calls);
+      if (result.success) {
+        this.addToMemory(ctx.conversationId, 'assistant', result.content, calls);
+      }
+
+      this.emitTaskComplete(taskId, result);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.emitTaskError(taskId, err);
+      this.logger?.error(`SubAgent ${this.name} failed`, { taskId, error });
+
+      result = { success: false, content: '', error: err };
+    }
+
+    yield { type: 'result', agentId: this.id, result };
+  }
+
+  /**
+   * Core tools for this agent, restricted to the configured tool names if any
+   */
+  private getAvailableTools(): Record<string, Tool> {
+    const tools = this.tools.toCoreTools(this.id);
+    if (this.toolNames.length === 0) {
+      return tools;
+    }
+    return Object.fromEntries(
+      Object.entries(tools).filter(([name]) => this.toolNames.includes(name))
+    );
+  }
 }
 
 /**
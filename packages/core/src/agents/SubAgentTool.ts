@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import { BaseTool, type ToolContext, type ToolResult } from '../core/tools/BaseTool';
+import type { AgentCoordinator } from './AgentCoordinator';
+import type { SubAgent } from './SubAgent';
+import type { AgentContext } from './types';
+
+/**
+ * Delegate tool input schema
+ */
+const delegateInputSchema = z.object({
+  task: z
+    .string()
+    .min(1)
+    .describe('The task for the sub-agent, including everything it needs to know'),
+  instructions: z
+    .string()
+    .optional()
+    .describe('Extra guidance, such as the expected format or length of the answer'),
+});
+
+type DelegateInput = z.infer<typeof delegateInputSchema>;
+
+/**
+ * Sub-agent tool dependencies
+ */
+export interface SubAgentToolDependencies {
+  agent: SubAgent;
+  /** Runs the delegated task, with the agent's retries */
+  coordinator: AgentCoordinator;
+  /** Context of the task the calling model is working on */
+  context: AgentContext;
+}
+
+/**
+ * Tool name for delegating to a sub-agent, e.g. delegate_to_code_review
+ */
+export function delegateToolName(agent: SubAgent): string {
+  return `delegate_to_${agent.id.replace(/[^a-zA-Z0-9_]/g, '_')}`.slice(0, 64);
+}
+
+/**
+ * Tool that hands a task to a sub-agent and returns its answer
+ *
+ * Lets the model decide when to delegate, and call several sub-agents in one
+ * step. Each delegate keeps its own conversation thread. A call that would go
+ * past the context's maxDepth fails without running the sub-agent.
+ */
+export class SubAgentTool extends BaseTool<typeof delegateInputSchema, string> {
+  readonly name: string;
+  readonly description: string;
+  readonly inputSchema = delegateInputSchema;
+  private agent: SubAgent;
+  private coordinator: AgentCoordinator;
+  private context: AgentContext;
+
+  constructor(dependencies: SubAgentToolDependencies) {
+    super();
+    this.agent = dependencies.agent;
+    this.coordinator = dependencies.coordinator;
+    this.context = dependencies.context;
+    this.name = delegateToolName(this.agent);
+    this.description =
+      `Delegate a task to the ${this.agent.name} sub-agent (${this.agent.specialization}). ` +
+      `Capabilities: ${this.agent.capabilities.join(', ')}. ` +
+      'It does not see this conversation, so the task must be self-contained.';
+  }
+
+  async execute(input: DelegateInput, context?: ToolContext): Promise<ToolResult<string>> {
+    const depth = (this.context.currentDepth ?? 0) + 1;
+    if (depth >= (this.context.maxDepth ?? 3)) {
+      return { success: false, error: 'Maximum delegation depth reached' };
+    }
+
+    const task = input.instructions
+      ? `${input.task}\n\nInstructions: ${input.instructions}`
+      : input.task;
+    const result = await this.coordinator.executeWithAgent(this.agent.id, task, {
+      ...this.context,
+      conversationId: `${this.context.conversationId}:${this.agent.id}`,
+      history: [],
+      signal: context?.signal ?? this.context.signal,
+    });
+
+    if (!result.success) {
+      return { success: false, error: result.error?.message ?? 'Sub-agent failed' };
+    }
+    return { success: true, data: result.content };
+  }
+}
@@ -1,4 +1,8 @@
 import type { ModelMessage, Tool } from 'ai';
+import type { ZodType } from 'zod';
+import type { UsageTotals } from '../core/usage/UsageLedger';
+import type { Budget, BudgetConfig, BudgetLimits } from '../core/usage/Budget';
+import type { CallAttribution } from '../core/usage/metered';
 
 /**
  * Message in conversation history
@@ -7,8 +11,19 @@ export interface Message {
   role: 'user' | 'assistant' | 'system' | 'tool';
   content: string;
   timestamp: Date;
+  /** Tool call a tool message answers */
   toolCallId?: string;
   toolName?: string;
+  /** Tool calls requested by an assistant message */
+  toolCalls?: Array<{
+    toolCallId: string;
+    toolName: string;
+    args: Record<string, unknown>;
+  }>;
+  /** Structured output of a tool message */
+  toolResult?: unknown;
+  /** Whether a tool message holds an error instead of an output */
+  isError?: boolean;
 }
 
 /**
@@ -19,6 +34,8 @@ export interface AgentContext {
   conversationId: string;
   /** Parent task ID for sub-task tracking */
   parentTaskId?: string;
+  /** Top-level task ID, shared by the whole task tree for usage accounting */
+  rootTaskId?: string;
   /** Conversation history */
   history: Message[];
   /** Runtime variables */
@@ -27,24 +44,60 @@ export interface AgentContext {
   maxDepth?: number;
   /** Current depth in sub-agent calls */
   currentDepth?: number;
+  /** Aborts model calls, tools and sub-agents when the task is cancelled */
+  signal?: AbortSignal;
+  /** Limits for this task, overriding the configured task budget */
+  budget?: BudgetLimits;
+  /** Budget the whole task tree is charged to; set by the main agent */
+  activeBudget?: Budget;
 }
 
 /**
  * Result returned by agent execution
  */
-export interface AgentResult {
+export interface AgentResult<T = unknown> {
   /** Whether the execution was successful */
   success: boolean;
   /** The main content/response */
   content: string;
+  /** Validated structured answer, when an output schema was requested */
+  object?: T;
   /** Additional metadata */
   metadata?: Record<string, unknown>;
   /** Tool calls made during execution */
   toolCalls?: ToolCallResult[];
+  /** Tool-call and tool-result messages produced on the way to the final answer */
+  messages?: Message[];
   /** Errors encountered */
   error?: Error;
+  /** Token usage and cost of the whole task tree, on top-level results */
+  usage?: UsageTotals;
 }
 
+/**
+ * Chunk emitted by streaming agent execution
+ */
+export type AgentStreamChunk =
+  | { type: 'text-delta'; agentId: string; textDelta: string }
+  | {
+      type: 'tool-call';
+      agentId: string;
+      toolCallId: string;
+      toolName: string;
+      args: Record<string, unknown>;
+    }
+  | {
+      type: 'tool-result';
+      agentId: string;
+      toolCallId: string;
+      toolName: string;
+      result: unknown;
+      error?: string;
+    }
+  | { type: 'subagent-start'; subAgentId: string; parentAgentId: string; task: string }
+  | { type: 'subagent-complete'; subAgentId: string; parentAgentId: string; result: AgentResult }
+  | { type: 'result'; agentId: string; result: AgentResult };
+
 /**
  * Result of a tool call
  */
@@ -52,9 +105,41 @@ export interface ToolCallResult {
   toolName: string;
   toolCallId: string;
   args: Record<string, unknown>;
+  /** Tool output, undefined if the tool failed or did not run */
   result: unknown;
+  /** Error message if the tool threw */
+  error?: string;
+  /** Agent that ran the tool */
+  agentId: string;
+  /** Zero-based index of the model step that made the call */
+  step: number;
+  /** When the tool started running */
+  startedAt?: Date;
+  /** How long the tool ran, in milliseconds */
+  durationMs?: number;
+  /** Approval decision, for tools that require confirmation */
+  approval?: ApprovalDecision;
 }
 
+/**
+ * A tool call waiting for confirmation
+ */
+export interface ApprovalRequest {
+  toolName: string;
+  toolCallId: string;
+  /** Arguments proposed by the model */
+  args: Record<string, unknown>;
+  agentId: string;
+}
+
+/**
+ * Outcome of an approval request
+ */
+export type ApprovalDecision =
+  | { action: 'approve' }
+  | { action: 'reject'; reason?: string }
+  | { action: 'edit'; args: Record<string, unknown> };
+
 /**
  * Model configuration
  */
@@ -69,6 +154,10 @@ export interface ModelConfig {
   apiKey?: string;
   /** Additional provider-specific options */
   options?: Record<string, unknown>;
+  /** Tokenizer for context accounting (picked from the model when omitted) */
+  tokenizer?: 'cl100k_base' | 'o200k_base' | 'character';
+  /** Models to try in order when this one fails */
+  fallbacks?: Array<Omit<ModelConfig, 'fallbacks'>>;
 }
 
 /**
@@ -91,6 +180,134 @@ export interface AgentConfig {
   retryAttempts?: number;
   /** Maximum recursion depth for sub-agents */
   maxDepth?: number;
+  /** Default execution mode */
+  mode?: ExecutionMode;
+  /** Retry policy (for a main agent, the default for its sub-agents) */
+  retry?: RetryPolicyConfig;
+  /** Further ranked sub-agents to try when the selected one fails */
+  maxFallbacks?: number;
+  /** Strategy for selecting sub-agents */
+  selectionStrategy?: CoordinationConfig['selectionStrategy'];
+  /** Settings for the llm-router strategy */
+  router?: LLMRouterConfig;
+  /** Settings for the semantic-match strategy */
+  semantic?: SemanticMatchConfig;
+  /** Default consensus settings */
+  consensus?: ConsensusOptions;
+  /** Hard limits per task and per conversation */
+  budget?: BudgetConfig;
+}
+
+/**
+ * Execution mode for the main agent
+ *
+ * - delegate: hand the task to a single sub-agent or answer directly
+ * - plan: decompose the task into a dependency graph of steps first
+ * - consensus: send the task to several sub-agents and combine their answers
+ * - agents-as-tools: answer directly, with each sub-agent offered to the model as a tool
+ */
+export type ExecutionMode = 'delegate' | 'plan' | 'consensus' | 'agents-as-tools';
+
+/**
+ * Built-in ways of combining consensus answers
+ */
+export type AggregatorType = 'majority-vote' | 'judge' | 'first-success';
+
+/**
+ * Answer from one sub-agent in a consensus run
+ */
+export interface ConsensusResult {
+  subAgentId: string;
+  result: AgentResult;
+  /** Position of the sub-agent in the selection ranking (0 = best match) */
+  rank: number;
+}
+
+/**
+ * Combines the answers of a consensus run into one result
+ */
+export interface ResultAggregator {
+  readonly name: string;
+  /**
+   * @param results Answers in the order they completed, failures included
+   * @param attribution Who any model calls made to aggregate are recorded for
+   */
+  aggregate(
+    task: string,
+    results: ConsensusResult[],
+    signal?: AbortSignal,
+    attribution?: CallAttribution
+  ): Promise<AgentResult>;
+  /**
+   * Whether the answers so far already decide the outcome
+   *
+   * Checked as each answer arrives; once true, the remaining runs are
+   * cancelled and aggregate() is called with the answers in hand.
+   */
+  isDecisive?(results: ConsensusResult[]): boolean;
+}
+
+/**
+ * Consensus mode settings
+ */
+export interface ConsensusOptions {
+  /** Number of top-ranked sub-agents the task is sent to (default 3) */
+  agents?: number;
+  /** How the answers are combined (default 'majority-vote') */
+  aggregator?: AggregatorType | ResultAggregator;
+}
+
+/**
+ * Options accepted by every agent's execute()
+ */
+export interface AgentExecuteOptions<T = unknown> {
+  /** Schema for a structured answer, returned validated as result.object */
+  output?: ZodType<T>;
+}
+
+/**
+ * Per-call execution options
+ */
+export interface ExecuteOptions<T = unknown> extends AgentExecuteOptions<T> {
+  /** Execution mode override */
+  mode?: ExecutionMode;
+  /** ID to run the task under, for use with cancel() (generated when omitted) */
+  taskId?: string;
+  /** Consensus settings, merged over the agent's defaults */
+  consensus?: ConsensusOptions;
+}
+
+/**
+ * A single step of a plan
+ */
+export interface PlanStep {
+  /** Step identifier, unique within the plan */
+  id: string;
+  /** What this step should accomplish */
+  description: string;
+  /** Sub-agent assigned to this step (handled by the main agent if omitted) */
+  subAgentId?: string;
+  /** IDs of steps that must complete before this one */
+  dependsOn: string[];
+}
+
+/**
+ * Plan produced by the planner
+ */
+export interface Plan {
+  /** Original task */
+  task: string;
+  /** Steps in the plan */
+  steps: PlanStep[];
+}
+
+/**
+ * Result of executing a single plan step
+ */
+export interface PlanStepResult {
+  stepId: string;
+  subAgentId?: string;
+  result: AgentResult;
 }
 
 /**
@@ -103,6 +320,8 @@ export interface SubAgentConfig extends AgentConfig {
   capabilities: string[];
   /** Priority for agent selection (higher = preferred) */
   priority?: number;
+  /** Example tasks, used by the semantic-match strategy */
+  examples?: string[];
 }
 
 /**
@@ -121,6 +340,8 @@ export interface GenerateOptions {
   temperature?: number;
   /** Stop sequences */
   stopSequences?: string[];
+  /** Abort the request */
+  abortSignal?: AbortSignal;
 }
 
 /**
@@ -143,6 +364,54 @@ export interface GenerateResult {
   };
   /** Finish reason */
   finishReason?: 'stop' | 'length' | 'tool-calls' | 'content-filter' | 'other';
+  /** Each model step, for multi-step tool use */
+  steps?: GenerateStep[];
+  /** Model that produced the answer, set by failover adapters */
+  model?: string;
+  /** Position of that model in the failover chain (0 for the primary) */
+  fallbackIndex?: number;
+}
+
+/**
+ * Options for structured generation
+ */
+export interface GenerateObjectOptions<T> extends Omit<GenerateOptions, 'tools' | 'stopSequences'> {
+  /** Schema the generated object must match */
+  schema: ZodType<T>;
+  /** Name of the output, for providers that use it as guidance */
+  schemaName?: string;
+  /** Description of the output, for providers that use it as guidance */
+  schemaDescription?: string;
+}
+
+/**
+ * Result from structured generation
+ */
+export interface GenerateObjectResult<T> extends Pick<
+  GenerateResult,
+  'usage' | 'finishReason' | 'model' | 'fallbackIndex'
+> {
+  /** Object validated against the schema */
+  object: T;
+}
+
+/**
+ * A single model step: its text, the tools it called and what they returned
+ */
+export interface GenerateStep {
+  text: string;
+  toolCalls: NonNullable<GenerateResult['toolCalls']>;
+  toolResults: Array<{
+    toolCallId: string;
+    toolName: string;
+    result: unknown;
+    /** Set when the tool threw instead of returning */
+    error?: string;
+  }>;
+  finishReason?: GenerateResult['finishReason'];
+  usage?: GenerateResult['usage'];
+  /** Model that served the step, on steps from failover adapters */
+  model?: string;
 }
 
 /**
@@ -153,9 +422,39 @@ export interface AgentEvents {
   'task:complete': { taskId: string; result: AgentResult; agentId: string };
   'task:error': { taskId: string; error: Error; agentId: string };
   'tool:call': { toolName: string; args: Record<string, unknown>; agentId: string };
-  'tool:result': { toolName: string; result: unknown; agentId: string };
-  'subagent:selected': { subAgentId: string; task: string; parentAgentId: string };
+  'tool:result': ToolCallResult;
+  'tool:approval:request': ApprovalRequest;
+  'tool:approval:decision': ApprovalRequest & { decision: ApprovalDecision };
+  'subagent:selected': {
+    subAgentId: string;
+    task: string;
+    parentAgentId: string;
+    /** Strategy scores for each candidate, by agent ID, when the strategy reports them */
+    scores?: Record<string, number>;
+  };
   'subagent:complete': { subAgentId: string; result: AgentResult; parentAgentId: string };
+  'subagent:retry': {
+    subAgentId: string;
+    task: string;
+    parentAgentId: string;
+    /** The attempt about to start (1 for the first retry) */
+    attempt: number;
+    delayMs: number;
+    reason: string;
+    errorKind: RetryErrorKind;
+  };
+  'subagent:fallback': {
+    /** Sub-agent that failed */
+    fromSubAgentId: string;
+    /** Next candidate the task moves on to */
+    toSubAgentId: string;
+    task: string;
+    parentAgentId: string;
+    reason: string;
+  };
+  'plan:created': { taskId: string; plan: Plan; agentId: string };
+  'plan:step:start': { taskId: string; step: PlanStep; agentId: string };
+  'plan:step:complete': { taskId: string; stepResult: PlanStepResult; agentId: string };
 }
 
 /**
@@ -169,5 +468,73 @@ export interface CoordinationConfig {
   /** Number of retry attempts */
   retryAttempts: number;
   /** Strategy for selecting sub-agents */
-  selectionStrategy: 'priority' | 'capability-match' | 'round-robin';
+  selectionStrategy:
+    'priority' | 'capability-match' | 'round-robin' | 'llm-router' | 'semantic-match';
+  /** Backoff and error classification for retries */
+  retry?: RetryPolicyConfig;
+  /** Further ranked sub-agents to try when the selected one fails (default 2) */
+  maxFallbacks?: number;
+  /** Settings for the llm-router strategy */
+  router?: LLMRouterConfig;
+  /** Settings for the semantic-match strategy */
+  semantic?: SemanticMatchConfig;
+}
+
+/**
+ * Semantic match settings
+ */
+export interface SemanticMatchConfig {
+  /** Minimum cosine similarity for an agent to be selected (default 0.3) */
+  threshold?: number;
+}
+
+/**
+ * LLM router settings
+ */
+export interface LLMRouterConfig {
+  /** Routing model (defaults to the agent's own model) */
+  model?: ModelConfig;
+  /** Decisions below this confidence fall back to keyword matching (default 0.6) */
+  confidenceThreshold?: number;
+  /** Number of routing decisions kept (default 100) */
+  cacheSize?: number;
+}
+
+/**
+ * Classification of a failure for retry decisions
+ */
+export type RetryErrorKind =
+  | 'rate-limit'
+  | 'timeout'
+  | 'server'
+  | 'network'
+  | 'client'
+  | 'cancelled'
+  | 'budget'
+  | 'unsuccessful'
+  | 'unknown';
+
+/**
+ * Retry policy settings
+ */
+export interface RetryPolicyConfig {
+  /** Retries after the first attempt (defaults to the coordinator's retryAttempts) */
+  maxRetries?: number;
+  /** Delay before the first retry in milliseconds (default 500) */
+  initialDelayMs?: number;
+  /** Upper bound for any single delay in milliseconds (default 10000) */
+  maxDelayMs?: number;
+  /** Factor the delay grows by per retry (default 2) */
+  backoffMultiplier?: number;
+  /** Fraction of each delay that is randomized, 0-1 (default 0.5) */
+  jitter?: number;
+  /** Also retry unsuccessful results whose error is not known to be transient */
+  retryOnUnsuccessful?: boolean;
+  /**
+   * HTTP status codes that are retried; other statuses are not
+   * (default 408, 409, 425, 429, 500, 502, 503, 504)
+   */
+  retryableStatusCodes?: number[];
+  /** Provider or system error codes treated as retryable, e.g. 'overloaded_error' */
+  retryableErrorCodes?: string[];
 }
@@ -0,0 +1,50 @@
+import type { ApprovalDecision, ApprovalRequest } from '../agents/types';
+import type { ApprovalHandler } from '../core/tools/ApprovalGate';
+import { formatJson } from './format';
+
+/**
+ * Ask the user a question and resolve with their answer
+ */
+export type AskFn = (question: string) => Promise<string>;
+
+/**
+ * Approval handler that asks at the terminal
+ *
+ * Answers: y approves, e edits the arguments as JSON, anything else rejects.
+ */
+export class PromptApprovalHandler implements ApprovalHandler {
+  private ask: AskFn;
+  private write: (text: string) => void;
+
+  constructor(ask: AskFn, write: (text: string) => void) {
+    this.ask = ask;
+    this.write = write;
+  }
+
+  async decide(request: ApprovalRequest): Promise<ApprovalDecision> {
+    this.write(`\n${request.agentId} wants to run ${request.toolName} with:`);
+    this.write(formatJson(request.args));
+
+    const answer = (await this.ask('Allow? [y]es / [n]o / [e]dit: ')).trim().toLowerCase();
+
+    if (answer === 'y' || answer === 'yes') {
+      return { action: 'approve' };
+    }
+
+    if (answer === 'e' || answer === 'edit') {
+      const edited = await this.ask('Arguments (JSON): ');
+      try {
+        const args = JSON.parse(edited) as unknown;
+        if (typeof args === 'object' && args !== null && !Array.isArray(args)) {
+          return { action: 'edit', args: args as Record<string, unknown> };
+        }
+      } catch {
+        // Fall through to rejection
+      }
+      this.write('Invalid JSON object; rejecting the call.');
+      return { action: 'reject', reason: 'User supplied invalid arguments' };
+    }
+
+    return { action: 'reject', reason: 'Rejected by the user' };
+  }
+}
@@ -0,0 +1,121 @@
+import { parseArgs as parseNodeArgs } from 'util';
+import type { ExecutionMode } from '../agents/types';
+
+/**
+ * CLI command
+ */
+export type CliCommand = 'chat' | 'run' | 'plan' | 'mcp' | 'help' | 'version';
+
+/**
+ * Parsed command line arguments
+ */
+export interface CliArgs {
+  command: CliCommand;
+  /** Task text for run/plan */
+  task?: string;
+  /** Path to config file */
+  configPath?: string;
+  /** Conversation to resume */
+  conversationId?: string;
+  /** Execution mode override */
+  mode?: ExecutionMode;
+  /** Print machine-readable JSON output */
+  json: boolean;
+  /** Enable debug logging */
+  debug: boolean;
+}
+
+/**
+ * Error thrown for invalid command line usage
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+/**
+ * Usage text
+ */
+export const USAGE = `Usage: plan-agent [command] [options]
+
+Commands:
+  chat                 Start an interactive chat session (default)
+  run "<task>"         Execute a single task and print the result
+  plan "<task>"        Print a proposed plan without executing it
+  mcp                  Serve the agent as an MCP server over stdio
+
+Options:
+  -c, --config <path>      Config file (default: ./plan-agent.config.json)
+  --conversation <id>      Conversation ID to use or resume
+  -m, --mode <mode>        Execution mode: delegate | plan | consensus | agents-as-tools
+  --json                   Print JSON output
+  --debug                  Enable debug logging
+  -h, --help               Show this help
+  -v, --version            Show version
+
+Chat commands:
+  /agents  /tools  /stats  /clear  /plan <task>  /help  /exit`;
+
+const COMMANDS: CliCommand[] = ['chat', 'run', 'plan', 'mcp', 'help', 'version'];
+
+const MODES: ExecutionMode[] = ['delegate', 'plan', 'consensus', 'agents-as-tools'];
+
+/**
+ * Parse command line arguments (without the node and script entries)
+ */
+export function parseArgs(argv: string[]): CliArgs {
+  let parsed: ReturnType<typeof parseNodeArgs>;
+  try {
+    parsed = parseNodeArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        config: { type: 'string', short: 'c' },
+        conversation: { type: 'string' },
+        mode: { type: 'string', short: 'm' },
+        json: { type: 'boolean', default: false },
+        debug: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+        version: { type: 'boolean', short: 'v', default: false },
+      },
+    });
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const { values, positionals } = parsed;
+
+  const mode = values.mode as ExecutionMode | undefined;
+  if (mode !== undefined && !MODES.includes(mode)) {
+    throw new CliUsageError(`Invalid mode "${mode}" (expected one of: ${MODES.join(', ')})`);
+  }
+
+  let command: CliCommand = 'chat';
+  if (values.help) {
+    command = 'help';
+  } else if (values.version) {
+    command = 'version';
+  } else if (positionals.length > 0) {
+    if (!COMMANDS.includes(positionals[0] as CliCommand)) {
+      throw new CliUsageError(`Unknown command: ${positionals[0]}`);
+    }
+    command = positionals[0] as CliCommand;
+  }
+
+  const task = positionals.slice(1).join(' ').trim() || undefined;
+  if ((command === 'run' || command === 'plan') && !task) {
+    throw new CliUsageError(`The "${command}" command requires a task`);
+  }
+
+  return {
+    command,
+    task,
+    configPath: values.config as string | undefined,
+    conversationId: values.conversation as string | undefined,
+    mode,
+    json: Boolean(values.json),
+    debug: Boolean(values.debug),
+  };
+}
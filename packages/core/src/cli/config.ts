@@ -0,0 +1,75 @@
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { extname, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { validateConfig, type Config } from '../config/schema';
+
+/**
+ * Config files looked up in the working directory when no path is given
+ */
+export const DEFAULT_CONFIG_FILES = ['plan-agent.config.json', 'plan-agent.config.js'];
+
+/**
+ * Error thrown when a config file cannot be found, read or validated
+ */
+export class ConfigLoadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigLoadError';
+  }
+}
+
+/**
+ * Locate the config file to use
+ */
+export function resolveConfigPath(configPath?: string, cwd: string = process.cwd()): string {
+  if (configPath) {
+    const resolved = resolve(cwd, configPath);
+    if (!existsSync(resolved)) {
+      throw new ConfigLoadError(`Config file not found: ${resolved}`);
+    }
+    return resolved;
+  }
+
+  for (const name of DEFAULT_CONFIG_FILES) {
+    const candidate = resolve(cwd, name);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+  }
+
+  throw new ConfigLoadError(
+    `No config file found. Create ${DEFAULT_CONFIG_FILES[0]} or pass --config <path>.`
+  );
+}
+
+/**
+ * Load and validate a config file (JSON, or a JS module with a default export)
+ */
+export async function loadConfigFile(configPath?: string, cwd?: string): Promise<Config> {
+  const path = resolveConfigPath(configPath, cwd);
+
+  let raw: unknown;
+  try {
+    if (extname(path) === '.json') {
+      raw = JSON.parse(await readFile(path, 'utf8'));
+    } else {
+      const mod = (await import(pathToFileURL(path).href)) as { default?: unknown };
+      raw = mod.default ?? mod;
+    }
+  } catch (error) {
+    throw new ConfigLoadError(
+      `Failed to read config file ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const result = validateConfig(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    throw new ConfigLoadError(`Invalid config file ${path}:\n${issues}`);
+  }
+
+  return result.data;
+}
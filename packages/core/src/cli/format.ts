@@ -0,0 +1,40 @@
+import type { Plan } from '../agents/types';
+
+/**
+ * Render a plan as a numbered list
+ */
+export function formatPlan(plan: Plan): string {
+  const lines = [`Plan for: ${plan.task}`, ''];
+
+  plan.steps.forEach((step, index) => {
+    const assignee = step.subAgentId ?? 'main agent';
+    lines.push(`${index + 1}. [${step.id}] ${step.description}`);
+    lines.push(`   agent: ${assignee}`);
+    if (step.dependsOn.length > 0) {
+      lines.push(`   after: ${step.dependsOn.join(', ')}`);
+    }
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a list of name/description pairs
+ */
+export function formatList(title: string, items: Array<[string, string]>): string {
+  if (items.length === 0) {
+    return `${title}: none`;
+  }
+
+  const width = Math.max(...items.map(([name]) => name.length));
+  return [`${title}:`, ...items.map(([name, desc]) => `  ${name.padEnd(width)}  ${desc}`)].join(
+    '\n'
+  );
+}
+
+/**
+ * Render a value as indented JSON
+ */
+export function formatJson(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
@@ -0,0 +1,151 @@
+#!/usr/bin/env node
+/**
+ * plan-agent CLI
+ *
+ * Interactive chat, one-shot task execution, plan preview and an MCP server on top of MainAgent.
+ */
+import '../config/env';
+import { createRequire } from 'module';
+import { createInterface } from 'readline';
+import { CliUsageError, parseArgs, USAGE } from './args';
+import { ConfigLoadError, loadConfigFile } from './config';
+import { closeRuntime, createRuntime } from './runtime';
+import { startRepl } from './repl';
+import { formatJson, formatPlan } from './format';
+import { PromptApprovalHandler } from './approval';
+import { McpServer } from '../core/mcp/McpServer';
+import type { AgentContext } from '../agents/types';
+
+/**
+ * Read the package version (works from both src/cli and dist)
+ */
+function getVersion(): string {
+  const require = createRequire(import.meta.url);
+  for (const candidate of ['../package.json', '../../package.json']) {
+    try {
+      const pkg = require(candidate) as { name?: string; version?: string };
+      if (pkg.name === '@ai-agent-plan/core' && pkg.version) {
+        return pkg.version;
+      }
+    } catch {
+      // Try next location
+    }
+  }
+  return 'unknown';
+}
+
+function write(text: string): void {
+  process.stdout.write(`${text}\n`);
+}
+
+function writeError(text: string): void {
+  process.stderr.write(`${text}\n`);
+}
+
+/**
+ * Run the CLI and return the process exit code
+ */
+export async function main(argv: string[] = process.argv.slice(2)): Promise<number> {
+  const args = parseArgs(argv);
+
+  if (args.command === 'help') {
+    write(USAGE);
+    return 0;
+  }
+
+  if (args.command === 'version') {
+    write(getVersion());
+    return 0;
+  }
+
+  const config = await loadConfigFile(args.configPath);
+  if (args.mode) {
+    config.mode = args.mode;
+  }
+
+  // Over MCP, stdout carries the protocol, so logs go to stderr
+  const runtime = await createRuntime(config, {
+    debug: args.debug,
+    logToStderr: args.command === 'mcp',
+  });
+
+  try {
+    switch (args.command) {
+      case 'plan': {
+        const plan = await runtime.agent.plan(args.task!);
+        write(args.json ? formatJson(plan) : formatPlan(plan));
+        return 0;
+      }
+      case 'run': {
+        const context: AgentContext | undefined = args.conversationId
+          ? {
+              conversationId: args.conversationId,
+              history: runtime.memory.getHistory(args.conversationId),
+              variables: new Map(),
+              maxDepth: config.maxDepth,
+              currentDepth: 0,
+            }
+          : undefined;
+        // Confirmation prompts need a terminal; without one, gated tool calls are rejected
+        const rl = process.stdin.isTTY
+          ? createInterface({ input: process.stdin, output: process.stderr })
+          : undefined;
+        if (rl) {
+          runtime.approvals.setHandler(
+            new PromptApprovalHandler(
+              (question) => new Promise((resolve) => rl.question(question, resolve)),
+              writeError
+            )
+          );
+        }
+        const result = await runtime.agent
+          .execute(args.task!, context, { mode: args.mode })
+          .finally(() => rl?.close());
+        if (args.json) {
+          write(formatJson({ ...result, error: result.error?.message }));
+        } else if (result.success) {
+          write(result.content);
+        } else {
+          writeError(`Task failed: ${result.error?.message ?? result.content}`);
+        }
+        return result.success ? 0 : 1;
+      }
+      case 'mcp': {
+        const server = new McpServer({
+          agent: runtime.agent,
+          tools: runtime.tools,
+          approvals: runtime.approvals,
+          allowedTools: config.serve?.allowedTools,
+          serverInfo: { name: 'plan-agent', version: getVersion() },
+          logger: runtime.logger,
+        });
+        await server.listen();
+        return 0;
+      }
+      case 'chat':
+      default:
+        await startRepl(runtime, { conversationId: args.conversationId });
+        return 0;
+    }
+  } finally {
+    await closeRuntime(runtime);
+  }
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    if (error instanceof CliUsageError) {
+      writeError(`${error.message}\n\n${USAGE}`);
+      process.exitCode = 2;
+    } else if (error instanceof ConfigLoadError) {
+      writeError(error.message);
+      process.exitCode = 1;
+    } else {
+      writeError(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exitCode = 1;
+    }
+  }
+);
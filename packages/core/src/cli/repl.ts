@@ -0,0 +1,177 @@
+import { createInterface } from 'readline';
+import type { Readable, Writable } from 'stream';
+import type { CliRuntime } from './runtime';
+import { formatJson, formatList, formatPlan } from './format';
+import { PromptApprovalHandler } from './approval';
+
+/**
+ * REPL options
+ */
+export interface ReplOptions {
+  /** Conversation to use (a new one is created if omitted) */
+  conversationId?: string;
+  input?: Readable;
+  output?: Writable;
+}
+
+/**
+ * REPL session state
+ */
+interface ReplState {
+  runtime: CliRuntime;
+  conversationId: string;
+  write: (text: string) => void;
+}
+
+const HELP = `Commands:
+  /agents         List registered sub-agents
+  /tools          List available tools
+  /stats          Show agent statistics
+  /clear          Clear this conversation's history
+  /plan <task>    Show a proposed plan without running it
+  /help           Show this help
+  /exit           Quit`;
+
+/**
+ * Start an interactive chat session backed by MainAgent.chatStream
+ */
+export async function startRepl(runtime: CliRuntime, options: ReplOptions = {}): Promise<void> {
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stdout;
+
+  const state: ReplState = {
+    runtime,
+    conversationId: options.conversationId ?? `chat-${Date.now()}`,
+    write: (text) => output.write(`${text}\n`),
+  };
+
+  const rl = createInterface({ input, output, terminal: 'isTTY' in output && !!output.isTTY });
+  rl.setPrompt('> ');
+  runtime.approvals.setHandler(
+    new PromptApprovalHandler(
+      (question) => new Promise((resolve) => rl.question(question, resolve)),
+      state.write
+    )
+  );
+
+  state.write(`${runtime.agent.name} (conversation: ${state.conversationId})`);
+  state.write('Type /help for commands, /exit to quit.');
+  rl.prompt();
+
+  for await (const raw of rl) {
+    const line = raw.trim();
+
+    if (line.startsWith('/')) {
+      const keepGoing = await handleCommand(line, state);
+      if (!keepGoing) {
+        break;
+      }
+    } else if (line) {
+      await streamReply(line, state, output);
+    }
+
+    rl.prompt();
+  }
+
+  runtime.approvals.setHandler(undefined);
+  rl.close();
+}
+
+/**
+ * Send a chat message and print the reply as it streams in
+ */
+async function streamReply(message: string, state: ReplState, output: Writable): Promise<void> {
+  let printed = false;
+
+  for await (const chunk of state.runtime.agent.chatStream(message, state.conversationId)) {
+    switch (chunk.type) {
+      case 'text-delta':
+        output.write(chunk.textDelta);
+        printed = true;
+        break;
+      case 'subagent-start':
+        state.write(`[delegating to ${chunk.subAgentId}]`);
+        break;
+      case 'tool-call':
+        if (printed) {
+          output.write('\n');
+          printed = false;
+        }
+        state.write(`[tool: ${chunk.toolName}]`);
+        break;
+      case 'result':
+        if (printed) {
+          output.write('\n');
+        } else if (chunk.result.success) {
+          // Nothing was streamed (e.g. plan mode); print the final content
+          state.write(chunk.result.content || '(no response)');
+        }
+        if (!chunk.result.success) {
+          state.write(`Error: ${chunk.result.error?.message ?? 'Task failed'}`);
+        }
+        break;
+    }
+  }
+}
+
+/**
+ * Handle a slash command
+ *
+ * @returns false when the session should end
+ */
+async function handleCommand(line: string, state: ReplState): Promise<boolean> {
+  const [command, ...rest] = line.slice(1).split(/\s+/);
+  const argument = rest.join(' ').trim();
+  const { agent, tools, memory } = state.runtime;
+
+  switch (command) {
+    case 'exit':
+    case 'quit':
+      return false;
+    case 'help':
+      state.write(HELP);
+      break;
+    case 'agents': {
+      const { subAgents } = agent.getStats().coordinator;
+      state.write(
+        formatList(
+          'Sub-agents',
+          subAgents.map((sub) => [sub.id, `${sub.name} (${sub.specialization})`])
+        )
+      );
+      break;
+    }
+    case 'tools': {
+      const { toolNames } = tools.getStats();
+      state.write(
+        formatList(
+          'Tools',
+          toolNames.map((name) => [name, tools.get(name)?.description ?? ''])
+        )
+      );
+      break;
+    }
+    case 'stats':
+      state.write(formatJson(agent.getStats()));
+      break;
+    case 'clear':
+      memory.clearHistory(state.conversationId);
+      state.write('Conversation history cleared.');
+      break;
+    case 'plan':
+      if (!argument) {
+        state.write('Usage: /plan <task>');
+        break;
+      }
+      try {
+        state.write(formatPlan(await agent.plan(argument)));
+      } catch (error) {
+        state.write(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      break;
+    default:
+      state.write(`Unknown command: /${command}. Type /help for commands.`);
+  }
+
+  return true;
+}
@@ -0,0 +1,188 @@
+import { mkdirSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { createMainAgent, type MainAgent } from '../agents/MainAgent';
+import { ModelFactory, type ProviderFactory, type ProviderType } from '../core/model/ModelFactory';
+import { ToolRegistry } from '../core/tools/ToolRegistry';
+import { registerBuiltinTools } from '../core/tools/builtin';
+import { ApprovalGate } from '../core/tools/ApprovalGate';
+import { Memory } from '../core/memory/Memory';
+import type { MemoryStore } from '../core/memory/MemoryStore';
+import { FileMemoryStore, SQLiteMemoryStore } from '../core/memory/stores';
+import { UsageLedger } from '../core/usage/UsageLedger';
+import { connectMcpServer, type McpClient } from '../core/mcp/McpClient';
+import { EventBus } from '../utils/event-bus';
+import { TaskQueue } from '../utils/task-queue';
+import { Logger } from '../utils/logger';
+import type { Config, MemoryStoreConfigType } from '../config/schema';
+
+/**
+ * Optional provider packages and the factory each one exports
+ */
+const PROVIDER_PACKAGES: Record<ProviderType, { module: string; factory: string }> = {
+  openai: { module: '@ai-sdk/openai', factory: 'createOpenAI' },
+  anthropic: { module: '@ai-sdk/anthropic', factory: 'createAnthropic' },
+  google: { module: '@ai-sdk/google', factory: 'createGoogleGenerativeAI' },
+  custom: { module: '@ai-sdk/openai-compatible', factory: 'createOpenAICompatible' },
+};
+
+/**
+ * Everything the CLI needs to talk to an agent
+ */
+export interface CliRuntime {
+  config: Config;
+  agent: MainAgent;
+  tools: ToolRegistry;
+  /** Tool calls needing confirmation are rejected until a handler is set */
+  approvals: ApprovalGate;
+  memory: Memory;
+  /** Backend conversations are persisted to, when one is configured */
+  memoryStore?: MemoryStore;
+  /** Token usage and cost of every model call the agents make */
+  usage: UsageLedger;
+  /** Clients of the configured MCP servers that connected */
+  mcpClients: McpClient[];
+  eventBus: EventBus;
+  taskQueue: TaskQueue;
+  logger: Logger;
+}
+
+/**
+ * Register every provider package that is installed
+ *
+ * Provider packages are optional peer dependencies, so missing ones are skipped.
+ *
+ * @returns The provider types that were registered
+ */
+export async function registerInstalledProviders(logger?: Logger): Promise<ProviderType[]> {
+  const registered: ProviderType[] = [];
+
+  for (const [type, pkg] of Object.entries(PROVIDER_PACKAGES) as Array<
+    [ProviderType, { module: string; factory: string }]
+  >) {
+    if (ModelFactory.isProviderRegistered(type)) {
+      registered.push(type);
+      continue;
+    }
+
+    try {
+      const mod = (await import(pkg.module)) as Record<string, unknown>;
+      const factory = mod[pkg.factory];
+      if (typeof factory === 'function') {
+        ModelFactory.registerProvider(type, { provider: factory as ProviderFactory });
+        registered.push(type);
+      }
+    } catch {
+      logger?.debug(`Provider package not installed: ${pkg.module}`);
+    }
+  }
+
+  return registered;
+}
+
+/**
+ * Build the agent and its dependencies from a validated config
+ */
+export async function createRuntime(
+  config: Config,
+  options: { debug?: boolean; logToStderr?: boolean } = {}
+): Promise<CliRuntime> {
+  const logger = new Logger({
+    level: options.debug || config.debug ? 'debug' : 'warn',
+    context: 'plan-agent',
+    stderr: options.logToStderr,
+  });
+
+  await registerInstalledProviders(logger);
+
+  const model = ModelFactory.create(config.model);
+  const routerModel = config.coordination.router?.model
+    ? ModelFactory.create(config.coordination.router.model)
+    : undefined;
+  const tools = new ToolRegistry();
+  registerBuiltinTools(tools, { fileSystem: { basePath: process.cwd() } });
+  const mcpClients = await connectMcpServers(config, tools, logger);
+
+  const memoryStore = createMemoryStore(config.memory?.store);
+  const memory = new Memory({ model: config.model, store: memoryStore });
+  const eventBus = new EventBus();
+  const approvals = new ApprovalGate({ eventBus, logger });
+  const usage = new UsageLedger({ prices: config.pricing });
+  const taskQueue = new TaskQueue({
+    maxConcurrent: config.coordination.maxConcurrent,
+    defaultTimeout: config.coordination.timeout,
+  });
+
+  const agent = await createMainAgent(
+    { model, routerModel, tools, approvals, memory, usage, eventBus, taskQueue, logger },
+    config
+  );
+
+  return {
+    config,
+    agent,
+    tools,
+    approvals,
+    memory,
+    memoryStore,
+    usage,
+    mcpClients,
+    eventBus,
+    taskQueue,
+    logger,
+  };
+}
+
+/**
+ * Open the configured memory store
+ *
+ * Relative paths are resolved against the working directory.
+ */
+export function createMemoryStore(config?: MemoryStoreConfigType): MemoryStore | undefined {
+  switch (config?.type) {
+    case 'file':
+      return new FileMemoryStore({ directory: resolve(config.dir) });
+    case 'sqlite': {
+      const filename = resolve(config.path);
+      mkdirSync(dirname(filename), { recursive: true });
+      return new SQLiteMemoryStore({ filename });
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Connect the enabled MCP servers and register their tools
+ *
+ * A server that cannot be reached is skipped with a warning.
+ */
+async function connectMcpServers(
+  config: Config,
+  tools: ToolRegistry,
+  logger: Logger
+): Promise<McpClient[]> {
+  const servers = config.mcpServers.filter((server) => server.enabled);
+  const results = await Promise.allSettled(
+    servers.map((server) => connectMcpServer(server, tools, logger))
+  );
+
+  return results.flatMap((result, index) => {
+    if (result.status === 'fulfilled') {
+      return [result.value];
+    }
+    logger.warn(`Skipping MCP server "${servers[index].name}"`, {
+      error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+    });
+    return [];
+  });
+}
+
+/**
+ * Release what the runtime holds open, such as MCP server processes and the memory database
+ */
+export async function closeRuntime(runtime: CliRuntime): Promise<void> {
+  await Promise.allSettled(runtime.mcpClients.map((client) => client.close()));
+  if (runtime.memoryStore instanceof SQLiteMemoryStore) {
+    runtime.memoryStore.close();
+  }
+}
@@ -1,9 +1,9 @@
 import { z } from 'zod';
 
 /**
- * Model provider configuration schema
+ * Single model configuration schema, without fallbacks
  */
-export const modelConfigSchema = z.object({
+const baseModelConfigSchema = z.object({
   /** Model provider */
   provider: z.enum(['openai', 'anthropic', 'google', 'custom']),
   /** Model name */
@@ -14,6 +14,38 @@ export const modelConfigSchema = z.object({
   apiKey: z.string().optional(),
   /** Additional options */
   options: z.record(z.unknown()).optional(),
+  /** Tokenizer for context accounting (picked from the model when omitted) */
+  tokenizer: z.enum(['cl100k_base', 'o200k_base', 'character']).optional(),
+});
+
+/**
+ * Model provider configuration schema
+ */
+export const modelConfigSchema = baseModelConfigSchema.extend({
+  /** Models to try in order when this one fails */
+  fallbacks: z.array(baseModelConfigSchema).optional(),
+});
+
+/**
+ * Retry policy configuration schema
+ */
+export const retryPolicySchema = z.object({
+  /** Retries after the first attempt (defaults to retryAttempts) */
+  maxRetries: z.number().min(0).max(10).optional(),
+  /** Delay before the first retry in milliseconds */
+  initialDelayMs: z.number().min(0).optional(),
+  /** Upper bound for any single delay in milliseconds */
+  maxDelayMs: z.number().min(0).optional(),
+  /** Factor the delay grows by per retry */
+  backoffMultiplier: z.number().min(1).optional(),
+  /** Fraction of each delay that is randomized (0-1) */
+  jitter: z.number().min(0).max(1).optional(),
+  /** Also retry unsuccessful results */
+  retryOnUnsuccessful: z.boolean().optional(),
+  /** HTTP status codes treated as retryable */
+  retryableStatusCodes: z.array(z.number().int()).optional(),
+  /** Provider or system error codes treated as retryable */
+  retryableErrorCodes: z.array(z.string()).optional(),
 });
 
 /**
@@ -36,6 +68,10 @@ export const subAgentConfigSchema = z.object({
   model: modelConfigSchema.optional(),
   /** System prompt override */
   systemPrompt: z.string().optional(),
+  /** Retry policy overrides for this agent */
+  retry: retryPolicySchema.optional(),
+  /** Example tasks, used by the semantic-match strategy */
+  examples: z.array(z.string()).optional(),
 });
 
 /**
@@ -50,10 +86,99 @@ export const coordinationConfigSchema = z.object({
   retryAttempts: z.number().min(0).max(5).default(2),
   /** Selection strategy */
   selectionStrategy: z
-    .enum(['priority', 'capability-match', 'round-robin'])
+    .enum(['priority', 'capability-match', 'round-robin', 'llm-router', 'semantic-match'])
     .default('capability-match'),
+  /** Backoff and error classification for retries */
+  retry: retryPolicySchema.optional(),
+  /** Further ranked sub-agents to try when the selected one fails */
+  maxFallbacks: z.number().min(0).max(10).default(2),
+  /** Settings for the llm-router strategy */
+  router: z
+    .object({
+      /** Routing model (defaults to the main model) */
+      model: modelConfigSchema.optional(),
+      /** Decisions below this confidence fall back to keyword matching */
+      confidenceThreshold: z.number().min(0).max(1).optional(),
+      /** Number of routing decisions kept */
+      cacheSize: z.number().int().min(0).optional(),
+    })
+    .optional(),
+  /** Settings for the semantic-match strategy */
+  semantic: z
+    .object({
+      /** Minimum cosine similarity for an agent to be selected */
+      threshold: z.number().min(-1).max(1).optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Budget limits schema
+ */
+export const budgetLimitsSchema = z.object({
+  /** Total prompt and completion tokens */
+  maxTokens: z.number().int().min(1).optional(),
+  /** Cost in USD, priced from the pricing section */
+  maxCost: z.number().positive().optional(),
+  /** Tool calls, including delegations in agents-as-tools mode */
+  maxToolCalls: z.number().int().min(0).optional(),
+  /** Model calls; each step of a tool loop is one call */
+  maxModelCalls: z.number().int().min(1).optional(),
+  /** Wall-clock time in milliseconds */
+  maxDurationMs: z.number().int().min(1).optional(),
 });
 
+/**
+ * Memory store schema: one JSON-lines file per conversation, or a SQLite database
+ */
+export const memoryStoreSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('file'),
+    /** Directory holding the conversation files */
+    dir: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal('sqlite'),
+    /** Database file */
+    path: z.string().min(1),
+  }),
+]);
+
+/**
+ * MCP server schema: a command to run over stdio, or a streamable HTTP URL
+ */
+export const mcpServerSchema = z
+  .object({
+    /** Server name, used in logs */
+    name: z.string().min(1),
+    /** Command that starts the server */
+    command: z.string().min(1).optional(),
+    args: z.array(z.string()).optional(),
+    /** Environment variables added for the server process */
+    env: z.record(z.string(), z.string()).optional(),
+    cwd: z.string().optional(),
+    /** Streamable HTTP endpoint */
+    url: z.string().url().optional(),
+    /** Extra HTTP headers, e.g. Authorization */
+    headers: z.record(z.string(), z.string()).optional(),
+    /** Prepended to each tool name */
+    toolPrefix: z.string().optional(),
+    /** Only register these tools */
+    tools: z.array(z.string()).optional(),
+    /** Permissions of the registered tools */
+    permissions: z.array(z.enum(['read', 'write', 'execute', 'admin'])).optional(),
+    /** Agents allowed to use the tools */
+    allowedAgents: z.union([z.array(z.string()), z.literal('all')]).optional(),
+    /** Require confirmation before every call */
+    requiresApproval: z.boolean().optional(),
+    /** Request timeout in milliseconds */
+    requestTimeout: z.number().int().min(1).optional(),
+    enabled: z.boolean().default(true),
+  })
+  .refine((server) => Boolean(server.command) !== Boolean(server.url), {
+    message: 'Set either command or url',
+  });
+
 /**
  * Main configuration schema
  */
@@ -72,6 +197,52 @@ export const configSchema = z.object({
   coordination: coordinationConfigSchema.default({}),
   /** Maximum recursion depth */
   maxDepth: z.number().min(1).max(10).default(3),
+  /** Default execution mode: delegate to a single sub-agent, plan first, ask several, or let the model call them */
+  mode: z.enum(['delegate', 'plan', 'consensus', 'agents-as-tools']).default('delegate'),
+  /** Settings for consensus mode */
+  consensus: z
+    .object({
+      /** Number of top-ranked sub-agents the task is sent to */
+      agents: z.number().int().min(1).max(10).optional(),
+      /** How the answers are combined */
+      aggregator: z.enum(['majority-vote', 'judge', 'first-success']).optional(),
+    })
+    .optional(),
+  /** Model prices in USD per million tokens, keyed by "provider/model", for cost accounting */
+  pricing: z
+    .record(
+      z.string(),
+      z.object({
+        input: z.number().min(0),
+        output: z.number().min(0),
+      })
+    )
+    .optional(),
+  /** Hard limits that stop a run cleanly once exceeded */
+  budget: z
+    .object({
+      /** Limits for each task, covering its sub-agents, retries and tool calls */
+      task: budgetLimitsSchema.optional(),
+      /** Limits for all tasks in one conversation */
+      conversation: budgetLimitsSchema.optional(),
+    })
+    .optional(),
+  /** Conversation memory */
+  memory: z
+    .object({
+      /** Where conversations are persisted, so --conversation resumes them in a new process */
+      store: memoryStoreSchema.optional(),
+    })
+    .optional(),
+  /** MCP servers whose tools are added to the tool registry */
+  mcpServers: z.array(mcpServerSchema).default([]),
+  /** Settings for serving this agent as an MCP server (plan-agent mcp) */
+  serve: z
+    .object({
+      /** Tools to publish, from run_task, delegate_to_<id> and the registry; all when unset */
+      allowedTools: z.array(z.string()).optional(),
+    })
+    .optional(),
   /** Enable debug logging */
   debug: z.boolean().default(false),
 });
@@ -96,6 +267,16 @@ export type SubAgentConfigType = z.infer<typeof subAgentConfigSchema>;
  */
 export type CoordinationConfigType = z.infer<typeof coordinationConfigSchema>;
 
+/**
+ * Inferred retry policy configuration type
+ */
+export type RetryPolicyConfigType = z.infer<typeof retryPolicySchema>;
+
+/**
+ * Inferred memory store configuration type
+ */
+export type MemoryStoreConfigType = z.infer<typeof memoryStoreSchema>;
+
 /**
  * Validate and parse configuration
  */
@@ -0,0 +1,591 @@
+import type { ToolPermission, ToolRegistry } from '../tools/ToolRegistry';
+import type { Logger } from '../../utils/logger';
+import { delay, getAbortReason } from '../../utils/abort';
+import {
+  McpError,
+  PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  StdioTransport,
+  StreamableHttpTransport,
+  type JsonRpcMessage,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+  type McpTransport,
+} from './McpTransport';
+import { McpTool } from './McpTool';
+
+/**
+ * Tool advertised by an MCP server
+ */
+export interface McpToolInfo {
+  name: string;
+  title?: string;
+  description?: string;
+  /** JSON Schema of the tool's arguments */
+  inputSchema: Record<string, unknown>;
+  annotations?: Record<string, unknown>;
+}
+
+/**
+ * Content block in a tool result
+ */
+export interface McpContent {
+  type: string;
+  text?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Result of a tool call
+ */
+export interface McpCallResult {
+  content: McpContent[];
+  structuredContent?: unknown;
+  /** The tool ran but failed; the content describes the failure */
+  isError?: boolean;
+}
+
+/**
+ * Server details returned by initialization
+ */
+export interface McpServerInfo {
+  name: string;
+  version: string;
+  protocolVersion: string;
+  capabilities: Record<string, unknown>;
+}
+
+/**
+ * Connection state of a client
+ */
+export type McpClientState = 'disconnected' | 'connecting' | 'connected' | 'closed';
+
+/**
+ * How a client reconnects after losing its server
+ */
+export interface McpReconnectOptions {
+  /** Attempts before giving up (default 3) */
+  maxAttempts?: number;
+  /** Delay before the first attempt, doubled for each later one (default 1000) */
+  delayMs?: number;
+}
+
+/**
+ * MCP client options
+ */
+export interface McpClientOptions {
+  /** Server name, used in logs and errors */
+  name: string;
+  transport: McpTransport;
+  /** Name and version reported to the server */
+  clientInfo?: { name: string; version: string };
+  /** Time a request may take before it is cancelled (default 60000) */
+  requestTimeout?: number;
+  /** Set to false to leave the client disconnected when its server goes away */
+  reconnect?: McpReconnectOptions | false;
+  logger?: Logger;
+}
+
+/**
+ * How server tools are added to a tool registry
+ *
+ * The access options are passed to ToolRegistry.register for every tool.
+ */
+export interface McpRegisterOptions {
+  /** Prepended to each tool name, e.g. "github_" */
+  prefix?: string;
+  /** Only register tools this returns true for */
+  filter?: (tool: McpToolInfo) => boolean;
+  permissions?: ToolPermission[];
+  allowedAgents?: string[] | 'all';
+  requiresApproval?: boolean | ((input: unknown) => boolean);
+}
+
+/**
+ * Configuration of one MCP server: a command to run, or a URL to connect to
+ */
+export interface McpServerConfig extends Omit<McpRegisterOptions, 'prefix' | 'filter'> {
+  name: string;
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  url?: string;
+  headers?: Record<string, string>;
+  /** Prepended to each tool name */
+  toolPrefix?: string;
+  /** Only these tools are registered */
+  tools?: string[];
+  requestTimeout?: number;
+}
+
+interface PendingRequest {
+  resolve(result: unknown): void;
+  reject(error: Error): void;
+}
+
+/**
+ * Client for a Model Context Protocol server
+ *
+ * Connects over any McpTransport, lists the server's tools and registers
+ * them in a ToolRegistry as McpTool adapters. When the server goes away
+ * the client reconnects with backoff and refreshes the tools; if it cannot,
+ * the tools are unregistered. Tool list changes announced by the server
+ * are picked up the same way.
+ */
+export class McpClient {
+  readonly name: string;
+  private transport: McpTransport;
+  private clientInfo: { name: string; version: string };
+  private requestTimeout: number;
+  private reconnect: McpReconnectOptions | false;
+  private logger?: Logger;
+  private state: McpClientState = 'disconnected';
+  private connecting?: Promise<void>;
+  private serverInfo?: McpServerInfo;
+  private nextId = 1;
+  private pending = new Map<number | string, PendingRequest>();
+  private registration?: {
+    registry: ToolRegistry;
+    options: McpRegisterOptions;
+    names: Set<string>;
+  };
+
+  constructor(options: McpClientOptions) {
+    this.name = options.name;
+    this.transport = options.transport;
+    this.clientInfo = options.clientInfo ?? { name: 'plan-agent', version: '0.1.0' };
+    this.requestTimeout = options.requestTimeout ?? 60000;
+    this.reconnect = options.reconnect ?? {};
+    this.logger = options.logger;
+  }
+
+  /**
+   * Connect and initialize, or wait for a connection in progress
+   */
+  async connect(): Promise<McpServerInfo> {
+    if (this.state === 'closed') {
+      throw new McpError(`MCP client "${this.name}" is closed`);
+    }
+    if (this.state !== 'connected') {
+      if (!this.connecting) {
+        this.connecting = this.open().finally(() => {
+          this.connecting = undefined;
+        });
+      }
+      await this.connecting;
+    }
+    if (this.state !== 'connected' || !this.serverInfo) {
+      throw new McpError(`MCP server "${this.name}" is not connected`);
+    }
+    return this.serverInfo;
+  }
+
+  /**
+   * List every tool the server offers
+   */
+  async listTools(): Promise<McpToolInfo[]> {
+    const tools: McpToolInfo[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.request<{ tools: McpToolInfo[]; nextCursor?: string }>(
+        'tools/list',
+        cursor ? { cursor } : {}
+      );
+      tools.push(...page.tools);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return tools;
+  }
+
+  /**
+   * Call a tool on the server
+   *
+   * Aborting the signal cancels the request on the server.
+   */
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<McpCallResult> {
+    const result = await this.request<McpCallResult>(
+      'tools/call',
+      { name, arguments: args },
+      signal
+    );
+    return { ...result, content: result.content ?? [] };
+  }
+
+  /**
+   * Register the server's tools in a registry and keep them in sync
+   *
+   * Tools whose name is already taken by another tool are skipped.
+   *
+   * @returns The registered tool names
+   */
+  async registerTools(registry: ToolRegistry, options: McpRegisterOptions = {}): Promise<string[]> {
+    this.unregisterTools();
+    await this.connect();
+    this.registration = { registry, options, names: new Set() };
+    await this.syncTools();
+    return this.getToolNames();
+  }
+
+  /**
+   * Names of the tools this client has registered
+   */
+  getToolNames(): string[] {
+    return Array.from(this.registration?.names ?? []);
+  }
+
+  getState(): McpClientState {
+    return this.state;
+  }
+
+  getServerInfo(): McpServerInfo | undefined {
+    return this.serverInfo;
+  }
+
+  /**
+   * Unregister the tools, fail pending requests and shut the server connection
+   */
+  async close(): Promise<void> {
+    if (this.state === 'closed') {
+      return;
+    }
+    this.state = 'closed';
+    this.unregisterTools();
+    this.registration = undefined;
+    this.rejectPending(new McpError(`MCP client "${this.name}" was closed`));
+    await this.transport.close();
+  }
+
+  /**
+   * Start the transport and run the initialization handshake
+   */
+  private async open(): Promise<void> {
+    this.state = 'connecting';
+    await this.transport.start({
+      onMessage: (message) => this.handleMessage(message),
+      onClose: (error) => this.handleClose(error),
+    });
+
+    try {
+      const result = await this.send<{
+        protocolVersion: string;
+        capabilities?: Record<string, unknown>;
+        serverInfo?: { name: string; version: string };
+      }>('initialize', {
+        protocolVersion: PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: this.clientInfo,
+      });
+      if (!SUPPORTED_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+        throw new McpError(
+          `MCP server "${this.name}" uses unsupported protocol version ${result.protocolVersion}`
+        );
+      }
+
+      this.transport.setProtocolVersion?.(result.protocolVersion);
+      await this.notify('notifications/initialized');
+      if (this.getState() !== 'connecting') {
+        throw new McpError(`MCP client "${this.name}" was closed while connecting`);
+      }
+
+      this.serverInfo = {
+        name: result.serverInfo?.name ?? this.name,
+        version: result.serverInfo?.version ?? 'unknown',
+        protocolVersion: result.protocolVersion,
+        capabilities: result.capabilities ?? {},
+      };
+      this.state = 'connected';
+    } catch (error) {
+      if (this.getState() !== 'closed') {
+        this.state = 'disconnected';
+      }
+      await this.transport.close().catch(() => undefined);
+      throw error;
+    }
+
+    this.logger?.debug(`Connected to MCP server "${this.name}"`, { ...this.serverInfo });
+    if (this.registration) {
+      await this.syncTools().catch((error: Error) =>
+        this.logger?.warn(`Failed to list tools of MCP server "${this.name}"`, {
+          error: error.message,
+        })
+      );
+    }
+  }
+
+  /**
+   * Try to reconnect with backoff, unregistering the tools if every attempt fails
+   */
+  private async reconnectLoop(options: McpReconnectOptions): Promise<void> {
+    const { maxAttempts = 3, delayMs = 1000 } = options;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      await delay(delayMs * 2 ** (attempt - 1));
+      if (this.state === 'closed') {
+        return;
+      }
+
+      try {
+        await this.open();
+        this.logger?.info(`Reconnected to MCP server "${this.name}"`, { attempt });
+        return;
+      } catch (error) {
+        this.logger?.warn(`Reconnecting to MCP server "${this.name}" failed`, {
+          attempt,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    this.unregisterTools();
+    throw new McpError(
+      `MCP server "${this.name}" is unavailable after ${maxAttempts} reconnection attempts`
+    );
+  }
+
+  /**
+   * Bring the registered tools in line with the server's current list
+   */
+  private async syncTools(): Promise<void> {
+    const registration = this.registration;
+    if (!registration) {
+      return;
+    }
+
+    const { registry, options } = registration;
+    const { prefix = '', filter, ...registerOptions } = options;
+    const tools = await this.listTools();
+    const names = new Set<string>();
+
+    for (const info of tools) {
+      if (filter && !filter(info)) {
+        continue;
+      }
+
+      const name = toToolName(prefix, info.name);
+      if (!registration.names.has(name) && registry.has(name)) {
+        this.logger?.warn(`Skipping MCP tool "${info.name}": "${name}" is already registered`, {
+          server: this.name,
+        });
+        continue;
+      }
+
+      registry.register(new McpTool(this, info, name), registerOptions);
+      names.add(name);
+    }
+
+    for (const name of registration.names) {
+      if (!names.has(name)) {
+        registry.unregister(name);
+      }
+    }
+    registration.names = names;
+  }
+
+  private unregisterTools(): void {
+    if (!this.registration) {
+      return;
+    }
+    for (const name of this.registration.names) {
+      this.registration.registry.unregister(name);
+    }
+    this.registration.names.clear();
+  }
+
+  /**
+   * Send a request once connected
+   */
+  private async request<T>(
+    method: string,
+    params: Record<string, unknown> = {},
+    signal?: AbortSignal
+  ): Promise<T> {
+    await this.connect();
+    return this.send<T>(method, params, signal);
+  }
+
+  /**
+   * Send a request and wait for its response
+   */
+  private send<T>(
+    method: string,
+    params: Record<string, unknown> = {},
+    signal?: AbortSignal
+  ): Promise<T> {
+    const id = this.nextId++;
+
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(getAbortReason(signal));
+        return;
+      }
+
+      const settle = () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+        this.pending.delete(id);
+      };
+      const cancel = (reason: Error) => {
+        settle();
+        reject(reason);
+        this.notify('notifications/cancelled', { requestId: id, reason: reason.message }).catch(
+          () => undefined
+        );
+      };
+      const onAbort = () => cancel(getAbortReason(signal!));
+      const timeoutId = setTimeout(
+        () =>
+          cancel(new McpError(`MCP request "${method}" timed out after ${this.requestTimeout}ms`)),
+        this.requestTimeout
+      );
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(id, {
+        resolve: (result) => {
+          settle();
+          resolve(result as T);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+      });
+
+      this.transport
+        .send({ jsonrpc: '2.0', id, method, params })
+        .catch((error: unknown) =>
+          this.pending.get(id)?.reject(error instanceof Error ? error : new McpError(String(error)))
+        );
+    });
+  }
+
+  private async notify(method: string, params?: Record<string, unknown>): Promise<void> {
+    await this.transport.send({ jsonrpc: '2.0', method, ...(params && { params }) });
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    if ('id' in message && !('method' in message)) {
+      const response = message as JsonRpcResponse;
+      const pending = this.pending.get(response.id);
+      if (response.error) {
+        pending?.reject(new McpError(response.error.message, response.error.code));
+      } else {
+        pending?.resolve(response.result);
+      }
+      return;
+    }
+
+    if ('id' in message) {
+      // Only pings are answered; the client declares no other capabilities
+      const { id, method } = message as JsonRpcRequest;
+      const response: JsonRpcResponse =
+        method === 'ping'
+          ? { jsonrpc: '2.0', id, result: {} }
+          : { jsonrpc: '2.0', id, error: { code: -32601, message: `Method not found: ${method}` } };
+      this.transport.send(response).catch(() => undefined);
+      return;
+    }
+
+    if (message.method === 'notifications/tools/list_changed') {
+      this.syncTools().catch((error: Error) =>
+        this.logger?.warn(`Failed to refresh tools of MCP server "${this.name}"`, {
+          error: error.message,
+        })
+      );
+    }
+  }
+
+  private handleClose(error?: Error): void {
+    this.rejectPending(error ?? new McpError(`MCP server "${this.name}" closed the connection`));
+    if (this.state !== 'connected') {
+      return;
+    }
+    this.state = 'disconnected';
+
+    this.logger?.warn(`Lost connection to MCP server "${this.name}"`, { error: error?.message });
+    if (this.reconnect === false) {
+      this.unregisterTools();
+      return;
+    }
+
+    const reconnecting = this.reconnectLoop(this.reconnect).finally(() => {
+      this.connecting = undefined;
+    });
+    reconnecting.catch((reconnectError: Error) =>
+      this.logger?.error(reconnectError.message, { server: this.name })
+    );
+    this.connecting = reconnecting;
+  }
+
+  private rejectPending(error: Error): void {
+    for (const pending of Array.from(this.pending.values())) {
+      pending.reject(error);
+    }
+  }
+}
+
+/**
+ * Registry name for a server tool; providers accept letters, digits, "_" and "-"
+ */
+function toToolName(prefix: string, name: string): string {
+  return `${prefix}${name}`.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+}
+
+/**
+ * Create a client for a configured server, over stdio or streamable HTTP
+ */
+export function createMcpClient(config: McpServerConfig, logger?: Logger): McpClient {
+  let transport: McpTransport;
+  if (config.command) {
+    transport = new StdioTransport({
+      command: config.command,
+      args: config.args,
+      env: config.env,
+      cwd: config.cwd,
+      logger,
+    });
+  } else if (config.url) {
+    transport = new StreamableHttpTransport({ url: config.url, headers: config.headers });
+  } else {
+    throw new McpError(`MCP server "${config.name}" needs a command or a url`);
+  }
+
+  return new McpClient({
+    name: config.name,
+    transport,
+    requestTimeout: config.requestTimeout,
+    logger,
+  });
+}
+
+/**
+ * Connect to a configured server and register its tools
+ */
+export async function connectMcpServer(
+  config: McpServerConfig,
+  registry: ToolRegistry,
+  logger?: Logger
+): Promise<McpClient> {
+  const client = createMcpClient(config, logger);
+  const { toolPrefix, tools, permissions, allowedAgents, requiresApproval } = config;
+
+  try {
+    await client.registerTools(registry, {
+      prefix: toolPrefix,
+      filter: tools && ((tool) => tools.includes(tool.name)),
+      permissions,
+      allowedAgents,
+      requiresApproval,
+    });
+  } catch (error) {
+    await client.close();
+    throw error;
+  }
+  return client;
+}
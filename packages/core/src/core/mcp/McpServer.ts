@@ -0,0 +1,358 @@
+import { createInterface } from 'readline';
+import { z } from 'zod';
+import type { Readable, Writable } from 'stream';
+import { createTool, type BaseTool, type ToolResult } from '../tools/BaseTool';
+import { ToolApprovalError, type ApprovalGate } from '../tools/ApprovalGate';
+import type { ToolRegistry } from '../tools/ToolRegistry';
+import type { MainAgent } from '../../agents/MainAgent';
+import { SubAgentTool } from '../../agents/SubAgentTool';
+import type { AgentContext } from '../../agents/types';
+import type { Logger } from '../../utils/logger';
+import {
+  McpError,
+  PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  type JsonRpcMessage,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+} from './McpTransport';
+
+/**
+ * run_task tool input schema
+ */
+const runTaskInputSchema = z.object({
+  task: z.string().min(1).describe('The task to carry out'),
+  mode: z
+    .enum(['delegate', 'plan', 'consensus', 'agents-as-tools'])
+    .optional()
+    .describe('How the agent runs the task; defaults to its configured mode'),
+  conversationId: z
+    .string()
+    .optional()
+    .describe('Conversation to continue, so the agent remembers earlier tasks'),
+});
+
+/**
+ * MCP server options
+ */
+export interface McpServerOptions {
+  agent: MainAgent;
+  /** Tools published alongside the agents */
+  tools?: ToolRegistry;
+  /** Reviews registry tool calls that need confirmation; without it they are rejected */
+  approvals?: ApprovalGate;
+  /** Names of the tools to publish; every tool when unset */
+  allowedTools?: string[];
+  /** Agent whose tool permissions apply to registry tools (default the main agent) */
+  agentId?: string;
+  /** Name and version reported to clients */
+  serverInfo?: { name: string; version: string };
+  logger?: Logger;
+}
+
+/**
+ * Tool published by the server
+ */
+interface PublishedTool {
+  tool: BaseTool;
+  /** Registry tools run through the registry, which checks access */
+  fromRegistry: boolean;
+}
+
+/**
+ * Publishes a main agent as a Model Context Protocol server
+ *
+ * Clients see a run_task tool backed by MainAgent.execute, a
+ * delegate_to_<id> tool per sub-agent and the registry tools the agent may
+ * use, limited to the allowlist when one is set. The protocol handling is
+ * transport independent; listen() serves it over stdio.
+ */
+export class McpServer {
+  private agent: MainAgent;
+  private tools?: ToolRegistry;
+  private approvals?: ApprovalGate;
+  private allowedTools?: Set<string>;
+  private agentId: string;
+  private serverInfo: { name: string; version: string };
+  private logger?: Logger;
+  /** Tool calls in progress, by request ID, so clients can cancel them */
+  private running = new Map<number | string, AbortController>();
+
+  constructor(options: McpServerOptions) {
+    this.agent = options.agent;
+    this.tools = options.tools;
+    this.approvals = options.approvals;
+    this.allowedTools = options.allowedTools && new Set(options.allowedTools);
+    this.agentId = options.agentId ?? options.agent.id;
+    this.serverInfo = options.serverInfo ?? { name: 'plan-agent', version: '0.1.0' };
+    this.logger = options.logger;
+  }
+
+  /**
+   * Handle one message from a client
+   *
+   * @returns The response to send, if the message was a request that needs one
+   */
+  async handle(message: JsonRpcMessage): Promise<JsonRpcResponse | undefined> {
+    if (!('method' in message)) {
+      // The server sends no requests, so there are no responses to match
+      return undefined;
+    }
+    if (!('id' in message)) {
+      this.handleNotification(message.method, message.params);
+      return undefined;
+    }
+
+    const { id } = message;
+    try {
+      const result = await this.dispatch(message);
+      // A cancelled call gets no response
+      return result === undefined ? undefined : { jsonrpc: '2.0', id, result };
+    } catch (error) {
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: error instanceof McpError && error.code !== undefined ? error.code : -32603,
+          message: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+  }
+
+  /**
+   * Serve newline-delimited JSON-RPC over stdio until the input ends
+   *
+   * Calls still running when the input ends are cancelled.
+   */
+  async listen(input: Readable = process.stdin, output: Writable = process.stdout): Promise<void> {
+    const lines = createInterface({ input });
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+
+      let message: JsonRpcMessage;
+      try {
+        message = JSON.parse(line) as JsonRpcMessage;
+      } catch {
+        this.logger?.warn('Ignoring invalid MCP message', { line });
+        continue;
+      }
+
+      // Requests are handled concurrently so pings and cancellations are not
+      // held up by a long task
+      void this.handle(message).then((response) => {
+        if (response) {
+          output.write(`${JSON.stringify(response)}\n`);
+        }
+      });
+    }
+
+    for (const controller of Array.from(this.running.values())) {
+      controller.abort(new McpError('Client disconnected'));
+    }
+  }
+
+  /**
+   * Tools currently published, by name
+   */
+  private getTools(context: AgentContext = this.createContext()): Map<string, PublishedTool> {
+    const published = new Map<string, PublishedTool>();
+    const add = (tool: BaseTool, fromRegistry: boolean) => {
+      if (!this.allowedTools || this.allowedTools.has(tool.name)) {
+        published.set(tool.name, { tool, fromRegistry });
+      }
+    };
+
+    add(this.createRunTaskTool(), false);
+    const coordinator = this.agent.getCoordinator();
+    for (const agent of coordinator.getAllSubAgents()) {
+      add(new SubAgentTool({ agent, coordinator, context }), false);
+    }
+    for (const tool of this.tools?.getAll() ?? []) {
+      if (!published.has(tool.name) && this.tools!.canAccess(this.agentId, tool.name)) {
+        add(tool, true);
+      }
+    }
+
+    return published;
+  }
+
+  private async dispatch(request: JsonRpcRequest): Promise<unknown> {
+    const params = request.params ?? {};
+
+    switch (request.method) {
+      case 'initialize': {
+        const requested = params.protocolVersion as string | undefined;
+        return {
+          protocolVersion:
+            requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+              ? requested
+              : PROTOCOL_VERSION,
+          capabilities: { tools: {} },
+          serverInfo: this.serverInfo,
+        };
+      }
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return {
+          tools: Array.from(this.getTools().values()).map(({ tool }) => ({
+            name: tool.name,
+            description: tool.description,
+            inputSchema: tool.getInputJsonSchema(),
+          })),
+        };
+      case 'tools/call':
+        return this.callTool(
+          request.id,
+          params.name as string,
+          (params.arguments as Record<string, unknown> | undefined) ?? {}
+        );
+      default:
+        throw new McpError(`Method not found: ${request.method}`, -32601);
+    }
+  }
+
+  private handleNotification(method: string, params: Record<string, unknown> = {}): void {
+    if (method === 'notifications/cancelled') {
+      const requestId = params.requestId as number | string;
+      this.running
+        .get(requestId)
+        ?.abort(new McpError(`Cancelled: ${params.reason ?? 'by client'}`));
+    }
+  }
+
+  /**
+   * Run a published tool, reporting failures as tool errors
+   *
+   * @returns The call result, or undefined when the client cancelled the call
+   */
+  private async callTool(
+    requestId: number | string,
+    name: string,
+    args: Record<string, unknown>
+  ): Promise<unknown> {
+    const controller = new AbortController();
+    const context = this.createContext(controller.signal);
+    const published = this.getTools(context).get(name);
+    if (!published) {
+      throw new McpError(`Unknown tool: ${name}`, -32602);
+    }
+
+    this.running.set(requestId, controller);
+    try {
+      const result = await this.runTool(published, args, controller.signal);
+      if (controller.signal.aborted) {
+        return undefined;
+      }
+      return result.success
+        ? { content: [{ type: 'text', text: toText(result.data) }] }
+        : { content: [{ type: 'text', text: result.error ?? 'Tool failed' }], isError: true };
+    } finally {
+      this.running.delete(requestId);
+    }
+  }
+
+  private async runTool(
+    { tool, fromRegistry }: PublishedTool,
+    args: Record<string, unknown>,
+    signal: AbortSignal
+  ): Promise<ToolResult> {
+    if (!fromRegistry) {
+      const validation = tool.validateInput(args);
+      if (!validation.success) {
+        return { success: false, error: `Invalid input: ${validation.error.message}` };
+      }
+      return tool.execute(validation.data, { agentId: this.agentId, signal });
+    }
+
+    const registry = this.tools!;
+    let input = args;
+    if (registry.requiresApproval(tool.name, args)) {
+      try {
+        input = await this.review(tool.name, args);
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+    return registry.execute(tool.name, input, { agentId: this.agentId, signal });
+  }
+
+  /**
+   * Ask the approval gate about a registry tool call
+   *
+   * @returns The arguments to run the tool with
+   */
+  private async review(
+    toolName: string,
+    args: Record<string, unknown>
+  ): Promise<Record<string, unknown>> {
+    if (!this.approvals) {
+      throw new ToolApprovalError('Tool call rejected: it needs confirmation');
+    }
+
+    const decision = await this.approvals.review({
+      toolName,
+      toolCallId: `mcp-${Date.now().toString(36)}`,
+      args,
+      agentId: this.agentId,
+    });
+    if (decision.action === 'reject') {
+      throw new ToolApprovalError(
+        `Tool call rejected${decision.reason ? `: ${decision.reason}` : ''}`
+      );
+    }
+    return decision.action === 'edit' ? decision.args : args;
+  }
+
+  private createRunTaskTool(): BaseTool {
+    return createTool({
+      name: 'run_task',
+      description:
+        `Give a task to ${this.agent.name}, which plans it and hands parts to its ` +
+        'specialised sub-agents as needed, and return the answer.',
+      inputSchema: runTaskInputSchema,
+      execute: async (input, context) => {
+        const result = await this.agent.execute(
+          input.task,
+          {
+            ...this.createContext(context?.signal),
+            ...(input.conversationId && { conversationId: input.conversationId }),
+          },
+          { mode: input.mode }
+        );
+        if (!result.success) {
+          throw result.error ?? new Error(result.content || 'Task failed');
+        }
+        return result.content;
+      },
+    });
+  }
+
+  private createContext(signal?: AbortSignal): AgentContext {
+    return {
+      conversationId: `mcp-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      history: [],
+      variables: new Map(),
+      signal,
+    };
+  }
+}
+
+/**
+ * Text content for a tool's output
+ */
+function toText(data: unknown): string {
+  if (typeof data === 'string') {
+    return data;
+  }
+  return data === undefined ? '' : JSON.stringify(data, null, 2);
+}
+
+/**
+ * Create an MCP server for a main agent
+ */
+export function createMcpServer(options: McpServerOptions): McpServer {
+  return new McpServer(options);
+}
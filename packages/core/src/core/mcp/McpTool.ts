@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { jsonSchema, type Tool } from 'ai';
+import { BaseTool, type ToolContext, type ToolResult } from '../tools/BaseTool';
+import type { McpCallResult, McpClient, McpToolInfo } from './McpClient';
+
+/**
+ * Adapter exposing a tool of an MCP server as a BaseTool
+ *
+ * The server validates arguments, so the Zod schema accepts any object;
+ * models are given the server's JSON Schema instead.
+ */
+export class McpTool extends BaseTool<z.ZodType<Record<string, unknown>>, unknown> {
+  readonly name: string;
+  readonly description: string;
+  readonly inputSchema = z.record(z.unknown());
+  /** Tool name on the server */
+  readonly toolName: string;
+  private schema: Record<string, unknown>;
+  private client: McpClient;
+
+  constructor(client: McpClient, info: McpToolInfo, name = info.name) {
+    super();
+    this.client = client;
+    this.name = name;
+    this.toolName = info.name;
+    this.description = info.description ?? info.title ?? info.name;
+    this.schema = info.inputSchema;
+  }
+
+  async execute(input: Record<string, unknown>, context?: ToolContext): Promise<ToolResult> {
+    try {
+      const result = await this.client.callTool(this.toolName, input, context?.signal);
+      if (result.isError) {
+        return { success: false, error: contentText(result) || 'MCP tool call failed' };
+      }
+      return { success: true, data: toolOutput(result) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  toCoreTool(context?: Omit<ToolContext, 'signal'>): Tool {
+    return {
+      ...super.toCoreTool(context),
+      inputSchema: jsonSchema<Record<string, unknown>>(this.schema),
+    };
+  }
+
+  getInputJsonSchema(): Record<string, unknown> {
+    return this.schema;
+  }
+}
+
+/**
+ * Text of a result's text content blocks
+ */
+function contentText(result: McpCallResult): string {
+  return result.content
+    .filter((block) => block.type === 'text')
+    .map((block) => block.text)
+    .join('\n');
+}
+
+/**
+ * Structured content when the server returned it, else the text, else the raw content
+ */
+function toolOutput(result: McpCallResult): unknown {
+  if (result.structuredContent !== undefined) {
+    return result.structuredContent;
+  }
+  if (result.content.every((block) => block.type === 'text')) {
+    return contentText(result);
+  }
+  return result.content;
+}
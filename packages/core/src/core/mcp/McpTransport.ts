@@ -0,0 +1,351 @@
+import { spawn, type ChildProcess } from 'child_process';
+import { createInterface } from 'readline';
+import type { Logger } from '../../utils/logger';
+
+/**
+ * Latest MCP protocol version
+ */
+export const PROTOCOL_VERSION = '2025-06-18';
+
+/**
+ * Protocol versions the client and server can speak
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS = [PROTOCOL_VERSION, '2025-03-26', '2024-11-05'];
+
+/**
+ * JSON-RPC request
+ */
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: number | string;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * JSON-RPC notification (a request that expects no response)
+ */
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * JSON-RPC response
+ */
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: number | string;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+/**
+ * Error from an MCP server or its connection
+ */
+export class McpError extends Error {
+  /** JSON-RPC error code, when the server returned one */
+  readonly code?: number;
+
+  constructor(message: string, code?: number) {
+    super(message);
+    this.name = 'McpError';
+    this.code = code;
+  }
+}
+
+/**
+ * Callbacks a transport reports to
+ */
+export interface TransportHandlers {
+  onMessage(message: JsonRpcMessage): void;
+  /** The connection ended; error is set unless close() was called */
+  onClose(error?: Error): void;
+}
+
+/**
+ * Connection to an MCP server
+ *
+ * A transport can be started again after it closes, which is how clients
+ * reconnect.
+ */
+export interface McpTransport {
+  start(handlers: TransportHandlers): Promise<void>;
+  send(message: JsonRpcMessage): Promise<void>;
+  close(): Promise<void>;
+  /** Protocol version agreed during initialization, for transports that send it */
+  setProtocolVersion?(version: string): void;
+}
+
+/**
+ * Stdio transport options
+ */
+export interface StdioTransportOptions {
+  command: string;
+  args?: string[];
+  /** Added to the current environment */
+  env?: Record<string, string>;
+  cwd?: string;
+  /** Time the server gets to exit after its stdin closes before it is killed (default 2000) */
+  shutdownTimeout?: number;
+  logger?: Logger;
+}
+
+/**
+ * Runs an MCP server as a child process, exchanging newline-delimited
+ * JSON-RPC messages over its stdin and stdout
+ *
+ * The server's stderr is logged at debug level.
+ */
+export class StdioTransport implements McpTransport {
+  private options: StdioTransportOptions;
+  private child?: ChildProcess;
+  private closing = false;
+  private logger?: Logger;
+
+  constructor(options: StdioTransportOptions) {
+    this.options = options;
+    this.logger = options.logger;
+  }
+
+  async start(handlers: TransportHandlers): Promise<void> {
+    const { command, args = [], env, cwd } = this.options;
+    this.closing = false;
+
+    const child = spawn(command, args, {
+      cwd,
+      env: { ...process.env, ...env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    this.child = child;
+
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', resolve);
+      child.once('error', (error) =>
+        reject(new McpError(`Failed to start MCP server "${command}": ${error.message}`))
+      );
+    });
+
+    createInterface({ input: child.stdout! }).on('line', (line) => {
+      if (!line.trim()) return;
+      try {
+        handlers.onMessage(JSON.parse(line) as JsonRpcMessage);
+      } catch {
+        this.logger?.warn('Ignoring invalid message from MCP server', { command, line });
+      }
+    });
+    createInterface({ input: child.stderr! }).on('line', (line) => {
+      this.logger?.debug(`[mcp:${command}] ${line}`);
+    });
+
+    // A server that stops reading fails writes with EPIPE, and a process can
+    // error after spawning; either ends the connection like an exit does
+    let closed = false;
+    const onClose = (error: McpError) => {
+      if (closed) return;
+      closed = true;
+      if (this.child === child) {
+        this.child = undefined;
+      }
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill('SIGTERM');
+      }
+      handlers.onClose(this.closing ? undefined : error);
+    };
+    child.stdin!.on('error', (error) => {
+      onClose(new McpError(`MCP server stopped reading its input: ${error.message}`));
+    });
+    child.on('error', (error) => {
+      onClose(new McpError(`MCP server failed: ${error.message}`));
+    });
+    child.once('exit', (code, signal) => {
+      onClose(new McpError(`MCP server exited (${signal ?? `code ${code}`})`));
+    });
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    const stdin = this.child?.stdin;
+    if (!stdin?.writable) {
+      throw new McpError('MCP server is not running');
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      stdin.write(`${JSON.stringify(message)}\n`, (error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * Stop the server: close its stdin, then signal it if it does not exit
+   */
+  async close(): Promise<void> {
+    const child = this.child;
+    if (!child) {
+      return;
+    }
+    this.closing = true;
+
+    const exited = new Promise<void>((resolve) => child.once('exit', () => resolve()));
+    const timeout = this.options.shutdownTimeout ?? 2000;
+    const waitFor = (ms: number) =>
+      Promise.race([exited.then(() => true), delayed(ms).then(() => false)]);
+
+    child.stdin?.end();
+    if (await waitFor(timeout)) return;
+    child.kill('SIGTERM');
+    if (await waitFor(timeout)) return;
+    child.kill('SIGKILL');
+    await exited;
+  }
+}
+
+/**
+ * Streamable HTTP transport options
+ */
+export interface StreamableHttpTransportOptions {
+  url: string;
+  /** Extra request headers, e.g. Authorization */
+  headers?: Record<string, string>;
+  /** Fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Talks to an MCP server over streamable HTTP
+ *
+ * Each message is POSTed to the endpoint; the server answers with JSON or
+ * with a server-sent event stream. The session ID the server assigns is
+ * sent with every later request, and the session is deleted on close.
+ */
+export class StreamableHttpTransport implements McpTransport {
+  private options: StreamableHttpTransportOptions;
+  private handlers?: TransportHandlers;
+  private sessionId?: string;
+  private protocolVersion?: string;
+  private controller = new AbortController();
+
+  constructor(options: StreamableHttpTransportOptions) {
+    this.options = options;
+  }
+
+  async start(handlers: TransportHandlers): Promise<void> {
+    this.handlers = handlers;
+    this.sessionId = undefined;
+    this.protocolVersion = undefined;
+    this.controller = new AbortController();
+  }
+
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version;
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    const handlers = this.handlers;
+    if (!handlers) {
+      throw new McpError('Transport not started');
+    }
+
+    const fetchFn = this.options.fetch ?? fetch;
+    const response = await fetchFn(this.options.url, {
+      method: 'POST',
+      headers: {
+        ...this.options.headers,
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+        ...this.sessionHeaders(),
+      },
+      body: JSON.stringify(message),
+      signal: this.controller.signal,
+    });
+
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    if (response.status === 404 && this.sessionId) {
+      // The server no longer knows the session; a new one has to be initialized
+      const error = new McpError('MCP session expired');
+      handlers.onClose(error);
+      throw error;
+    }
+    if (!response.ok) {
+      throw new McpError(`MCP server returned HTTP ${response.status}`);
+    }
+    if (response.status === 202 || !response.body) {
+      return;
+    }
+
+    const contentType = response.headers.get('content-type') ?? '';
+    if (contentType.includes('text/event-stream')) {
+      for await (const data of readEventData(response.body)) {
+        handlers.onMessage(JSON.parse(data) as JsonRpcMessage);
+      }
+    } else {
+      const body = (await response.json()) as JsonRpcMessage | JsonRpcMessage[];
+      for (const received of Array.isArray(body) ? body : [body]) {
+        handlers.onMessage(received);
+      }
+    }
+  }
+
+  /**
+   * Abort requests in flight and end the session
+   */
+  async close(): Promise<void> {
+    this.controller.abort(new McpError('Transport closed'));
+    if (this.sessionId) {
+      const fetchFn = this.options.fetch ?? fetch;
+      await fetchFn(this.options.url, {
+        method: 'DELETE',
+        headers: { ...this.options.headers, ...this.sessionHeaders() },
+      }).catch(() => undefined);
+      this.sessionId = undefined;
+    }
+    this.handlers = undefined;
+  }
+
+  private sessionHeaders(): Record<string, string> {
+    return {
+      ...(this.sessionId && { 'mcp-session-id': this.sessionId }),
+      ...(this.protocolVersion && { 'mcp-protocol-version': this.protocolVersion }),
+    };
+  }
+}
+
+/**
+ * Read the data of each event in a server-sent event stream
+ */
+async function* readEventData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+
+  for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+
+      if (line === '') {
+        if (data.length > 0) {
+          yield data.join('\n');
+        }
+        data = [];
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+  }
+
+  if (data.length > 0) {
+    yield data.join('\n');
+  }
+}
+
+function delayed(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms).unref());
+}
@@ -0,0 +1,125 @@
+import type { Message } from '../../agents/types';
+import type { ModelAdapter } from '../model/ModelAdapter';
+import type { UsageLedger } from '../usage/UsageLedger';
+import { generateMetered, type CallAttribution } from '../usage/metered';
+
+/**
+ * Messages removed by the sliding window, handed to a compaction strategy
+ */
+export interface CompactionInput {
+  conversationId: string;
+  /** Messages evicted from the window, oldest first */
+  evicted: Message[];
+  /** The current rolling summary, if any */
+  previousSummary?: string;
+  /** Who the messages were added for; model calls are recorded for them */
+  attribution?: CallAttribution;
+}
+
+/**
+ * Record of a compaction, kept in conversation metadata under `compactions`
+ */
+export interface CompactionRecord {
+  at: string;
+  strategy: string;
+  /** Number of messages folded into the summary */
+  messageCount: number;
+  /** Token count of the resulting summary */
+  summaryTokens: number;
+  /** Set when the strategy failed; the previous summary is kept */
+  error?: string;
+}
+
+/**
+ * Decides what happens to messages evicted by the sliding window
+ *
+ * Returning a summary replaces the rolling summary kept at the top of the
+ * history; returning undefined drops the messages.
+ */
+export interface CompactionStrategy {
+  readonly name: string;
+  compact(input: CompactionInput): string | undefined | Promise<string | undefined>;
+}
+
+/**
+ * Default strategy: evicted messages are dropped
+ */
+export class TruncationStrategy implements CompactionStrategy {
+  readonly name = 'truncate';
+
+  compact(): undefined {
+    return undefined;
+  }
+}
+
+/**
+ * Summarization strategy options
+ */
+export interface SummarizationStrategyOptions {
+  /** Model used to write the summary */
+  model: ModelAdapter;
+  /** Ledger summarizing calls are recorded in */
+  usage?: UsageLedger;
+  /** Maximum output tokens for the summary */
+  maxSummaryTokens?: number;
+  /** System prompt override */
+  systemPrompt?: string;
+}
+
+const DEFAULT_SUMMARY_PROMPT = `You maintain a running summary of a conversation between a user and an AI assistant.
+Merge the earlier summary (if any) with the new messages into a single concise summary.
+Keep decisions, facts, user preferences, open questions and results of tool use.
+Write plain prose without preamble.`;
+
+/**
+ * Folds evicted messages into a rolling summary written by a model
+ */
+export class SummarizationStrategy implements CompactionStrategy {
+  readonly name = 'summarize';
+  private model: ModelAdapter;
+  private usage?: UsageLedger;
+  private maxSummaryTokens: number;
+  private systemPrompt: string;
+
+  constructor(options: SummarizationStrategyOptions) {
+    this.model = options.model;
+    this.usage = options.usage;
+    this.maxSummaryTokens = options.maxSummaryTokens ?? 500;
+    this.systemPrompt = options.systemPrompt ?? DEFAULT_SUMMARY_PROMPT;
+  }
+
+  async compact(input: CompactionInput): Promise<string> {
+    const transcript = input.evicted
+      .map((msg) => `${msg.toolName ? `${msg.role} (${msg.toolName})` : msg.role}: ${msg.content}`)
+      .join('\n');
+
+    const prompt = [
+      input.previousSummary
+        ? `Earlier summary:\n${input.previousSummary}`
+        : 'Earlier summary: (none)',
+      `New messages:\n${transcript}`,
+    ].join('\n\n');
+
+    const result = await generateMetered(
+      this.model,
+      {
+        messages: [{ role: 'user', content: prompt }],
+        systemPrompt: this.systemPrompt,
+        maxTokens: this.maxSummaryTokens,
+      },
+      this.usage,
+      input.attribution
+    );
+
+    return result.text.trim();
+  }
+}
+
+/**
+ * Create a summarization strategy
+ */
+export function createSummarizationStrategy(
+  options: SummarizationStrategyOptions
+): SummarizationStrategy {
+  return new SummarizationStrategy(options);
+}
@@ -0,0 +1,115 @@
+import { embedMany, type EmbeddingModel } from 'ai';
+
+/**
+ * Turns text into vectors for similarity search
+ */
+export interface Embedder {
+  /** Embedder name, recorded with persisted vectors */
+  readonly name: string;
+  /** Length of the vectors produced */
+  readonly dimensions: number;
+  /** Embed a batch of texts, returning one vector per text */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Hashing embedder options
+ */
+export interface HashingEmbedderOptions {
+  /** Vector length (default 256) */
+  dimensions?: number;
+}
+
+/**
+ * FNV-1a 32-bit hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic bag-of-words embedder using feature hashing
+ *
+ * Needs no model or network, so it suits tests and offline use. It only
+ * captures word overlap, not meaning.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly name: string;
+  readonly dimensions: number;
+
+  constructor(options: HashingEmbedderOptions = {}) {
+    this.dimensions = options.dimensions ?? 256;
+    this.name = `hashing-${this.dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+    for (const word of words) {
+      const hash = fnv1a(word);
+      // The top bit picks the sign so collisions tend to cancel out
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+}
+
+/**
+ * Model embedder options
+ */
+export interface ModelEmbedderOptions {
+  /** AI SDK embedding model, e.g. openai.textEmbeddingModel('text-embedding-3-small') */
+  model: Exclude<EmbeddingModel<string>, string>;
+  /** Vector length produced by the model */
+  dimensions: number;
+}
+
+/**
+ * Embedder backed by an AI SDK embedding model
+ */
+export class ModelEmbedder implements Embedder {
+  readonly name: string;
+  readonly dimensions: number;
+  private model: Exclude<EmbeddingModel<string>, string>;
+
+  constructor(options: ModelEmbedderOptions) {
+    this.model = options.model;
+    this.dimensions = options.dimensions;
+    this.name = `${this.model.provider}:${this.model.modelId}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const { embeddings } = await embedMany({ model: this.model, values: texts });
+    return embeddings;
+  }
+}
+
+/**
+ * Cosine similarity of two vectors of equal length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
@@ -0,0 +1,185 @@
+import { createHash } from 'crypto';
+import type { Message } from '../../agents/types';
+import type { Embedder } from './Embedder';
+import { VectorIndex } from './VectorIndex';
+
+/**
+ * Kind of long-term memory record
+ */
+export type LongTermRecordKind = 'message' | 'fact';
+
+/**
+ * A remembered message or fact
+ */
+export interface LongTermRecord {
+  kind: LongTermRecordKind;
+  text: string;
+  conversationId?: string;
+  role?: Message['role'];
+  createdAt: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * A recalled record with its similarity to the query
+ */
+export interface RecallResult extends LongTermRecord {
+  id: string;
+  score: number;
+}
+
+/**
+ * Recall filters
+ */
+export interface RecallOptions {
+  /** Only recall records from this conversation */
+  conversationId?: string;
+  /** Only recall records of this kind */
+  kind?: LongTermRecordKind;
+  /** Minimum similarity (overrides the default) */
+  minScore?: number;
+  /** Leave out records this returns true for, before the top k are taken */
+  exclude?: (record: LongTermRecord) => boolean;
+}
+
+/**
+ * Long-term memory options
+ */
+export interface LongTermMemoryOptions {
+  /** Embedding function */
+  embedder: Embedder;
+  /** JSON-lines file for the vector index; in-process only when omitted */
+  path?: string;
+  /** Default number of results returned by recall (default 5) */
+  recallLimit?: number;
+  /** Minimum similarity for a record to be recalled (default 0.2) */
+  minScore?: number;
+}
+
+/**
+ * Long-term semantic memory
+ *
+ * Indexes past messages and arbitrary facts by embedding, so relevant
+ * context can be recalled long after it has left the conversation window.
+ */
+export class LongTermMemory {
+  private embedder: Embedder;
+  private index: VectorIndex<LongTermRecord>;
+  private recallLimit: number;
+  private minScore: number;
+
+  constructor(options: LongTermMemoryOptions) {
+    this.embedder = options.embedder;
+    this.index = new VectorIndex<LongTermRecord>({
+      dimensions: options.embedder.dimensions,
+      embedder: options.embedder.name,
+      path: options.path,
+    });
+    this.recallLimit = options.recallLimit ?? 5;
+    this.minScore = options.minScore ?? 0.2;
+  }
+
+  /**
+   * Number of remembered records
+   */
+  get size(): number {
+    return this.index.size;
+  }
+
+  /**
+   * Remember a fact
+   *
+   * @returns The record ID
+   */
+  async remember(
+    text: string,
+    options: { conversationId?: string; metadata?: Record<string, unknown> } = {}
+  ): Promise<string> {
+    const id = `fact-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+    await this.add(id, {
+      kind: 'fact',
+      text,
+      conversationId: options.conversationId,
+      createdAt: new Date().toISOString(),
+      metadata: options.metadata,
+    });
+    return id;
+  }
+
+  /**
+   * Index a conversation message
+   *
+   * Only user and assistant messages with content are indexed. The same
+   * message indexed twice is stored once.
+   *
+   * @returns The record ID, or undefined if the message was skipped
+   */
+  async indexMessage(conversationId: string, message: Message): Promise<string | undefined> {
+    if ((message.role !== 'user' && message.role !== 'assistant') || !message.content.trim()) {
+      return undefined;
+    }
+
+    const id = `msg-${createHash('sha1')
+      .update(`${conversationId}\0${message.role}\0${message.content}`)
+      .digest('hex')
+      .slice(0, 16)}`;
+    await this.add(id, {
+      kind: 'message',
+      text: message.content,
+      conversationId,
+      role: message.role,
+      createdAt: message.timestamp.toISOString(),
+    });
+    return id;
+  }
+
+  /**
+   * Recall the records most relevant to a query
+   */
+  async recall(query: string, k?: number, options: RecallOptions = {}): Promise<RecallResult[]> {
+    if (!query.trim() || this.index.size === 0) {
+      return [];
+    }
+
+    const [vector] = await this.embedder.embed([query]);
+    const minScore = options.minScore ?? this.minScore;
+
+    return this.index
+      .search(
+        vector,
+        k ?? this.recallLimit,
+        (record) =>
+          (!options.conversationId || record.conversationId === options.conversationId) &&
+          (!options.kind || record.kind === options.kind) &&
+          !options.exclude?.(record)
+      )
+      .filter((match) => match.score >= minScore)
+      .map((match) => ({ ...match.data, id: match.id, score: match.score }));
+  }
+
+  /**
+   * Forget a record
+   */
+  forget(id: string): boolean {
+    return this.index.remove(id);
+  }
+
+  /**
+   * Forget everything
+   */
+  clear(): void {
+    this.index.clear();
+  }
+
+  private async add(id: string, record: LongTermRecord): Promise<void> {
+    const [vector] = await this.embedder.embed([record.text]);
+    this.index.add([{ id, vector, data: record }]);
+  }
+}
+
+/**
+ * Create a long-term memory
+ */
+export function createLongTermMemory(options: LongTermMemoryOptions): LongTermMemory {
+  return new LongTermMemory(options);
+}
@@ -1,4 +1,13 @@
-import type { Message } from '../../agents/types';
+import { asSchema, type Tool } from 'ai';
+import type { Message, ModelConfig } from '../../agents/types';
+import { CharacterTokenizer, getTokenizerForModel, type Tokenizer } from '../tokenizer/Tokenizer';
+import type { MemoryStore } from './MemoryStore';
+import type { CallAttribution } from '../usage/metered';
+import {
+  TruncationStrategy,
+  type CompactionRecord,
+  type CompactionStrategy,
+} from './CompactionStrategy';
 
 /**
  * Memory options
@@ -8,8 +17,28 @@ export interface MemoryOptions {
   maxMessages?: number;
   /** Maximum total tokens to estimate for context window */
   maxTokens?: number;
-  /** Average tokens per character for estimation */
+  /** Average tokens per character for estimation (when no tokenizer is set) */
   tokensPerChar?: number;
+  /** Tokenizer for context accounting */
+  tokenizer?: Tokenizer;
+  /** Model whose tokenizer to use when no tokenizer is given */
+  model?: ModelConfig;
+  /** Persistent backend; conversations and variables are written through to it */
+  store?: MemoryStore;
+  /** What happens to messages evicted by the sliding window (defaults to truncation) */
+  compaction?: CompactionStrategy;
+}
+
+/**
+ * Content sent to the model alongside the conversation history
+ */
+export interface ContextOverhead {
+  /** System prompt */
+  systemPrompt?: string;
+  /** Tools whose schemas are sent with the request */
+  tools?: Record<string, Tool>;
+  /** Additional messages sent with the request, such as recalled context */
+  messages?: Message[];
 }
 
 /**
@@ -20,38 +49,62 @@ interface ConversationEntry {
   createdAt: Date;
   updatedAt: Date;
   metadata: Record<string, unknown>;
+  /** Pending compaction, if a strategy is still summarizing */
+  compaction?: Promise<void>;
+  /** Bumped when history is reset, so stale compactions are discarded */
+  resets: number;
 }
 
 /**
  * Memory system for managing conversation history and context
  *
  * Provides sliding window management for keeping conversation
- * history within context limits.
+ * history within context limits. With a store configured, changes are
+ * persisted and conversations are loaded on first access, so a new
+ * process can resume a conversation by ID.
+ *
+ * Evicted messages are dropped by default. A compaction strategy can fold
+ * them into a rolling summary instead; the summary lives in the
+ * `summary` metadata key and is returned at the top of the history.
  */
 export class Memory {
   private conversations = new Map<string, ConversationEntry>();
   private variables = new Map<string, unknown>();
   private maxMessages: number;
   private maxTokens: number;
-  private tokensPerChar: number;
+  private tokenizer: Tokenizer;
+  private store?: MemoryStore;
+  private compaction: CompactionStrategy;
+  private resetListeners = new Set<(conversationId: string) => void>();
 
   constructor(options: MemoryOptions = {}) {
     this.maxMessages = options.maxMessages ?? 100;
     this.maxTokens = options.maxTokens ?? 8000;
-    this.tokensPerChar = options.tokensPerChar ?? 0.25; // Rough estimate
+    this.tokenizer =
+      options.tokenizer ??
+      (options.model
+        ? getTokenizerForModel(options.model)
+        : new CharacterTokenizer(options.tokensPerChar ?? 0.25)); // Rough estimate
+    this.store = options.store;
+    this.compaction = options.compaction ?? new TruncationStrategy();
+
+    if (this.store) {
+      this.variables = new Map(Object.entries(this.store.loadVariables()));
+    }
   }
 
   /**
    * Get or create a conversation
    */
   getConversation(conversationId: string): ConversationEntry {
-    let entry = this.conversations.get(conversationId);
+    let entry = this.findConversation(conversationId);
     if (!entry) {
       entry = {
         messages: [],
         createdAt: new Date(),
         updatedAt: new Date(),
         metadata: {},
+        resets: 0,
       };
       this.conversations.set(conversationId, entry);
     }
@@ -60,51 +113,82 @@ export class Memory {
 
   /**
    * Add a message to conversation history
+   *
+   * @param attribution Who any compaction the message triggers is recorded for
    */
-  addMessage(conversationId: string, message: Message): void {
+  addMessage(conversationId: string, message: Message, attribution?: CallAttribution): void {
     const entry = this.getConversation(conversationId);
     entry.messages.push(message);
     entry.updatedAt = new Date();
+    this.store?.appendMessages(conversationId, [message]);
 
     // Apply sliding window if needed
-    this.applySlidingWindow(entry);
+    const evicted = this.applySlidingWindow(entry);
+    this.store?.removeOldestMessages(conversationId, evicted.length);
+    this.compactEvicted(conversationId, entry, evicted, attribution);
   }
 
   /**
    * Add multiple messages to conversation history
+   *
+   * @param attribution Who any compaction the messages trigger is recorded for
    */
-  addMessages(conversationId: string, messages: Message[]): void {
+  addMessages(conversationId: string, messages: Message[], attribution?: CallAttribution): void {
     const entry = this.getConversation(conversationId);
     entry.messages.push(...messages);
     entry.updatedAt = new Date();
+    this.store?.appendMessages(conversationId, messages);
 
     // Apply sliding window if needed
-    this.applySlidingWindow(entry);
+    const evicted = this.applySlidingWindow(entry);
+    this.store?.removeOldestMessages(conversationId, evicted.length);
+    this.compactEvicted(conversationId, entry, evicted, attribution);
   }
 
   /**
-   * Get conversation history
+   * Get conversation history, starting with the rolling summary if there is one
    */
   getHistory(conversationId: string): Message[] {
-    const entry = this.conversations.get(conversationId);
-    return entry ? [...entry.messages] : [];
+    const entry = this.findConversation(conversationId);
+    if (!entry) return [];
+
+    const summary = this.getSummaryMessage(entry);
+    return summary ? [summary, ...entry.messages] : [...entry.messages];
   }
 
   /**
    * Get recent messages within token limit
+   *
+   * The system prompt and tool schemas in `overhead` are counted against
+   * the limit, leaving the rest for history.
    */
-  getRecentMessages(conversationId: string, tokenLimit?: number): Message[] {
-    const entry = this.conversations.get(conversationId);
+  getRecentMessages(
+    conversationId: string,
+    tokenLimit?: number,
+    overhead?: ContextOverhead
+  ): Message[] {
+    const entry = this.findConversation(conversationId);
     if (!entry) return [];
 
-    const limit = tokenLimit ?? this.maxTokens;
+    let limit = (tokenLimit ?? this.maxTokens) - this.countContextTokens(overhead);
     const messages: Message[] = [];
     let totalTokens = 0;
 
+    // The summary stands in for everything evicted, so it is kept first
+    let summary = this.getSummaryMessage(entry);
+    if (summary) {
+      const summaryTokens = this.countMessageTokens(summary);
+      if (summaryTokens <= limit) {
+        limit -= summaryTokens;
+      } else {
+        summary = undefined;
+      }
+    }
+
     // Start from most recent and work backwards
     for (let i = entry.messages.length - 1; i >= 0; i--) {
       const msg = entry.messages[i];
-      const tokens = this.estimateTokens(msg.content);
+      const tokens = this.countMessageTokens(msg);
 
       if (totalTokens + tokens > limit) {
         break;
@@ -114,32 +198,83 @@ export class Memory {
       totalTokens += tokens;
     }
 
-    return messages;
+    return summary ? [summary, ...messages] : messages;
+  }
+
+  /**
+   * Wait for pending compactions to finish
+   *
+   * Call before reading history so it includes the latest summary.
+   */
+  async waitForCompaction(conversationId?: string): Promise<void> {
+    const entries = conversationId
+      ? [this.conversations.get(conversationId)]
+      : Array.from(this.conversations.values());
+
+    for (const entry of entries) {
+      while (entry?.compaction) {
+        await entry.compaction;
+      }
+    }
   }
 
   /**
    * Clear conversation history
    */
   clearHistory(conversationId: string): void {
-    const entry = this.conversations.get(conversationId);
+    const entry = this.findConversation(conversationId);
     if (entry) {
       entry.messages = [];
       entry.updatedAt = new Date();
+      entry.resets++;
+      delete entry.metadata.summary;
+      this.store?.replaceConversation(conversationId, [], entry.metadata);
     }
+    this.notifyReset(conversationId);
   }
 
   /**
    * Delete a conversation
    */
   deleteConversation(conversationId: string): boolean {
-    return this.conversations.delete(conversationId);
+    const entry = this.conversations.get(conversationId);
+    if (entry) {
+      entry.resets++;
+    }
+    const deleted = this.conversations.delete(conversationId);
+    const stored = this.store?.deleteConversation(conversationId) ?? false;
+    this.notifyReset(conversationId);
+    return deleted || stored;
+  }
+
+  /**
+   * Be told when a conversation's history is cleared, the conversation
+   * deleted, or the whole memory cleared
+   *
+   * Lets state kept per conversation elsewhere, such as budgets, be dropped with it.
+   *
+   * @returns A function that stops the notifications
+   */
+  onReset(listener: (conversationId: string) => void): () => void {
+    this.resetListeners.add(listener);
+    return () => this.resetListeners.delete(listener);
+  }
+
+  private notifyReset(conversationId: string): void {
+    for (const listener of this.resetListeners) {
+      listener(conversationId);
+    }
   }
 
   /**
    * Get all conversation IDs
    */
   getConversationIds(): string[] {
-    return Array.from(this.conversations.keys());
+    const ids = new Set(this.conversations.keys());
+    for (const id of this.store?.listConversations() ?? []) {
+      ids.add(id);
+    }
+    return Array.from(ids);
   }
 
   /**
@@ -149,13 +284,14 @@ export class Memory {
     const entry = this.getConversation(conversationId);
     entry.metadata[key] = value;
     entry.updatedAt = new Date();
+    this.store?.setMetadata(conversationId, key, value);
   }
 
   /**
    * Get conversation metadata
    */
   getMetadata(conversationId: string, key: string): unknown {
-    const entry = this.conversations.get(conversationId);
+    const entry = this.findConversation(conversationId);
     return entry?.metadata[key];
   }
 
@@ -164,6 +300,7 @@ export class Memory {
    */
   setVariable(key: string, value: unknown): void {
     this.variables.set(key, value);
+    this.store?.setVariable(key, value);
   }
 
   /**
@@ -177,6 +314,7 @@ export class Memory {
    * Delete a global variable
    */
   deleteVariable(key: string): boolean {
+    this.store?.deleteVariable(key);
     return this.variables.delete(key);
   }
 
@@ -192,46 +330,229 @@ export class Memory {
    */
   clearVariables(): void {
     this.variables.clear();
+    this.store?.clearVariables();
+  }
+
+  /**
+   * Get the tokenizer used for context accounting
+   */
+  getTokenizer(): Tokenizer {
+    return this.tokenizer;
   }
 
   /**
    * Estimate token count for a string
    */
   estimateTokens(text: string): number {
-    return Math.ceil(text.length * this.tokensPerChar);
+    return this.tokenizer.count(text);
+  }
+
+  /**
+   * Count the tokens a message takes up in a request
+   */
+  countMessageTokens(message: Message): number {
+    let tokens = this.tokenizer.count(message.content) + this.tokenizer.messageOverhead;
+    if (message.toolName) {
+      tokens += this.tokenizer.count(message.toolName);
+    }
+    if (message.toolCalls?.length) {
+      tokens += this.tokenizer.count(JSON.stringify(message.toolCalls));
+    }
+    return tokens;
+  }
+
+  /**
+   * Count the tokens taken by the system prompt, tool schemas and extra messages
+   */
+  countContextTokens(overhead: ContextOverhead = {}): number {
+    let tokens = 0;
+
+    if (overhead.systemPrompt) {
+      tokens += this.tokenizer.count(overhead.systemPrompt) + this.tokenizer.messageOverhead;
+    }
+
+    for (const message of overhead.messages ?? []) {
+      tokens += this.countMessageTokens(message);
+    }
+
+    for (const [name, tool] of Object.entries(overhead.tools ?? {})) {
+      const schema = tool.inputSchema ? asSchema(tool.inputSchema).jsonSchema : {};
+      tokens += this.tokenizer.count(
+        JSON.stringify({ name, description: tool.description ?? '', parameters: schema })
+      );
+    }
+
+    return tokens;
   }
 
   /**
    * Get total estimated tokens for a conversation
    */
   getConversationTokens(conversationId: string): number {
-    const entry = this.conversations.get(conversationId);
+    const entry = this.findConversation(conversationId);
     if (!entry) return 0;
 
-    return entry.messages.reduce((sum, msg) => sum + this.estimateTokens(msg.content), 0);
+    return this.getHistory(conversationId).reduce(
+      (sum, msg) => sum + this.countMessageTokens(msg),
+      0
+    );
   }
 
   /**
    * Apply sliding window to keep messages within limits
+   *
+   * @returns The evicted messages, oldest first
    */
-  private applySlidingWindow(entry: ConversationEntry): void {
+  private applySlidingWindow(entry: ConversationEntry): Message[] {
+    const evictCount = Math.max(0, entry.messages.length - this.maxMessages);
+
     // Remove oldest messages if over count limit
-    while (entry.messages.length > this.maxMessages) {
-      entry.messages.shift();
-    }
+    const evicted = entry.messages.splice(0, evictCount);
 
     // Remove oldest messages if over token limit
-    let totalTokens = entry.messages.reduce(
-      (sum, msg) => sum + this.estimateTokens(msg.content),
-      0
-    );
+    let totalTokens = entry.messages.reduce((sum, msg) => sum + this.countMessageTokens(msg), 0);
 
     while (totalTokens > this.maxTokens && entry.messages.length > 1) {
       const removed = entry.messages.shift();
       if (removed) {
-        totalTokens -= this.estimateTokens(removed.content);
+        totalTokens -= this.countMessageTokens(removed);
+        evicted.push(removed);
+      }
+    }
+
+    return evicted;
+  }
+
+  /**
+   * Hand evicted messages to the compaction strategy
+   *
+   * Strategies that return a promise run in the background, one at a time
+   * per conversation, so each sees the summary produced by the previous one.
+   */
+  private compactEvicted(
+    conversationId: string,
+    entry: ConversationEntry,
+    evicted: Message[],
+    attribution?: CallAttribution
+  ): void {
+    if (evicted.length === 0) return;
+
+    const resets = entry.resets;
+    const run = (): Promise<void> | void => {
+      if (entry.resets !== resets) return;
+
+      let result: ReturnType<CompactionStrategy['compact']>;
+      try {
+        result = this.compaction.compact({
+          conversationId,
+          evicted,
+          previousSummary: entry.metadata.summary as string | undefined,
+          attribution,
+        });
+      } catch (error) {
+        this.applyCompaction(conversationId, entry, evicted, undefined, error);
+        return;
+      }
+
+      if (!(result instanceof Promise)) {
+        this.applyCompaction(conversationId, entry, evicted, result);
+        return;
+      }
+
+      return result.then(
+        (summary) => {
+          if (entry.resets === resets) {
+            this.applyCompaction(conversationId, entry, evicted, summary);
+          }
+        },
+        (error: unknown) => {
+          if (entry.resets === resets) {
+            this.applyCompaction(conversationId, entry, evicted, undefined, error);
+          }
+        }
+      );
+    };
+
+    const pending = entry.compaction ? entry.compaction.then(run) : run();
+    if (pending) {
+      const tracked: Promise<void> = pending.finally(() => {
+        if (entry.compaction === tracked) {
+          entry.compaction = undefined;
+        }
+      });
+      // Failures surface through waitForCompaction(), not as unhandled rejections
+      tracked.catch(() => undefined);
+      entry.compaction = tracked;
+    }
+  }
+
+  /**
+   * Store a new summary and record the compaction in metadata
+   */
+  private applyCompaction(
+    conversationId: string,
+    entry: ConversationEntry,
+    evicted: Message[],
+    summary: string | undefined,
+    error?: unknown
+  ): void {
+    // Nothing to record when messages are simply dropped
+    if (summary === undefined && error === undefined) return;
+
+    if (summary !== undefined) {
+      this.setMetadata(conversationId, 'summary', summary);
+    }
+
+    const record: CompactionRecord = {
+      at: new Date().toISOString(),
+      strategy: this.compaction.name,
+      messageCount: evicted.length,
+      summaryTokens: this.estimateTokens((entry.metadata.summary as string | undefined) ?? ''),
+    };
+    if (error !== undefined) {
+      record.error = error instanceof Error ? error.message : String(error);
+    }
+
+    const records = (entry.metadata.compactions as CompactionRecord[] | undefined) ?? [];
+    this.setMetadata(conversationId, 'compactions', [...records, record]);
+  }
+
+  /**
+   * Build the summary message shown at the top of the history
+   */
+  private getSummaryMessage(entry: ConversationEntry): Message | undefined {
+    const summary = entry.metadata.summary;
+    if (typeof summary !== 'string' || !summary) return undefined;
+
+    const records = entry.metadata.compactions as CompactionRecord[] | undefined;
+    const at = records?.[records.length - 1]?.at;
+
+    return {
+      role: 'system',
+      content: `Summary of the earlier conversation:\n${summary}`,
+      timestamp: at ? new Date(at) : entry.updatedAt,
+    };
+  }
+
+  /**
+   * Look up a conversation in process, loading it from the store if needed
+   */
+  private findConversation(conversationId: string): ConversationEntry | undefined {
+    let entry = this.conversations.get(conversationId);
+    if (!entry && this.store) {
+      const stored = this.store.loadConversation(conversationId);
+      if (stored) {
+        entry = {
+          messages: stored.messages,
+          createdAt: stored.createdAt,
+          updatedAt: stored.updatedAt,
+          metadata: stored.metadata,
+          resets: 0,
+        };
+        this.conversations.set(conversationId, entry);
       }
     }
+    return entry;
   }
 
   /**
@@ -242,20 +563,22 @@ export class Memory {
     totalMessages: number;
     totalEstimatedTokens: number;
     variableCount: number;
+    tokenizer: string;
   } {
     let totalMessages = 0;
     let totalTokens = 0;
 
     for (const entry of this.conversations.values()) {
       totalMessages += entry.messages.length;
-      totalTokens += entry.messages.reduce((sum, msg) => sum + this.estimateTokens(msg.content), 0);
+      totalTokens += entry.messages.reduce((sum, msg) => sum + this.countMessageTokens(msg), 0);
     }
 
     return {
-      conversationCount: this.conversations.size,
+      conversationCount: this.getConversationIds().length,
       totalMessages,
       totalEstimatedTokens: totalTokens,
       variableCount: this.variables.size,
+      tokenizer: this.tokenizer.name,
     };
   }
 
@@ -263,7 +586,7 @@ export class Memory {
    * Export conversation as JSON
    */
   exportConversation(conversationId: string): string | null {
-    const entry = this.conversations.get(conversationId);
+    const entry = this.findConversation(conversationId);
     if (!entry) return null;
 
     return JSON.stringify({
@@ -285,6 +608,7 @@ export class Memory {
     };
 
     const entry = this.getConversation(conversationId);
+    entry.resets++;
     entry.messages = data.messages.map((msg) => ({
       ...msg,
       timestamp: new Date(msg.timestamp),
@@ -293,14 +617,23 @@ export class Memory {
     entry.updatedAt = new Date();
 
     this.applySlidingWindow(entry);
+    this.store?.replaceConversation(conversationId, entry.messages, entry.metadata);
   }
 
   /**
    * Clear all memory
    */
   clear(): void {
+    const conversationIds = this.getConversationIds();
+    for (const entry of this.conversations.values()) {
+      entry.resets++;
+    }
     this.conversations.clear();
     this.variables.clear();
+    this.store?.clear();
+    for (const conversationId of conversationIds) {
+      this.notifyReset(conversationId);
+    }
   }
 }
 
@@ -0,0 +1,78 @@
+import type { Message } from '../../agents/types';
+
+/**
+ * Conversation as persisted by a store
+ */
+export interface StoredConversation {
+  conversationId: string;
+  messages: Message[];
+  metadata: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Persistence backend for Memory
+ *
+ * Memory keeps loaded conversations in process and writes every change
+ * through to the store, so the store API is synchronous and expressed as
+ * the operations Memory performs. Conversations are loaded lazily the
+ * first time a conversation ID is accessed, which lets a new process
+ * resume a conversation by ID.
+ */
+export interface MemoryStore {
+  /** Load a conversation, or undefined if it has never been stored */
+  loadConversation(conversationId: string): StoredConversation | undefined;
+  /** List stored conversation IDs */
+  listConversations(): string[];
+  /** Append messages to the end of a conversation, creating it if needed */
+  appendMessages(conversationId: string, messages: Message[]): void;
+  /** Drop the oldest messages (sliding window eviction) */
+  removeOldestMessages(conversationId: string, count: number): void;
+  /** Replace all messages and metadata of a conversation */
+  replaceConversation(
+    conversationId: string,
+    messages: Message[],
+    metadata: Record<string, unknown>
+  ): void;
+  /** Set a conversation metadata value */
+  setMetadata(conversationId: string, key: string, value: unknown): void;
+  /** Delete a conversation */
+  deleteConversation(conversationId: string): boolean;
+
+  /** Load all global variables */
+  loadVariables(): Record<string, unknown>;
+  /** Set a global variable */
+  setVariable(key: string, value: unknown): void;
+  /** Delete a global variable */
+  deleteVariable(key: string): void;
+  /** Delete all global variables */
+  clearVariables(): void;
+
+  /** Delete all conversations and variables */
+  clear(): void;
+}
+
+/**
+ * Error thrown when a store cannot read or write its backing storage
+ */
+export class MemoryStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MemoryStoreError';
+  }
+}
+
+/**
+ * Serialize a message for storage (dates become ISO strings)
+ */
+export function serializeMessage(message: Message): Record<string, unknown> {
+  return { ...message, timestamp: message.timestamp.toISOString() };
+}
+
+/**
+ * Restore a message read from storage
+ */
+export function deserializeMessage(data: Record<string, unknown>): Message {
+  return { ...data, timestamp: new Date(data.timestamp as string) } as Message;
+}
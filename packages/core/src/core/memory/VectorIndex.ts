@@ -0,0 +1,224 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { cosineSimilarity } from './Embedder';
+
+/**
+ * An indexed vector with its payload
+ */
+export interface VectorEntry<T> {
+  id: string;
+  vector: number[];
+  data: T;
+}
+
+/**
+ * Search hit
+ */
+export interface VectorMatch<T> {
+  id: string;
+  score: number;
+  data: T;
+}
+
+/**
+ * Vector index options
+ */
+export interface VectorIndexOptions {
+  /** Vector length; every entry must match */
+  dimensions: number;
+  /** Name of the embedder that produced the vectors, checked when loading */
+  embedder?: string;
+  /** JSON-lines file to persist to; the index is in-process only when omitted */
+  path?: string;
+  /** Rewrite the file on load once it holds this many superseded records */
+  compactThreshold?: number;
+}
+
+/**
+ * A line in the index file
+ */
+type IndexRecord<T> =
+  | { type: 'header'; dimensions: number; embedder?: string }
+  | { type: 'add'; id: string; vector: number[]; data: T }
+  | { type: 'remove'; id: string };
+
+/**
+ * Error thrown when the index file is unreadable or built for other vectors
+ */
+export class VectorIndexError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VectorIndexError';
+  }
+}
+
+/**
+ * In-process vector index with brute-force cosine similarity search
+ *
+ * With a path, every change is appended to a JSON-lines file and the
+ * index is rebuilt from it on construction.
+ */
+export class VectorIndex<T = Record<string, unknown>> {
+  private entries = new Map<string, VectorEntry<T>>();
+  private dimensions: number;
+  private embedder?: string;
+  private path?: string;
+
+  constructor(options: VectorIndexOptions) {
+    this.dimensions = options.dimensions;
+    this.embedder = options.embedder;
+    this.path = options.path;
+
+    if (this.path) {
+      mkdirSync(dirname(this.path), { recursive: true });
+      if (existsSync(this.path)) {
+        const superseded = this.load(this.path);
+        if (superseded > (options.compactThreshold ?? 500)) {
+          this.rewrite();
+        }
+      } else {
+        this.rewrite();
+      }
+    }
+  }
+
+  /**
+   * Number of indexed entries
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Add entries, replacing any with the same ID
+   */
+  add(entries: VectorEntry<T>[]): void {
+    for (const entry of entries) {
+      if (entry.vector.length !== this.dimensions) {
+        throw new VectorIndexError(
+          `Vector for ${entry.id} has ${entry.vector.length} dimensions, expected ${this.dimensions}`
+        );
+      }
+    }
+
+    for (const entry of entries) {
+      this.entries.set(entry.id, entry);
+    }
+    this.append(entries.map((entry) => ({ type: 'add', ...entry })));
+  }
+
+  /**
+   * Get an entry by ID
+   */
+  get(id: string): VectorEntry<T> | undefined {
+    return this.entries.get(id);
+  }
+
+  /**
+   * Remove an entry
+   */
+  remove(id: string): boolean {
+    if (!this.entries.delete(id)) {
+      return false;
+    }
+    this.append([{ type: 'remove', id }]);
+    return true;
+  }
+
+  /**
+   * Find the k entries most similar to a vector
+   */
+  search(vector: number[], k: number, filter?: (data: T) => boolean): VectorMatch<T>[] {
+    const matches: VectorMatch<T>[] = [];
+
+    for (const entry of this.entries.values()) {
+      if (filter && !filter(entry.data)) continue;
+      matches.push({
+        id: entry.id,
+        score: cosineSimilarity(vector, entry.vector),
+        data: entry.data,
+      });
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.entries.clear();
+    if (this.path) {
+      this.rewrite();
+    }
+  }
+
+  /**
+   * Replay the index file
+   *
+   * @returns The number of records that no longer contribute an entry
+   */
+  private load(path: string): number {
+    const lines = readFileSync(path, 'utf8').split('\n');
+    let records = 0;
+
+    for (const [index, line] of lines.entries()) {
+      if (!line.trim()) continue;
+
+      let record: IndexRecord<T>;
+      try {
+        record = JSON.parse(line) as IndexRecord<T>;
+      } catch {
+        // A torn final line from an interrupted write is skipped; anything else is corruption
+        if (index < lines.length - 1) {
+          throw new VectorIndexError(`Corrupt record at ${path}:${index + 1}`);
+        }
+        continue;
+      }
+
+      records++;
+      switch (record.type) {
+        case 'header':
+          if (record.dimensions !== this.dimensions) {
+            throw new VectorIndexError(
+              `${path} holds ${record.dimensions}-dimensional vectors, expected ${this.dimensions}`
+            );
+          }
+          if (this.embedder && record.embedder && record.embedder !== this.embedder) {
+            throw new VectorIndexError(
+              `${path} was built with embedder ${record.embedder}, not ${this.embedder}`
+            );
+          }
+          break;
+        case 'add':
+          this.entries.set(record.id, { id: record.id, vector: record.vector, data: record.data });
+          break;
+        case 'remove':
+          this.entries.delete(record.id);
+          break;
+      }
+    }
+
+    return records - this.entries.size - 1;
+  }
+
+  private append(records: IndexRecord<T>[]): void {
+    if (!this.path || records.length === 0) return;
+    appendFileSync(this.path, records.map((r) => JSON.stringify(r)).join('\n') + '\n');
+  }
+
+  /**
+   * Write the current entries as a fresh file
+   */
+  private rewrite(): void {
+    if (!this.path) return;
+
+    const records: IndexRecord<T>[] = [
+      { type: 'header', dimensions: this.dimensions, embedder: this.embedder },
+      ...Array.from(this.entries.values(), (entry) => ({ type: 'add' as const, ...entry })),
+    ];
+    const tmpPath = `${this.path}.tmp`;
+    writeFileSync(tmpPath, records.map((r) => JSON.stringify(r)).join('\n') + '\n');
+    renameSync(tmpPath, this.path);
+  }
+}
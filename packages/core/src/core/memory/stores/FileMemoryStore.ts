@@ -0,0 +1,254 @@
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import { join } from 'path';
+import type { Message } from '../../../agents/types';
+import {
+  MemoryStoreError,
+  deserializeMessage,
+  serializeMessage,
+  type MemoryStore,
+  type StoredConversation,
+} from '../MemoryStore';
+
+/**
+ * File store options
+ */
+export interface FileMemoryStoreOptions {
+  /** Directory holding the conversation files */
+  directory: string;
+  /**
+   * Rewrite a conversation file on load once it holds this many more
+   * records than live messages (evicted messages, metadata updates)
+   */
+  compactThreshold?: number;
+}
+
+/**
+ * A line in a conversation file
+ */
+type FileRecord =
+  | { type: 'create'; at: string }
+  | { type: 'message'; at: string; message: Record<string, unknown> }
+  | { type: 'evict'; at: string; count: number }
+  | { type: 'metadata'; at: string; key: string; value: unknown }
+  | {
+      type: 'replace';
+      at: string;
+      messages: Record<string, unknown>[];
+      metadata: Record<string, unknown>;
+    };
+
+const EXTENSION = '.jsonl';
+
+/**
+ * File-backed memory store using append-only JSON-lines files
+ *
+ * Each conversation lives in its own `<id>.jsonl` file. Every change is
+ * appended as a record, and the conversation is rebuilt by replaying the
+ * records on load. Global variables are kept in `variables.json`.
+ */
+export class FileMemoryStore implements MemoryStore {
+  private conversationsDir: string;
+  private variablesPath: string;
+  private compactThreshold: number;
+
+  constructor(options: FileMemoryStoreOptions) {
+    this.conversationsDir = join(options.directory, 'conversations');
+    this.variablesPath = join(options.directory, 'variables.json');
+    this.compactThreshold = options.compactThreshold ?? 200;
+    mkdirSync(this.conversationsDir, { recursive: true });
+  }
+
+  loadConversation(conversationId: string): StoredConversation | undefined {
+    const path = this.getPath(conversationId);
+    if (!existsSync(path)) {
+      return undefined;
+    }
+
+    const records = this.readRecords(path);
+    const conversation: StoredConversation = {
+      conversationId,
+      messages: [],
+      metadata: {},
+      createdAt: new Date(records[0]?.at ?? Date.now()),
+      updatedAt: new Date(records[records.length - 1]?.at ?? Date.now()),
+    };
+
+    for (const record of records) {
+      switch (record.type) {
+        case 'message':
+          conversation.messages.push(deserializeMessage(record.message));
+          break;
+        case 'evict':
+          conversation.messages.splice(0, record.count);
+          break;
+        case 'metadata':
+          conversation.metadata[record.key] = record.value;
+          break;
+        case 'replace':
+          conversation.messages = record.messages.map(deserializeMessage);
+          conversation.metadata = record.metadata;
+          break;
+      }
+    }
+
+    if (records.length - conversation.messages.length > this.compactThreshold) {
+      this.compact(conversation);
+    }
+
+    return conversation;
+  }
+
+  listConversations(): string[] {
+    return readdirSync(this.conversationsDir)
+      .filter((name) => name.endsWith(EXTENSION))
+      .map((name) => decodeURIComponent(name.slice(0, -EXTENSION.length)));
+  }
+
+  appendMessages(conversationId: string, messages: Message[]): void {
+    const at = new Date().toISOString();
+    this.append(
+      conversationId,
+      messages.map((message) => ({ type: 'message', at, message: serializeMessage(message) }))
+    );
+  }
+
+  removeOldestMessages(conversationId: string, count: number): void {
+    if (count > 0) {
+      this.append(conversationId, [{ type: 'evict', at: new Date().toISOString(), count }]);
+    }
+  }
+
+  replaceConversation(
+    conversationId: string,
+    messages: Message[],
+    metadata: Record<string, unknown>
+  ): void {
+    this.append(conversationId, [
+      {
+        type: 'replace',
+        at: new Date().toISOString(),
+        messages: messages.map(serializeMessage),
+        metadata,
+      },
+    ]);
+  }
+
+  setMetadata(conversationId: string, key: string, value: unknown): void {
+    this.append(conversationId, [{ type: 'metadata', at: new Date().toISOString(), key, value }]);
+  }
+
+  deleteConversation(conversationId: string): boolean {
+    const path = this.getPath(conversationId);
+    if (!existsSync(path)) {
+      return false;
+    }
+    unlinkSync(path);
+    return true;
+  }
+
+  loadVariables(): Record<string, unknown> {
+    if (!existsSync(this.variablesPath)) {
+      return {};
+    }
+    try {
+      return JSON.parse(readFileSync(this.variablesPath, 'utf8')) as Record<string, unknown>;
+    } catch (error) {
+      throw new MemoryStoreError(
+        `Failed to read ${this.variablesPath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  setVariable(key: string, value: unknown): void {
+    const variables = this.loadVariables();
+    variables[key] = value;
+    this.writeVariables(variables);
+  }
+
+  deleteVariable(key: string): void {
+    const variables = this.loadVariables();
+    delete variables[key];
+    this.writeVariables(variables);
+  }
+
+  clearVariables(): void {
+    this.writeVariables({});
+  }
+
+  clear(): void {
+    rmSync(this.conversationsDir, { recursive: true, force: true });
+    mkdirSync(this.conversationsDir, { recursive: true });
+    this.clearVariables();
+  }
+
+  /**
+   * Rewrite a conversation file as a single snapshot record
+   */
+  private compact(conversation: StoredConversation): void {
+    const path = this.getPath(conversation.conversationId);
+    const records: FileRecord[] = [
+      { type: 'create', at: conversation.createdAt.toISOString() },
+      {
+        type: 'replace',
+        at: conversation.updatedAt.toISOString(),
+        messages: conversation.messages.map(serializeMessage),
+        metadata: conversation.metadata,
+      },
+    ];
+    const tmpPath = `${path}.tmp`;
+    writeFileSync(tmpPath, records.map((r) => JSON.stringify(r)).join('\n') + '\n');
+    renameSync(tmpPath, path);
+  }
+
+  private append(conversationId: string, records: FileRecord[]): void {
+    const path = this.getPath(conversationId);
+    if (!existsSync(path)) {
+      records = [{ type: 'create', at: new Date().toISOString() }, ...records];
+    }
+    appendFileSync(path, records.map((r) => JSON.stringify(r)).join('\n') + '\n');
+  }
+
+  private readRecords(path: string): FileRecord[] {
+    const records: FileRecord[] = [];
+    const lines = readFileSync(path, 'utf8').split('\n');
+
+    for (const [index, line] of lines.entries()) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as FileRecord);
+      } catch {
+        // A torn final line from an interrupted write is skipped; anything else is corruption
+        if (index < lines.length - 1) {
+          throw new MemoryStoreError(`Corrupt record at ${path}:${index + 1}`);
+        }
+      }
+    }
+
+    return records;
+  }
+
+  private writeVariables(variables: Record<string, unknown>): void {
+    writeFileSync(this.variablesPath, JSON.stringify(variables, null, 2));
+  }
+
+  private getPath(conversationId: string): string {
+    return join(this.conversationsDir, `${encodeURIComponent(conversationId)}${EXTENSION}`);
+  }
+}
+
+/**
+ * Create a file-backed memory store
+ */
+export function createFileMemoryStore(options: FileMemoryStoreOptions): FileMemoryStore {
+  return new FileMemoryStore(options);
+}
@@ -0,0 +1,266 @@
+import { createRequire } from 'module';
+import type { Message } from '../../../agents/types';
+import {
+  MemoryStoreError,
+  deserializeMessage,
+  serializeMessage,
+  type MemoryStore,
+  type StoredConversation,
+} from '../MemoryStore';
+
+/**
+ * Prepared statement - the subset shared by node:sqlite and better-sqlite3
+ */
+export interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+/**
+ * Synchronous SQLite database - the subset shared by node:sqlite and better-sqlite3
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+  close(): unknown;
+}
+
+/**
+ * SQLite store options
+ */
+export interface SQLiteMemoryStoreOptions {
+  /** Database file path (use ':memory:' for a transient database) */
+  filename?: string;
+  /** An already opened database; takes precedence over filename */
+  database?: SqliteDatabase;
+}
+
+interface ConversationRow {
+  id: string;
+  metadata: string;
+  created_at: string;
+  updated_at: string;
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS conversations (
+  id TEXT PRIMARY KEY,
+  metadata TEXT NOT NULL DEFAULT '{}',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS messages (
+  seq INTEGER PRIMARY KEY AUTOINCREMENT,
+  conversation_id TEXT NOT NULL,
+  data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages (conversation_id, seq);
+CREATE TABLE IF NOT EXISTS variables (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+`;
+
+/**
+ * Open a SQLite database using node:sqlite (Node 22.5+) or better-sqlite3
+ */
+export function openSqliteDatabase(filename: string): SqliteDatabase {
+  const require = createRequire(import.meta.url);
+
+  try {
+    const { DatabaseSync } = require('node:sqlite') as {
+      DatabaseSync: new (filename: string) => SqliteDatabase;
+    };
+    return new DatabaseSync(filename);
+  } catch {
+    // Fall through to better-sqlite3
+  }
+
+  try {
+    const Database = require('better-sqlite3') as new (filename: string) => SqliteDatabase;
+    return new Database(filename);
+  } catch {
+    throw new MemoryStoreError(
+      'No SQLite driver available. Use Node.js 22.5+ (node:sqlite) or install better-sqlite3.'
+    );
+  }
+}
+
+/**
+ * Embedded SQLite memory store
+ *
+ * Messages are stored one row each, in insertion order, so appends and
+ * sliding window evictions touch only the affected rows.
+ */
+export class SQLiteMemoryStore implements MemoryStore {
+  private db: SqliteDatabase;
+
+  constructor(options: SQLiteMemoryStoreOptions = {}) {
+    this.db = options.database ?? openSqliteDatabase(options.filename ?? ':memory:');
+    this.db.exec(SCHEMA);
+  }
+
+  loadConversation(conversationId: string): StoredConversation | undefined {
+    const row = this.db
+      .prepare('SELECT id, metadata, created_at, updated_at FROM conversations WHERE id = ?')
+      .get(conversationId) as ConversationRow | undefined;
+    if (!row) {
+      return undefined;
+    }
+
+    const messages = this.db
+      .prepare('SELECT data FROM messages WHERE conversation_id = ? ORDER BY seq')
+      .all(conversationId) as Array<{ data: string }>;
+
+    return {
+      conversationId,
+      messages: messages.map((m) => deserializeMessage(JSON.parse(m.data))),
+      metadata: JSON.parse(row.metadata) as Record<string, unknown>,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  listConversations(): string[] {
+    const rows = this.db
+      .prepare('SELECT id FROM conversations ORDER BY created_at')
+      .all() as Array<{
+      id: string;
+    }>;
+    return rows.map((row) => row.id);
+  }
+
+  appendMessages(conversationId: string, messages: Message[]): void {
+    this.transaction(() => {
+      this.touch(conversationId);
+      const insert = this.db.prepare('INSERT INTO messages (conversation_id, data) VALUES (?, ?)');
+      for (const message of messages) {
+        insert.run(conversationId, JSON.stringify(serializeMessage(message)));
+      }
+    });
+  }
+
+  removeOldestMessages(conversationId: string, count: number): void {
+    if (count <= 0) return;
+
+    this.transaction(() => {
+      this.touch(conversationId);
+      this.db
+        .prepare(
+          `DELETE FROM messages WHERE seq IN (
+            SELECT seq FROM messages WHERE conversation_id = ? ORDER BY seq LIMIT ?
+          )`
+        )
+        .run(conversationId, count);
+    });
+  }
+
+  replaceConversation(
+    conversationId: string,
+    messages: Message[],
+    metadata: Record<string, unknown>
+  ): void {
+    this.transaction(() => {
+      this.touch(conversationId);
+      this.db
+        .prepare('UPDATE conversations SET metadata = ? WHERE id = ?')
+        .run(JSON.stringify(metadata), conversationId);
+      this.db.prepare('DELETE FROM messages WHERE conversation_id = ?').run(conversationId);
+      const insert = this.db.prepare('INSERT INTO messages (conversation_id, data) VALUES (?, ?)');
+      for (const message of messages) {
+        insert.run(conversationId, JSON.stringify(serializeMessage(message)));
+      }
+    });
+  }
+
+  setMetadata(conversationId: string, key: string, value: unknown): void {
+    this.transaction(() => {
+      this.touch(conversationId);
+      const row = this.db
+        .prepare('SELECT metadata FROM conversations WHERE id = ?')
+        .get(conversationId) as { metadata: string };
+      const metadata = JSON.parse(row.metadata) as Record<string, unknown>;
+      metadata[key] = value;
+      this.db
+        .prepare('UPDATE conversations SET metadata = ? WHERE id = ?')
+        .run(JSON.stringify(metadata), conversationId);
+    });
+  }
+
+  deleteConversation(conversationId: string): boolean {
+    let existed = false;
+    this.transaction(() => {
+      existed = !!this.db.prepare('SELECT 1 FROM conversations WHERE id = ?').get(conversationId);
+      this.db.prepare('DELETE FROM messages WHERE conversation_id = ?').run(conversationId);
+      this.db.prepare('DELETE FROM conversations WHERE id = ?').run(conversationId);
+    });
+    return existed;
+  }
+
+  loadVariables(): Record<string, unknown> {
+    const rows = this.db.prepare('SELECT key, value FROM variables').all() as Array<{
+      key: string;
+      value: string;
+    }>;
+    return Object.fromEntries(rows.map((row) => [row.key, JSON.parse(row.value)]));
+  }
+
+  setVariable(key: string, value: unknown): void {
+    this.db
+      .prepare(
+        'INSERT INTO variables (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value'
+      )
+      .run(key, JSON.stringify(value ?? null));
+  }
+
+  deleteVariable(key: string): void {
+    this.db.prepare('DELETE FROM variables WHERE key = ?').run(key);
+  }
+
+  clearVariables(): void {
+    this.db.exec('DELETE FROM variables');
+  }
+
+  clear(): void {
+    this.db.exec('DELETE FROM messages; DELETE FROM conversations; DELETE FROM variables;');
+  }
+
+  /**
+   * Close the underlying database
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Create the conversation row if needed and bump updated_at
+   */
+  private touch(conversationId: string): void {
+    const now = new Date().toISOString();
+    this.db
+      .prepare(
+        `INSERT INTO conversations (id, created_at, updated_at) VALUES (?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET updated_at = excluded.updated_at`
+      )
+      .run(conversationId, now, now);
+  }
+
+  private transaction(fn: () => void): void {
+    this.db.exec('BEGIN');
+    try {
+      fn();
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+}
+
+/**
+ * Create a SQLite memory store
+ */
+export function createSQLiteMemoryStore(options?: SQLiteMemoryStoreOptions): SQLiteMemoryStore {
+  return new SQLiteMemoryStore(options);
+}
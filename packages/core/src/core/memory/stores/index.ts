@@ -0,0 +1,16 @@
+/**
+ * Memory store exports
+ */
+export {
+  FileMemoryStore,
+  createFileMemoryStore,
+  type FileMemoryStoreOptions,
+} from './FileMemoryStore';
+export {
+  SQLiteMemoryStore,
+  createSQLiteMemoryStore,
+  openSqliteDatabase,
+  type SQLiteMemoryStoreOptions,
+  type SqliteDatabase,
+  type SqliteStatement,
+} from './SQLiteMemoryStore';
@@ -0,0 +1,163 @@
+import type {
+  GenerateObjectOptions,
+  GenerateObjectResult,
+  GenerateOptions,
+  GenerateResult,
+  GenerateStep,
+} from '../../agents/types';
+import type { Logger } from '../../utils/logger';
+import { ModelAdapter, type StreamChunk, type ToolLoopOptions } from './ModelAdapter';
+
+/**
+ * A model in a failover chain
+ */
+export interface FallbackModel {
+  /** Name recorded in results, e.g. "openai:gpt-4o" */
+  name: string;
+  adapter: ModelAdapter;
+}
+
+/**
+ * Fallback model adapter options
+ */
+export interface FallbackModelAdapterOptions {
+  logger?: Logger;
+  /** Decide whether an error moves on to the next model (default: any error but cancellation) */
+  shouldFallback?: (error: Error) => boolean;
+}
+
+/**
+ * Model adapter that fails over to the next model in a chain
+ *
+ * Calls go to the first model and move on when it throws. A call is not
+ * moved on once it has produced output (streamed chunks or completed tool
+ * steps), since the next model would repeat it. Results name the model
+ * that answered; when every model fails, the last error is thrown.
+ */
+export class FallbackModelAdapter extends ModelAdapter {
+  private models: FallbackModel[];
+  private logger?: Logger;
+  private shouldFallback: (error: Error) => boolean;
+
+  constructor(models: FallbackModel[], options: FallbackModelAdapterOptions = {}) {
+    if (models.length === 0) {
+      throw new Error('FallbackModelAdapter needs at least one model');
+    }
+    super(models[0].adapter.getModel());
+    this.models = models;
+    this.logger = options.logger;
+    this.shouldFallback =
+      options.shouldFallback ??
+      ((error) => error.name !== 'AbortError' && error.name !== 'TaskCancelledError');
+  }
+
+  override async generate(options: GenerateOptions): Promise<GenerateResult> {
+    return this.tryEach(options, (adapter) => adapter.generate(options));
+  }
+
+  override async generateWithTools(
+    options: Parameters<ModelAdapter['generateWithTools']>[0]
+  ): Promise<GenerateResult> {
+    let stepped = false;
+
+    return this.tryEach(
+      options,
+      (adapter, name) =>
+        adapter.generateWithTools({
+          ...options,
+          onStepFinish: (step: GenerateStep) => {
+            stepped = true;
+            options.onStepFinish?.({ ...step, model: name });
+          },
+        }),
+      () => stepped
+    );
+  }
+
+  override async generateObject<T>(
+    options: GenerateObjectOptions<T>
+  ): Promise<GenerateObjectResult<T>> {
+    return this.tryEach(options, (adapter) => adapter.generateObject(options));
+  }
+
+  override async *stream(options: GenerateOptions & ToolLoopOptions): AsyncGenerator<StreamChunk> {
+    let lastError: Error | undefined;
+
+    for (const [index, { name, adapter }] of this.models.entries()) {
+      let started = false;
+      try {
+        const { onStepFinish } = options;
+        const stream = adapter.stream({
+          ...options,
+          onStepFinish: onStepFinish && ((step) => onStepFinish({ ...step, model: name })),
+        });
+        for await (const chunk of stream) {
+          started = true;
+          yield chunk.type === 'finish' ? { ...chunk, model: name, fallbackIndex: index } : chunk;
+        }
+        return;
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        if (started || !this.canFallback(err, options)) {
+          throw err;
+        }
+        lastError = err;
+        this.logFallback(name, err);
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Get the models in the chain, in order
+   */
+  getModels(): FallbackModel[] {
+    return [...this.models];
+  }
+
+  override withSystemPrompt(systemPrompt: string): ModelAdapter {
+    return new FallbackModelAdapter(
+      this.models.map(({ name, adapter }) => ({
+        name,
+        adapter: adapter.withSystemPrompt(systemPrompt),
+      })),
+      { logger: this.logger, shouldFallback: this.shouldFallback }
+    );
+  }
+
+  /**
+   * Run a call against each model in turn until one succeeds
+   */
+  private async tryEach<R extends Pick<GenerateResult, 'model' | 'fallbackIndex'>>(
+    options: Pick<GenerateOptions, 'abortSignal'>,
+    call: (adapter: ModelAdapter, name: string) => Promise<R>,
+    hasOutput: () => boolean = () => false
+  ): Promise<R> {
+    let lastError: Error | undefined;
+
+    for (const [index, { name, adapter }] of this.models.entries()) {
+      try {
+        const result = await call(adapter, name);
+        return { ...result, model: name, fallbackIndex: index };
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        if (hasOutput() || !this.canFallback(err, options)) {
+          throw err;
+        }
+        lastError = err;
+        this.logFallback(name, err);
+      }
+    }
+
+    throw lastError;
+  }
+
+  private canFallback(error: Error, options: Pick<GenerateOptions, 'abortSignal'>): boolean {
+    return !options.abortSignal?.aborted && this.shouldFallback(error);
+  }
+
+  private logFallback(name: string, error: Error): void {
+    this.logger?.warn(`Model ${name} failed, trying the next model`, { error: error.message });
+  }
+}
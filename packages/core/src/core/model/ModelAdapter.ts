@@ -1,20 +1,32 @@
 import {
+  generateObject,
   generateText,
   streamText,
   stepCountIs,
   type ModelMessage,
   type Tool,
   type LanguageModel,
+  type LanguageModelUsage,
   type GenerateTextResult,
+  type StepResult,
+  type StopCondition,
   type StreamTextResult,
 } from 'ai';
-import type { GenerateOptions, GenerateResult } from '../../agents/types';
+import type {
+  GenerateObjectOptions,
+  GenerateObjectResult,
+  GenerateOptions,
+  GenerateResult,
+  GenerateStep,
+} from '../../agents/types';
+import { TaskCancelledError, getAbortReason } from '../../utils/abort';
+import { extractJson } from '../../utils/json';
 
 /**
  * Stream chunk from model
  */
 export interface StreamChunk {
-  type: 'text-delta' | 'tool-call' | 'tool-result' | 'finish';
+  type: 'text-delta' | 'tool-call' | 'tool-result' | 'step-finish' | 'finish';
   textDelta?: string;
   toolCall?: {
     toolCallId: string;
@@ -23,9 +35,42 @@ export interface StreamChunk {
   };
   toolResult?: {
     toolCallId: string;
+    toolName: string;
     result: unknown;
+    /** Set when the tool threw instead of returning */
+    error?: string;
   };
   finishReason?: string;
+  /** Token usage (per step for step-finish, total for finish) */
+  usage?: GenerateResult['usage'];
+  /** Model that answered, on finish chunks from failover adapters */
+  model?: string;
+  /** Position of that model in the failover chain */
+  fallbackIndex?: number;
+}
+
+/**
+ * Options for calls that run a multi-step tool loop
+ */
+export interface ToolLoopOptions {
+  maxSteps?: number;
+  /** Called as each step completes, with the tool results it produced */
+  onStepFinish?: (step: GenerateStep) => void;
+  /** Checked after each step; returning true ends the loop early */
+  shouldStop?: () => boolean;
+}
+
+/**
+ * AI SDK stop condition for a tool loop
+ */
+function stopWhen(
+  maxSteps: number | undefined,
+  shouldStop?: () => boolean
+): StopCondition<Record<string, Tool>> | Array<StopCondition<Record<string, Tool>>> | undefined {
+  if (!maxSteps) {
+    return undefined;
+  }
+  return shouldStop ? [stepCountIs(maxSteps), () => shouldStop()] : stepCountIs(maxSteps);
 }
 
 /**
@@ -47,7 +92,8 @@ export class ModelAdapter {
    * Generate text completion
    */
   async generate(options: GenerateOptions): Promise<GenerateResult> {
-    const { messages, systemPrompt, tools, maxTokens, temperature, stopSequences } = options;
+    const { messages, systemPrompt, tools, maxTokens, temperature, stopSequences, abortSignal } =
+      options;
 
     // Prepare messages with system prompt
     const allMessages = this.prepareMessages(messages, systemPrompt);
@@ -59,6 +105,7 @@ export class ModelAdapter {
       maxOutputTokens: maxTokens,
       temperature,
       stopSequences,
+      abortSignal,
     });
 
     return this.mapGenerateResult(result);
@@ -68,10 +115,10 @@ export class ModelAdapter {
    * Generate text completion with tool execution
    */
   async generateWithTools(
-    options: GenerateOptions & {
-      onToolCall?: (toolCall: { toolName: string; args: Record<string, unknown> }) => void;
-      maxSteps?: number;
-    }
+    options: GenerateOptions &
+      ToolLoopOptions & {
+        onToolCall?: (toolCall: { toolName: string; args: Record<string, unknown> }) => void;
+      }
   ): Promise<GenerateResult> {
     const {
       messages,
@@ -79,7 +126,10 @@ export class ModelAdapter {
       tools,
       maxTokens,
       temperature,
+      abortSignal,
       onToolCall,
+      onStepFinish,
+      shouldStop,
       maxSteps = 5,
     } = options;
 
@@ -91,7 +141,8 @@ export class ModelAdapter {
       tools: tools as Record<string, Tool> | undefined,
       maxOutputTokens: maxTokens,
       temperature,
-      stopWhen: maxSteps ? stepCountIs(maxSteps) : undefined,
+      abortSignal,
+      stopWhen: stopWhen(maxSteps, shouldStop),
       onStepFinish: (step) => {
         if (step.toolCalls && onToolCall) {
           for (const call of step.toolCalls) {
@@ -110,17 +161,71 @@ export class ModelAdapter {
             });
           }
         }
+        onStepFinish?.(this.mapStep(step));
       },
     });
 
     return this.mapGenerateResult(result);
   }
 
+  /**
+   * Generate an object matching a schema
+   *
+   * Output wrapped in prose or code fences is repaired before validation.
+   * Throws NoObjectGeneratedError when the output still does not match.
+   */
+  async generateObject<T>(options: GenerateObjectOptions<T>): Promise<GenerateObjectResult<T>> {
+    const {
+      messages,
+      systemPrompt,
+      schema,
+      schemaName,
+      schemaDescription,
+      maxTokens,
+      temperature,
+      abortSignal,
+    } = options;
+
+    const result = await generateObject({
+      model: this.model,
+      messages: this.prepareMessages(messages, systemPrompt),
+      schema,
+      schemaName,
+      schemaDescription,
+      maxOutputTokens: maxTokens,
+      temperature,
+      abortSignal,
+      experimental_repairText: async ({ text }) => {
+        const json = extractJson(text);
+        return json === undefined ? null : JSON.stringify(json);
+      },
+    });
+
+    return {
+      object: result.object as T,
+      usage: this.mapUsage(result.usage),
+      finishReason: result.finishReason as GenerateResult['finishReason'],
+    };
+  }
+
   /**
    * Stream text completion
+   *
+   * When tools with execute functions are provided and maxSteps > 1, tools are
+   * executed automatically and their results are streamed as tool-result chunks.
    */
-  async *stream(options: GenerateOptions): AsyncGenerator<StreamChunk> {
-    const { messages, systemPrompt, tools, maxTokens, temperature } = options;
+  async *stream(options: GenerateOptions & ToolLoopOptions): AsyncGenerator<StreamChunk> {
+    const {
+      messages,
+      systemPrompt,
+      tools,
+      maxTokens,
+      temperature,
+      maxSteps,
+      onStepFinish,
+      shouldStop,
+      abortSignal,
+    } = options;
 
     const allMessages = this.prepareMessages(messages, systemPrompt);
 
@@ -130,6 +235,9 @@ export class ModelAdapter {
       tools: tools as Record<string, Tool> | undefined,
       maxOutputTokens: maxTokens,
       temperature,
+      abortSignal,
+      stopWhen: stopWhen(maxSteps, shouldStop),
+      onStepFinish: onStepFinish && ((step) => onStepFinish(this.mapStep(step))),
     });
 
     for await (const part of result.fullStream) {
@@ -147,17 +255,43 @@ export class ModelAdapter {
             args: part.input as Record<string, unknown>,
           },
         };
+      } else if (part.type === 'tool-result') {
+        yield {
+          type: 'tool-result',
+          toolResult: {
+            toolCallId: part.toolCallId,
+            toolName: part.toolName,
+            result: part.output,
+          },
+        };
+      } else if (part.type === 'tool-error') {
+        yield {
+          type: 'tool-result',
+          toolResult: {
+            toolCallId: part.toolCallId,
+            toolName: part.toolName,
+            result: undefined,
+            error: part.error instanceof Error ? part.error.message : String(part.error),
+          },
+        };
       } else if (part.type === 'finish-step') {
         // Step finish indicates completion of a step (may include tool results)
         yield {
-          type: 'finish',
+          type: 'step-finish',
           finishReason: part.finishReason,
+          usage: this.mapUsage(part.usage),
         };
       } else if (part.type === 'finish') {
         yield {
           type: 'finish',
           finishReason: part.finishReason,
+          usage: this.mapUsage(part.totalUsage),
         };
+      } else if (part.type === 'abort') {
+        // streamText ends quietly on abort; surface it like the other calls do
+        throw abortSignal ? getAbortReason(abortSignal) : new TaskCancelledError();
+      } else if (part.type === 'error') {
+        throw part.error instanceof Error ? part.error : new Error(String(part.error));
       }
     }
   }
@@ -169,6 +303,17 @@ export class ModelAdapter {
     return this.model;
   }
 
+  /**
+   * ID of the underlying model as "provider/model", e.g. "openai/gpt-4o"
+   */
+  getModelId(): string {
+    if (typeof this.model === 'string') {
+      return this.model;
+    }
+    // Providers name themselves by API, e.g. "openai.chat"; price tables use the provider
+    return `${this.model.provider.split('.')[0]}/${this.model.modelId}`;
+  }
+
   /**
    * Create a new adapter with different system prompt
    */
@@ -200,14 +345,58 @@ export class ModelAdapter {
         toolName: call.toolName,
         args: call.input as Record<string, unknown>,
       })),
-      usage: result.usage
-        ? {
-          promptTokens: result.usage.inputTokens ?? 0,
-          completionTokens: result.usage.outputTokens ?? 0,
-          totalTokens: result.usage.totalTokens ?? 0,
-        }
-        : undefined,
+      usage: this.mapUsage(result.usage),
       finishReason: result.finishReason as GenerateResult['finishReason'],
+      steps: result.steps.map((step) => this.mapStep(step)),
     };
   }
+
+  /**
+   * Map an AI SDK step, including tool errors, to our step shape
+   */
+  private mapStep(step: StepResult<Record<string, Tool>>): GenerateStep {
+    const toolResults: GenerateStep['toolResults'] = [];
+
+    for (const part of step.content) {
+      if (part.type === 'tool-result') {
+        toolResults.push({
+          toolCallId: part.toolCallId,
+          toolName: part.toolName,
+          result: part.output,
+        });
+      } else if (part.type === 'tool-error') {
+        toolResults.push({
+          toolCallId: part.toolCallId,
+          toolName: part.toolName,
+          result: undefined,
+          error: part.error instanceof Error ? part.error.message : String(part.error),
+        });
+      }
+    }
+
+    return {
+      text: step.text,
+      toolCalls: step.toolCalls.map((call) => ({
+        toolCallId: call.toolCallId,
+        toolName: call.toolName,
+        args: call.input as Record<string, unknown>,
+      })),
+      toolResults,
+      finishReason: step.finishReason as GenerateResult['finishReason'],
+      usage: this.mapUsage(step.usage),
+    };
+  }
+
+  /**
+   * Map AI SDK usage to our usage shape
+   */
+  private mapUsage(usage: LanguageModelUsage | undefined): GenerateResult['usage'] {
+    return usage
+      ? {
+          promptTokens: usage.inputTokens ?? 0,
+          completionTokens: usage.outputTokens ?? 0,
+          totalTokens: usage.totalTokens ?? 0,
+        }
+      : undefined;
+  }
 }
@@ -1,6 +1,7 @@
 import type { LanguageModel } from 'ai';
 import type { ModelConfig } from '../../agents/types';
 import { ModelAdapter } from './ModelAdapter';
+import { FallbackModelAdapter } from './FallbackModelAdapter';
 
 /**
  * Provider type enumeration - ModelFactory only provides enum values, not concrete implementations
@@ -161,8 +162,28 @@ export class ModelFactory {
    *   apiKey: process.env.OPENAI_API_KEY,
    * });
    * ```
+   *
+   * When `config.fallbacks` is set, the models are wrapped into a
+   * FallbackModelAdapter that tries them in order.
    */
   static create(config: ModelConfig): ModelAdapter {
+    const { fallbacks, ...primary } = config;
+    if (!fallbacks || fallbacks.length === 0) {
+      return ModelFactory.createSingle(primary);
+    }
+
+    return new FallbackModelAdapter(
+      [primary, ...fallbacks].map((model) => ({
+        name: `${model.provider}:${model.name}`,
+        adapter: ModelFactory.createSingle(model),
+      }))
+    );
+  }
+
+  /**
+   * Create a ModelAdapter for a single model, ignoring fallbacks
+   */
+  private static createSingle(config: Omit<ModelConfig, 'fallbacks'>): ModelAdapter {
     const { provider, name, baseURL, apiKey, options } = config;
 
     // Convert ModelConfig's provider string to ProviderType
@@ -0,0 +1,106 @@
+import { createRequire } from 'module';
+import { Tiktoken, type TiktokenBPE } from 'js-tiktoken/lite';
+import type { ModelConfig } from '../../agents/types';
+
+/**
+ * Built-in BPE encodings
+ */
+export type BpeEncoding = 'cl100k_base' | 'o200k_base';
+
+/**
+ * Tokenizer names accepted in ModelConfig
+ */
+export type TokenizerName = NonNullable<ModelConfig['tokenizer']>;
+
+/**
+ * Counts tokens for context window management
+ */
+export interface Tokenizer {
+  /** Tokenizer name */
+  readonly name: string;
+  /** Tokens added per chat message for the role and delimiters */
+  readonly messageOverhead: number;
+  /** Count the tokens in a text */
+  count(text: string): number;
+}
+
+/**
+ * Character-ratio tokenizer
+ *
+ * A rough estimate (text length times tokens per character). Cheap, but
+ * undercounts code, CJK text and JSON payloads.
+ */
+export class CharacterTokenizer implements Tokenizer {
+  readonly name = 'character';
+  readonly messageOverhead = 0;
+  private tokensPerChar: number;
+
+  constructor(tokensPerChar = 0.25) {
+    this.tokensPerChar = tokensPerChar;
+  }
+
+  count(text: string): number {
+    return Math.ceil(text.length * this.tokensPerChar);
+  }
+}
+
+// Rank tables are large, so each encoding is loaded on first use and shared
+const encoders = new Map<BpeEncoding, Tiktoken>();
+
+function loadEncoder(encoding: BpeEncoding): Tiktoken {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    const require = createRequire(import.meta.url);
+    const ranks = require(`js-tiktoken/ranks/${encoding}`) as TiktokenBPE;
+    encoder = new Tiktoken(ranks);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+/**
+ * Byte-pair encoding tokenizer
+ *
+ * Uses the OpenAI encodings, which ship with the package so no network
+ * access is needed. Counts are exact for OpenAI models and a close
+ * approximation for other providers.
+ */
+export class BpeTokenizer implements Tokenizer {
+  readonly name: BpeEncoding;
+  readonly messageOverhead = 4;
+
+  constructor(encoding: BpeEncoding = 'cl100k_base') {
+    this.name = encoding;
+  }
+
+  count(text: string): number {
+    if (!text) return 0;
+    // Special token markers in user text are counted as plain text
+    return loadEncoder(this.name).encode(text, [], []).length;
+  }
+}
+
+/**
+ * Create a tokenizer by name
+ */
+export function createTokenizer(name: TokenizerName): Tokenizer {
+  return name === 'character' ? new CharacterTokenizer() : new BpeTokenizer(name);
+}
+
+/**
+ * Pick a tokenizer for a model
+ *
+ * An explicit `tokenizer` in the config wins. Otherwise newer OpenAI
+ * models use o200k_base and everything else uses cl100k_base.
+ */
+export function getTokenizerForModel(config: ModelConfig): Tokenizer {
+  if (config.tokenizer) {
+    return createTokenizer(config.tokenizer);
+  }
+
+  if (config.provider === 'openai' && /^(gpt-4o|gpt-4\.1|gpt-5|o\d|chatgpt-4o)/.test(config.name)) {
+    return new BpeTokenizer('o200k_base');
+  }
+
+  return new BpeTokenizer('cl100k_base');
+}
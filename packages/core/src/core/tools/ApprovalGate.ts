@@ -0,0 +1,144 @@
+import type { ApprovalDecision, ApprovalRequest } from '../../agents/types';
+import type { EventBus } from '../../utils/event-bus';
+import type { Logger } from '../../utils/logger';
+
+/**
+ * Decides whether a tool call that requires confirmation may run
+ */
+export interface ApprovalHandler {
+  decide(request: ApprovalRequest): ApprovalDecision | Promise<ApprovalDecision>;
+}
+
+/**
+ * Error thrown in place of a tool call that was not approved
+ */
+export class ToolApprovalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolApprovalError';
+  }
+}
+
+/**
+ * Approval handler that approves every request
+ */
+export class AutoApproveHandler implements ApprovalHandler {
+  decide(): ApprovalDecision {
+    return { action: 'approve' };
+  }
+}
+
+/**
+ * Approval rule, matched against a request
+ */
+export interface ApprovalRule {
+  /** Tool the rule applies to (any tool when omitted) */
+  toolName?: string;
+  /** Further condition on the proposed arguments */
+  when?: (args: Record<string, unknown>) => boolean;
+  action: 'approve' | 'reject';
+  /** Reason given to the model on rejection */
+  reason?: string;
+}
+
+/**
+ * Approval handler that applies the first matching rule
+ *
+ * Requests no rule matches go to the fallback handler, or are rejected.
+ */
+export class RuleApprovalHandler implements ApprovalHandler {
+  private rules: ApprovalRule[];
+  private fallback?: ApprovalHandler;
+
+  constructor(rules: ApprovalRule[], options: { fallback?: ApprovalHandler } = {}) {
+    this.rules = rules;
+    this.fallback = options.fallback;
+  }
+
+  decide(request: ApprovalRequest): ApprovalDecision | Promise<ApprovalDecision> {
+    const rule = this.rules.find(
+      (r) => (!r.toolName || r.toolName === request.toolName) && (!r.when || r.when(request.args))
+    );
+
+    if (rule) {
+      return rule.action === 'approve'
+        ? { action: 'approve' }
+        : { action: 'reject', reason: rule.reason };
+    }
+    if (this.fallback) {
+      return this.fallback.decide(request);
+    }
+    return { action: 'reject', reason: 'No approval rule matched' };
+  }
+}
+
+/**
+ * Approval gate options
+ */
+export interface ApprovalGateOptions {
+  /** Handler asked for decisions; requests are rejected while none is set */
+  handler?: ApprovalHandler;
+  /** Bus that approval requests and decisions are published on */
+  eventBus?: EventBus;
+  logger?: Logger;
+}
+
+/**
+ * Pauses tool calls that require confirmation until a handler decides
+ *
+ * One gate is shared by an agent and its sub-agents, so the handler can be
+ * swapped (e.g. once a terminal prompt is available) for all of them.
+ */
+export class ApprovalGate {
+  private handler?: ApprovalHandler;
+  private eventBus?: EventBus;
+  private logger?: Logger;
+
+  constructor(options: ApprovalGateOptions = {}) {
+    this.handler = options.handler;
+    this.eventBus = options.eventBus;
+    this.logger = options.logger;
+  }
+
+  /**
+   * Replace the approval handler
+   */
+  setHandler(handler: ApprovalHandler | undefined): void {
+    this.handler = handler;
+  }
+
+  /**
+   * Ask for a decision on a tool call
+   *
+   * A handler that throws counts as a rejection.
+   */
+  async review(request: ApprovalRequest): Promise<ApprovalDecision> {
+    this.eventBus?.emit('tool:approval:request', request);
+
+    let decision: ApprovalDecision;
+    if (!this.handler) {
+      decision = { action: 'reject', reason: 'No approval handler configured' };
+    } else {
+      try {
+        decision = await this.handler.decide(request);
+      } catch (error) {
+        this.logger?.warn('Approval handler failed', { toolName: request.toolName, error });
+        decision = {
+          action: 'reject',
+          reason: error instanceof Error ? error.message : String(error),
+        };
+      }
+    }
+
+    this.logger?.debug('Tool call reviewed', { toolName: request.toolName, decision });
+    this.eventBus?.emit('tool:approval:decision', { ...request, decision });
+    return decision;
+  }
+}
+
+/**
+ * Create an approval gate
+ */
+export function createApprovalGate(options: ApprovalGateOptions = {}): ApprovalGate {
+  return new ApprovalGate(options);
+}
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import type { Tool } from 'ai';
+import { zodToJsonSchema, type JsonSchema } from '../../utils/json-schema';
 
 /**
  * Tool execution context
@@ -11,6 +12,8 @@ export interface ToolContext {
   conversationId?: string;
   /** Additional context data */
   data?: Record<string, unknown>;
+  /** Aborts when the calling task is cancelled or times out */
+  signal?: AbortSignal;
 }
 
 /**
@@ -43,15 +46,27 @@ export abstract class BaseTool<TInput extends z.ZodType = z.ZodType, TOutput = u
    */
   abstract execute(input: z.infer<TInput>, context?: ToolContext): Promise<ToolResult<TOutput>>;
 
+  /**
+   * Whether a call with this input must be confirmed before it runs
+   */
+  requiresApproval(_input: z.infer<TInput>): boolean {
+    return false;
+  }
+
   /**
    * Convert to AI SDK Tool format
+   *
+   * With a context, each call receives it along with the model call's abort signal.
    */
-  toCoreTool(): Tool {
+  toCoreTool(context?: Omit<ToolContext, 'signal'>): Tool {
     return {
       description: this.description,
       inputSchema: this.inputSchema, // AI SDK 5.x uses inputSchema instead of parameters
-      execute: async (args: z.infer<TInput>) => {
-        const result = await this.execute(args);
+      execute: async (args: z.infer<TInput>, options?: { abortSignal?: AbortSignal }) => {
+        const result = await this.execute(
+          args,
+          context && { ...context, signal: options?.abortSignal }
+        );
         if (result.success) {
           return result.data;
         }
@@ -76,12 +91,8 @@ export abstract class BaseTool<TInput extends z.ZodType = z.ZodType, TOutput = u
   /**
    * Get JSON schema representation of input
    */
-  getInputJsonSchema(): Record<string, unknown> {
-    // Simple conversion - in production you might use zod-to-json-schema
-    return {
-      type: 'object',
-      description: this.description,
-    };
+  getInputJsonSchema(): JsonSchema {
+    return zodToJsonSchema(this.inputSchema);
   }
 }
 
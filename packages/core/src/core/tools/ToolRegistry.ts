@@ -1,5 +1,6 @@
 import type { Tool } from 'ai';
 import type { BaseTool, ToolContext, ToolResult } from './BaseTool';
+import type { JsonSchema } from '../../utils/json-schema';
 
 /**
  * Tool permission levels
@@ -13,6 +14,7 @@ interface ToolEntry {
   tool: BaseTool;
   permissions: Set<ToolPermission>;
   allowedAgents: Set<string> | 'all';
+  requiresApproval?: boolean | ((input: unknown) => boolean);
 }
 
 /**
@@ -32,14 +34,17 @@ export class ToolRegistry {
     options: {
       permissions?: ToolPermission[];
       allowedAgents?: string[] | 'all';
+      /** Require confirmation for every call, or for calls matching a predicate */
+      requiresApproval?: boolean | ((input: unknown) => boolean);
     } = {}
   ): void {
-    const { permissions = ['read', 'execute'], allowedAgents = 'all' } = options;
+    const { permissions = ['read', 'execute'], allowedAgents = 'all', requiresApproval } = options;
 
     this.tools.set(tool.name, {
       tool,
       permissions: new Set(permissions),
       allowedAgents: allowedAgents === 'all' ? 'all' : new Set(allowedAgents),
+      requiresApproval,
     });
   }
 
@@ -117,6 +122,24 @@ export class ToolRegistry {
     return true;
   }
 
+  /**
+   * Check if a tool call must be confirmed before it runs
+   *
+   * The registration option takes precedence over the tool's own rule.
+   */
+  requiresApproval(toolName: string, input: unknown): boolean {
+    const entry = this.tools.get(toolName);
+    if (!entry) {
+      return false;
+    }
+
+    const { requiresApproval } = entry;
+    if (typeof requiresApproval === 'function') {
+      return requiresApproval(input);
+    }
+    return requiresApproval ?? entry.tool.requiresApproval(input);
+  }
+
   /**
    * Get tools available for an agent
    */
@@ -139,7 +162,7 @@ export class ToolRegistry {
     const tools: Record<string, Tool> = {};
 
     for (const tool of this.getForAgent(agentId)) {
-      tools[tool.name] = tool.toCoreTool();
+      tools[tool.name] = tool.toCoreTool({ agentId });
     }
 
     return tools;
@@ -180,11 +203,20 @@ export class ToolRegistry {
 
   /**
    * Get tool descriptions for prompt generation
+   *
+   * Each tool is followed by one line per parameter, taken from its input JSON Schema.
    */
   getDescriptions(agentId?: string): string {
     const tools = agentId ? this.getForAgent(agentId) : this.getAll();
 
-    return tools.map((tool) => `- ${tool.name}: ${tool.description}`).join('\n');
+    return tools
+      .map((tool) =>
+        [
+          `- ${tool.name}: ${tool.description}`,
+          ...describeParameters(tool.getInputJsonSchema()),
+        ].join('\n')
+      )
+      .join('\n');
   }
 
   /**
@@ -215,3 +247,43 @@ export class ToolRegistry {
 export function createDefaultRegistry(): ToolRegistry {
   return new ToolRegistry();
 }
+
+/**
+ * Lines like "  - path (string, required): File path" for an object schema's properties
+ */
+function describeParameters(schema: JsonSchema): string[] {
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+  const required = new Set((schema.required ?? []) as string[]);
+
+  return Object.entries(properties).map(([name, property]) => {
+    const details = [describeType(property), required.has(name) ? 'required' : 'optional'];
+    if (property.default !== undefined) {
+      details.push(`default: ${JSON.stringify(property.default)}`);
+    }
+    const description = typeof property.description === 'string' ? `: ${property.description}` : '';
+    return `  - ${name} (${details.join(', ')})${description}`;
+  });
+}
+
+/**
+ * Short type notation, such as "string[]" or "\"read\" | \"write\""
+ */
+function describeType(schema: JsonSchema): string {
+  if (Array.isArray(schema.enum)) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+  }
+  if ('const' in schema) {
+    return JSON.stringify(schema.const);
+  }
+  if (Array.isArray(schema.anyOf)) {
+    return (schema.anyOf as JsonSchema[]).map(describeType).join(' | ');
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type.join(' | ');
+  }
+  if (schema.type === 'array' && typeof schema.items === 'object' && !Array.isArray(schema.items)) {
+    const items = describeType(schema.items as JsonSchema);
+    return items.includes(' ') ? `(${items})[]` : `${items}[]`;
+  }
+  return typeof schema.type === 'string' ? schema.type : 'any';
+}
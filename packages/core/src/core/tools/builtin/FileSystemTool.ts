@@ -43,6 +43,8 @@ interface FileSystemToolOptions {
   allowedOperations?: Array<'read' | 'write' | 'list' | 'exists' | 'delete' | 'mkdir'>;
   /** Maximum file size to read (in bytes) */
   maxReadSize?: number;
+  /** Operations that must be confirmed before they run */
+  confirmOperations?: Array<'read' | 'write' | 'list' | 'exists' | 'delete' | 'mkdir'>;
 }
 
 /**
@@ -60,6 +62,7 @@ export class FileSystemTool extends BaseTool<typeof fileSystemInputSchema, FileS
   private basePath?: string;
   private allowedOperations: Set<string>;
   private maxReadSize: number;
+  private confirmOperations: Set<string>;
 
   constructor(options: FileSystemToolOptions = {}) {
     super();
@@ -68,11 +71,16 @@ export class FileSystemTool extends BaseTool<typeof fileSystemInputSchema, FileS
       options.allowedOperations ?? ['read', 'write', 'list', 'exists', 'delete', 'mkdir']
     );
     this.maxReadSize = options.maxReadSize ?? 10 * 1024 * 1024; // 10MB default
+    this.confirmOperations = new Set(options.confirmOperations ?? ['write', 'delete']);
+  }
+
+  requiresApproval(input: FileSystemInput): boolean {
+    return this.confirmOperations.has(input.operation);
   }
 
   async execute(
     input: FileSystemInput,
-    _context?: ToolContext
+    context?: ToolContext
   ): Promise<ToolResult<FileSystemResult>> {
     const { operation, path: filePath, content, encoding } = input;
 
@@ -94,11 +102,12 @@ export class FileSystemTool extends BaseTool<typeof fileSystemInputSchema, FileS
     }
 
     try {
+      context?.signal?.throwIfAborted();
       switch (operation) {
         case 'read':
-          return await this.readFile(resolvedPath, encoding);
+          return await this.readFile(resolvedPath, encoding, context?.signal);
         case 'write':
-          return await this.writeFile(resolvedPath, content ?? '', encoding);
+          return await this.writeFile(resolvedPath, content ?? '', encoding, context?.signal);
         case 'list':
           return await this.listDirectory(resolvedPath);
         case 'exists':
@@ -145,7 +154,8 @@ export class FileSystemTool extends BaseTool<typeof fileSystemInputSchema, FileS
    */
   private async readFile(
     filePath: string,
-    encoding: BufferEncoding
+    encoding: BufferEncoding,
+    signal?: AbortSignal
   ): Promise<ToolResult<FileSystemResult>> {
     // Check file size first
     const stats = await fs.stat(filePath);
@@ -156,7 +166,7 @@ export class FileSystemTool extends BaseTool<typeof fileSystemInputSchema, FileS
       };
     }
 
-    const content = await fs.readFile(filePath, { encoding });
+    const content = await fs.readFile(filePath, { encoding, signal });
     return {
       success: true,
       data: {
@@ -174,13 +184,14 @@ export class FileSystemTool extends BaseTool<typeof fileSystemInputSchema, FileS
   private async writeFile(
     filePath: string,
     content: string,
-    encoding: BufferEncoding
+    encoding: BufferEncoding,
+    signal?: AbortSignal
   ): Promise<ToolResult<FileSystemResult>> {
     // Ensure parent directory exists
     const dir = path.dirname(filePath);
     await fs.mkdir(dir, { recursive: true });
 
-    await fs.writeFile(filePath, content, { encoding });
+    await fs.writeFile(filePath, content, { encoding, signal });
     return {
       success: true,
       data: {
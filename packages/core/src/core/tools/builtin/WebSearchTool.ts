@@ -33,7 +33,7 @@ interface WebSearchResult {
  * Search provider interface for dependency injection
  */
 export interface SearchProvider {
-  search(query: string, maxResults: number): Promise<SearchResultItem[]>;
+  search(query: string, maxResults: number, signal?: AbortSignal): Promise<SearchResultItem[]>;
 }
 
 /**
@@ -86,10 +86,10 @@ export class WebSearchTool extends BaseTool<typeof webSearchInputSchema, WebSear
 
   async execute(
     input: WebSearchInput,
-    _context?: ToolContext
+    context?: ToolContext
   ): Promise<ToolResult<WebSearchResult>> {
     try {
-      const results = await this.provider.search(input.query, input.maxResults);
+      const results = await this.provider.search(input.query, input.maxResults, context?.signal);
 
       return {
         success: true,
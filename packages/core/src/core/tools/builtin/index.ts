@@ -28,7 +28,13 @@ export function registerBuiltinTools(
   options?: {
     calculator?: boolean;
     webSearch?: boolean;
-    fileSystem?: boolean | { basePath?: string; allowedOperations?: FileSystemOperation[] };
+    fileSystem?:
+      | boolean
+      | {
+          basePath?: string;
+          allowedOperations?: FileSystemOperation[];
+          confirmOperations?: FileSystemOperation[];
+        };
   }
 ): void {
   const opts = {
@@ -0,0 +1,206 @@
+/**
+ * Limits on what a task or conversation may spend
+ */
+export interface BudgetLimits {
+  /** Total prompt and completion tokens */
+  maxTokens?: number;
+  /** Cost in USD, from the usage ledger's price table */
+  maxCost?: number;
+  /** Tool calls, including calls to sub-agent delegate tools */
+  maxToolCalls?: number;
+  /** Model calls; each step of a tool loop is one call */
+  maxModelCalls?: number;
+  /** Wall-clock time in milliseconds, from when the budget was created */
+  maxDurationMs?: number;
+}
+
+/**
+ * Budget settings for an agent
+ */
+export interface BudgetConfig {
+  /** Limits for each top-level task, covering its whole task tree */
+  task?: BudgetLimits;
+  /** Limits for everything run in one conversation */
+  conversation?: BudgetLimits;
+}
+
+/**
+ * Limit a budget can run out of
+ */
+export type BudgetLimit = 'tokens' | 'cost' | 'toolCalls' | 'modelCalls' | 'duration';
+
+/**
+ * What has been charged to a budget so far
+ */
+export interface BudgetSpend {
+  tokens: number;
+  cost: number;
+  toolCalls: number;
+  modelCalls: number;
+  elapsedMs: number;
+}
+
+/**
+ * Budget options
+ */
+export interface BudgetOptions {
+  /** Name used in errors, e.g. "task" or "conversation" */
+  name?: string;
+  limits: BudgetLimits;
+  /** Budget that every charge is also made against */
+  parent?: Budget;
+}
+
+/**
+ * Error raised when a budget runs out
+ *
+ * Runs stopped by a budget return it as their result error, alongside
+ * whatever they produced before stopping.
+ */
+export class BudgetExceededError extends Error {
+  /** Budget that ran out */
+  readonly budget: string;
+  readonly limit: BudgetLimit;
+
+  constructor(budget: string, limit: BudgetLimit, message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+    this.budget = budget;
+    this.limit = limit;
+  }
+}
+
+/**
+ * Setting and unit of each limit on spending
+ */
+const SPEND_LIMITS: Record<
+  Exclude<BudgetLimit, 'duration'>,
+  { key: keyof BudgetLimits; unit: string }
+> = {
+  tokens: { key: 'maxTokens', unit: 'tokens' },
+  cost: { key: 'maxCost', unit: 'USD' },
+  toolCalls: { key: 'maxToolCalls', unit: 'tool calls' },
+  modelCalls: { key: 'maxModelCalls', unit: 'model calls' },
+};
+
+/**
+ * Tracks spending against hard limits
+ *
+ * Agents charge model calls, tokens, cost and tool calls as they go, and
+ * check the budget before each call. A task budget usually has the
+ * conversation's budget as its parent, so a charge counts against both.
+ */
+export class Budget {
+  readonly name: string;
+  readonly limits: BudgetLimits;
+  private parent?: Budget;
+  private startedAt = Date.now();
+  private deadline?: number;
+  private spent = { tokens: 0, cost: 0, toolCalls: 0, modelCalls: 0 };
+
+  constructor(options: BudgetOptions) {
+    this.name = options.name ?? 'task';
+    this.limits = options.limits;
+    this.parent = options.parent;
+    if (this.limits.maxDurationMs !== undefined) {
+      this.deadline = this.startedAt + this.limits.maxDurationMs;
+    }
+  }
+
+  /**
+   * Charge spending to this budget and its parents
+   */
+  charge(spend: Partial<Omit<BudgetSpend, 'elapsedMs'>>): void {
+    this.spent.tokens += spend.tokens ?? 0;
+    this.spent.cost += spend.cost ?? 0;
+    this.spent.toolCalls += spend.toolCalls ?? 0;
+    this.spent.modelCalls += spend.modelCalls ?? 0;
+    this.parent?.charge(spend);
+  }
+
+  /**
+   * The error for the first limit that has been passed, if any
+   *
+   * @param next Calls about to be made; counted as if already charged
+   */
+  exceeded(
+    next: { modelCalls?: number; toolCalls?: number } = {}
+  ): BudgetExceededError | undefined {
+    if (this.deadline !== undefined && Date.now() >= this.deadline) {
+      return new BudgetExceededError(
+        this.name,
+        'duration',
+        `The ${this.name} budget of ${this.limits.maxDurationMs}ms ran out`
+      );
+    }
+
+    const spend = {
+      ...this.spent,
+      toolCalls: this.spent.toolCalls + (next.toolCalls ?? 0),
+      modelCalls: this.spent.modelCalls + (next.modelCalls ?? 0),
+    };
+    for (const [limit, { key, unit }] of Object.entries(SPEND_LIMITS) as Array<
+      [keyof typeof SPEND_LIMITS, { key: keyof BudgetLimits; unit: string }]
+    >) {
+      const max = this.limits[key];
+      if (max !== undefined && spend[limit] > max) {
+        return new BudgetExceededError(
+          this.name,
+          limit,
+          `The ${this.name} budget of ${max} ${unit} was exceeded`
+        );
+      }
+    }
+
+    return this.parent?.exceeded(next);
+  }
+
+  /**
+   * Throw the error for the first limit that has been passed, if any
+   */
+  check(next?: { modelCalls?: number; toolCalls?: number }): void {
+    const error = this.exceeded(next);
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * When the earliest time limit of this budget or its parents runs out, as epoch ms
+   */
+  getDeadline(): number | undefined {
+    const inherited = this.parent?.getDeadline();
+    if (this.deadline === undefined || inherited === undefined) {
+      return this.deadline ?? inherited;
+    }
+    return Math.min(this.deadline, inherited);
+  }
+
+  /**
+   * Abort a controller once the deadline passes
+   *
+   * @returns A function that stops the timer
+   */
+  abortAtDeadline(controller: AbortController): () => void {
+    const deadline = this.getDeadline();
+    if (deadline === undefined) {
+      return () => undefined;
+    }
+
+    const timeoutId = setTimeout(
+      () =>
+        controller.abort(
+          this.exceeded() ?? new BudgetExceededError(this.name, 'duration', 'Budget time ran out')
+        ),
+      Math.max(0, deadline - Date.now())
+    );
+    return () => clearTimeout(timeoutId);
+  }
+
+  /**
+   * What has been charged to this budget so far
+   */
+  getSpend(): BudgetSpend {
+    return { ...this.spent, elapsedMs: Date.now() - this.startedAt };
+  }
+}
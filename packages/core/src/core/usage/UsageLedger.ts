@@ -0,0 +1,222 @@
+import type { GenerateResult } from '../../agents/types';
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Model prices keyed by "provider/model", e.g. "openai/gpt-4o"
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * What a model call is attributed to
+ */
+export interface UsageScope {
+  /** Task of the agent that made the call */
+  taskId?: string;
+  /** Top-level task, shared by every call in a task tree */
+  rootTaskId?: string;
+  conversationId?: string;
+}
+
+/**
+ * Token usage of a single model call
+ */
+export interface UsageRecord extends UsageScope {
+  agentId: string;
+  /** Model that answered, as "provider/model" */
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Cost in USD, when the model has a price */
+  cost?: number;
+  timestamp: Date;
+}
+
+/**
+ * Usage added up over a set of calls
+ */
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Cost in USD of the calls whose model has a price */
+  cost: number;
+  /** Calls whose model has no price */
+  unpricedCalls: number;
+}
+
+/**
+ * Usage ledger options
+ */
+export interface UsageLedgerOptions {
+  /** Model prices used to work out costs */
+  prices?: PriceTable;
+  /** Number of records kept for filtering; running totals are unaffected (default 10000) */
+  maxRecords?: number;
+}
+
+/**
+ * Usage record filter; every given field must match
+ */
+export type UsageFilter = Partial<Pick<UsageRecord, 'agentId' | 'model' | keyof UsageScope>>;
+
+/**
+ * Model ID in the "provider/model" form used by price tables
+ *
+ * Accepts the "provider:model" names given to models in a failover chain.
+ */
+export function toModelId(model: string): string {
+  return model.includes('/') ? model : model.replace(':', '/');
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+    unpricedCalls: 0,
+  };
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord): void {
+  totals.calls++;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.totalTokens += record.totalTokens;
+  if (record.cost === undefined) {
+    totals.unpricedCalls++;
+  } else {
+    totals.cost += record.cost;
+  }
+}
+
+/**
+ * Ledger of token usage and cost per model call
+ *
+ * Agents sharing a ledger record every call they make, tagged with the
+ * agent, task and conversation, so usage can be rolled up across a whole
+ * task tree: tool steps, sub-agents, retries and parallel runs.
+ */
+export class UsageLedger {
+  private prices: Map<string, ModelPrice>;
+  private maxRecords: number;
+  private records: UsageRecord[] = [];
+  private totals: UsageTotals = emptyTotals();
+  private modelTotals: Map<string, UsageTotals> = new Map();
+
+  constructor(options: UsageLedgerOptions = {}) {
+    this.prices = new Map(Object.entries(options.prices ?? {}));
+    this.maxRecords = options.maxRecords ?? 10000;
+  }
+
+  /**
+   * Record the usage of a model call
+   *
+   * Calls that report no usage are not recorded.
+   */
+  record(
+    entry: UsageScope & { agentId: string; model: string; usage: GenerateResult['usage'] }
+  ): UsageRecord | undefined {
+    const { usage, model, ...scope } = entry;
+    if (!usage) {
+      return undefined;
+    }
+
+    const modelId = toModelId(model);
+    const record: UsageRecord = {
+      ...scope,
+      model: modelId,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+      cost: this.getCost(modelId, usage.promptTokens, usage.completionTokens),
+      timestamp: new Date(),
+    };
+
+    this.records.push(record);
+    if (this.records.length > this.maxRecords) {
+      this.records.shift();
+    }
+
+    addToTotals(this.totals, record);
+    let forModel = this.modelTotals.get(modelId);
+    if (!forModel) {
+      forModel = emptyTotals();
+      this.modelTotals.set(modelId, forModel);
+    }
+    addToTotals(forModel, record);
+
+    return record;
+  }
+
+  /**
+   * Cost in USD of a call, or undefined when the model has no price
+   */
+  getCost(model: string, promptTokens: number, completionTokens: number): number | undefined {
+    const price = this.prices.get(toModelId(model));
+    if (!price) {
+      return undefined;
+    }
+    return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+  }
+
+  /**
+   * Set or replace the price of a model
+   */
+  setPrice(model: string, price: ModelPrice): void {
+    this.prices.set(toModelId(model), price);
+  }
+
+  /**
+   * Get the kept records matching a filter
+   */
+  getRecords(filter: UsageFilter = {}): UsageRecord[] {
+    const entries = Object.entries(filter) as Array<[keyof UsageFilter, string | undefined]>;
+    return this.records.filter((record) =>
+      entries.every(([key, value]) => value === undefined || record[key] === value)
+    );
+  }
+
+  /**
+   * Add up usage, over every call recorded or over the kept records matching a filter
+   */
+  getTotals(filter?: UsageFilter): UsageTotals {
+    if (!filter) {
+      return { ...this.totals };
+    }
+
+    const totals = emptyTotals();
+    for (const record of this.getRecords(filter)) {
+      addToTotals(totals, record);
+    }
+    return totals;
+  }
+
+  /**
+   * Usage of every call recorded, by model
+   */
+  getTotalsByModel(): Record<string, UsageTotals> {
+    return Object.fromEntries(
+      Array.from(this.modelTotals, ([model, totals]) => [model, { ...totals }])
+    );
+  }
+
+  /**
+   * Forget all records and totals
+   */
+  clear(): void {
+    this.records = [];
+    this.totals = emptyTotals();
+    this.modelTotals.clear();
+  }
+}
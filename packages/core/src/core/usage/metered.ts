@@ -0,0 +1,77 @@
+import type { AgentContext, GenerateOptions, GenerateResult } from '../../agents/types';
+import type { ModelAdapter } from '../model/ModelAdapter';
+import type { Budget } from './Budget';
+import type { UsageLedger, UsageScope } from './UsageLedger';
+
+/**
+ * Who a model call is recorded for in the usage ledger, and what it is charged to
+ */
+export interface CallAttribution extends UsageScope {
+  /** Agent the call is made on behalf of */
+  agentId: string;
+  /** Budget the call is checked against and charged to */
+  budget?: Budget;
+}
+
+/**
+ * Attribution for a call an agent makes while working on a task
+ */
+export function attributeToTask(agentId: string, context?: AgentContext): CallAttribution {
+  return {
+    agentId,
+    taskId: context?.parentTaskId ?? context?.rootTaskId,
+    rootTaskId: context?.rootTaskId,
+    conversationId: context?.conversationId,
+    budget: context?.activeBudget,
+  };
+}
+
+/**
+ * Charge a finished model call to a budget, priced like the usage ledger does
+ */
+export function chargeModelCall(
+  budget: Budget | undefined,
+  usage: GenerateResult['usage'],
+  model: string,
+  ledger?: UsageLedger
+): void {
+  budget?.charge({
+    modelCalls: 1,
+    tokens: usage?.totalTokens ?? 0,
+    cost: (usage && ledger?.getCost(model, usage.promptTokens, usage.completionTokens)) ?? 0,
+  });
+}
+
+/**
+ * Generate with a model, recording the call in a usage ledger
+ *
+ * Used for the calls made outside an agent's own loop, such as planning,
+ * routing, judging and summarizing, so they roll up with the task's usage
+ * and count against its budget. The budget is checked before the call and
+ * throws BudgetExceededError once it has run out. Calls without a ledger
+ * or attribution are not recorded.
+ */
+export async function generateMetered(
+  model: ModelAdapter,
+  options: GenerateOptions,
+  usage?: UsageLedger,
+  attribution?: CallAttribution
+): Promise<GenerateResult> {
+  attribution?.budget?.check({ modelCalls: 1 });
+
+  const result = await model.generate(options);
+  const modelId = result.model ?? model.getModelId();
+  if (usage && attribution) {
+    const { agentId, taskId, rootTaskId, conversationId } = attribution;
+    usage.record({
+      agentId,
+      taskId,
+      rootTaskId,
+      conversationId,
+      model: modelId,
+      usage: result.usage,
+    });
+  }
+  chargeModelCall(attribution?.budget, result.usage, modelId, usage);
+  return result;
+}
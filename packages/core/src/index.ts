@@ -6,9 +6,16 @@
  */
 
 // Agents
-export { BaseAgent, type AgentDependencies } from './agents/BaseAgent';
+export { BaseAgent, type AgentDependencies, type AgentGenerateOptions } from './agents/BaseAgent';
 export { SubAgent, ToolSubAgent, createToolSubAgent } from './agents/SubAgent';
 export { MainAgent, createMainAgent, type MainAgentDependencies } from './agents/MainAgent';
+export {
+  Planner,
+  InvalidPlanError,
+  planSchema,
+  type PlannerOptions,
+  type PlannerDependencies,
+} from './agents/Planner';
 export {
   AgentCoordinator,
   type SelectionStrategy,
@@ -16,6 +23,37 @@ export {
   CapabilityMatchStrategy,
   RoundRobinStrategy,
 } from './agents/AgentCoordinator';
+export {
+  LLMRouterStrategy,
+  routingDecisionSchema,
+  type RoutingDecision,
+  type LLMRouterOptions,
+  type LLMRouterDependencies,
+} from './agents/LLMRouterStrategy';
+export {
+  SemanticMatchStrategy,
+  type SemanticMatchOptions,
+  type SemanticMatchDependencies,
+} from './agents/SemanticMatchStrategy';
+export {
+  MajorityVoteAggregator,
+  FirstSuccessAggregator,
+  JudgeAggregator,
+  createAggregator,
+  type JudgeAggregatorDependencies,
+  type AggregatorDependencies,
+} from './agents/ResultAggregator';
+export {
+  SubAgentTool,
+  delegateToolName,
+  type SubAgentToolDependencies,
+} from './agents/SubAgentTool';
+export {
+  RetryPolicy,
+  createRetryPolicy,
+  type RetryPolicyOptions,
+  type RetryDecision,
+} from './agents/RetryPolicy';
 export type {
   AgentConfig,
   AgentContext,
@@ -25,13 +63,37 @@ export type {
   ModelConfig,
   GenerateOptions,
   GenerateResult,
+  GenerateStep,
+  GenerateObjectOptions,
+  GenerateObjectResult,
   CoordinationConfig,
+  RetryPolicyConfig,
+  RetryErrorKind,
+  LLMRouterConfig,
+  SemanticMatchConfig,
   AgentEvents,
   ToolCallResult,
+  ApprovalRequest,
+  ApprovalDecision,
+  ExecutionMode,
+  ExecuteOptions,
+  AgentExecuteOptions,
+  ConsensusOptions,
+  ConsensusResult,
+  ResultAggregator,
+  AggregatorType,
+  Plan,
+  PlanStep,
+  PlanStepResult,
 } from './agents/types';
 
 // Core - Model
-export { ModelAdapter, type StreamChunk } from './core/model/ModelAdapter';
+export { ModelAdapter, type StreamChunk, type ToolLoopOptions } from './core/model/ModelAdapter';
+export {
+  FallbackModelAdapter,
+  type FallbackModel,
+  type FallbackModelAdapterOptions,
+} from './core/model/FallbackModelAdapter';
 export {
   ModelFactory,
   ProviderNotAvailableError,
@@ -47,6 +109,16 @@ export {
 // Core - Tools
 export { BaseTool, createTool, type ToolContext, type ToolResult } from './core/tools/BaseTool';
 export { ToolRegistry, type ToolPermission } from './core/tools/ToolRegistry';
+export {
+  ApprovalGate,
+  AutoApproveHandler,
+  RuleApprovalHandler,
+  ToolApprovalError,
+  createApprovalGate,
+  type ApprovalHandler,
+  type ApprovalRule,
+  type ApprovalGateOptions,
+} from './core/tools/ApprovalGate';
 export {
   CalculatorTool,
   createCalculatorTool,
@@ -59,12 +131,166 @@ export {
   MockSearchProvider,
 } from './core/tools/builtin';
 
+// Core - Tokenizer
+export {
+  BpeTokenizer,
+  CharacterTokenizer,
+  createTokenizer,
+  getTokenizerForModel,
+  type Tokenizer,
+  type TokenizerName,
+  type BpeEncoding,
+} from './core/tokenizer/Tokenizer';
+
 // Core - Memory
-export { Memory, createMemory, type MemoryOptions } from './core/memory/Memory';
+export {
+  Memory,
+  createMemory,
+  type MemoryOptions,
+  type ContextOverhead,
+} from './core/memory/Memory';
+export {
+  LongTermMemory,
+  createLongTermMemory,
+  type LongTermMemoryOptions,
+  type LongTermRecord,
+  type LongTermRecordKind,
+  type RecallResult,
+  type RecallOptions,
+} from './core/memory/LongTermMemory';
+export {
+  HashingEmbedder,
+  ModelEmbedder,
+  cosineSimilarity,
+  type Embedder,
+  type HashingEmbedderOptions,
+  type ModelEmbedderOptions,
+} from './core/memory/Embedder';
+export {
+  VectorIndex,
+  VectorIndexError,
+  type VectorEntry,
+  type VectorMatch,
+  type VectorIndexOptions,
+} from './core/memory/VectorIndex';
+export {
+  TruncationStrategy,
+  SummarizationStrategy,
+  createSummarizationStrategy,
+  type CompactionStrategy,
+  type CompactionInput,
+  type CompactionRecord,
+  type SummarizationStrategyOptions,
+} from './core/memory/CompactionStrategy';
+export {
+  MemoryStoreError,
+  serializeMessage,
+  deserializeMessage,
+  type MemoryStore,
+  type StoredConversation,
+} from './core/memory/MemoryStore';
+export {
+  FileMemoryStore,
+  createFileMemoryStore,
+  SQLiteMemoryStore,
+  createSQLiteMemoryStore,
+  openSqliteDatabase,
+  type FileMemoryStoreOptions,
+  type SQLiteMemoryStoreOptions,
+  type SqliteDatabase,
+  type SqliteStatement,
+} from './core/memory/stores';
+
+// Core - Usage
+export {
+  UsageLedger,
+  toModelId,
+  type ModelPrice,
+  type PriceTable,
+  type UsageScope,
+  type UsageRecord,
+  type UsageTotals,
+  type UsageFilter,
+  type UsageLedgerOptions,
+} from './core/usage/UsageLedger';
+export { generateMetered, attributeToTask, type CallAttribution } from './core/usage/metered';
+export {
+  Budget,
+  BudgetExceededError,
+  type BudgetLimits,
+  type BudgetConfig,
+  type BudgetLimit,
+  type BudgetSpend,
+  type BudgetOptions,
+} from './core/usage/Budget';
+
+// Core - MCP
+export {
+  McpClient,
+  createMcpClient,
+  connectMcpServer,
+  type McpClientOptions,
+  type McpClientState,
+  type McpReconnectOptions,
+  type McpRegisterOptions,
+  type McpServerConfig,
+  type McpServerInfo,
+  type McpToolInfo,
+  type McpContent,
+  type McpCallResult,
+} from './core/mcp/McpClient';
+export { McpTool } from './core/mcp/McpTool';
+export { McpServer, createMcpServer, type McpServerOptions } from './core/mcp/McpServer';
+export {
+  McpError,
+  StdioTransport,
+  StreamableHttpTransport,
+  type McpTransport,
+  type TransportHandlers,
+  type StdioTransportOptions,
+  type StreamableHttpTransportOptions,
+  type JsonRpcMessage,
+  type JsonRpcRequest,
+  type JsonRpcNotification,
+  type JsonRpcResponse,
+} from './core/mcp/McpTransport';
+
+// Server
+export {
+  HttpApiServer,
+  createHttpApiServer,
+  type HttpApiServerOptions,
+  type HttpAuthenticator,
+} from './server/HttpApiServer';
+export { HttpError } from './server/errors';
+export {
+  ChatCompletionsAdapter,
+  createChatCompletionsAdapter,
+  type ChatCompletionsOptions,
+} from './server/ChatCompletions';
+export {
+  createConversationRequestSchema,
+  postMessageRequestSchema,
+  taskResultSchema,
+  errorResponseSchema,
+  chatCompletionRequestSchema,
+  chatCompletionSchema,
+  chatCompletionChunkSchema,
+  type CreateConversationRequest,
+  type PostMessageRequest,
+  type ConversationResponse,
+  type TaskResultResponse,
+  type ErrorResponse,
+  type ChatCompletionRequest,
+  type ChatCompletion,
+  type ChatCompletionChunk,
+} from './server/schemas';
 
 // Utils
 export { EventBus, getGlobalEventBus, resetGlobalEventBus } from './utils/event-bus';
 export { TaskQueue } from './utils/task-queue';
+export { TaskCancelledError } from './utils/abort';
+export { zodToJsonSchema, type JsonSchema } from './utils/json-schema';
 export {
   Logger,
   createJsonLogger,
@@ -81,10 +307,16 @@ export {
   modelConfigSchema,
   subAgentConfigSchema,
   coordinationConfigSchema,
+  retryPolicySchema,
+  budgetLimitsSchema,
+  mcpServerSchema,
+  memoryStoreSchema,
   parseConfig,
   validateConfig,
   type Config,
   type ModelConfigType,
   type SubAgentConfigType,
   type CoordinationConfigType,
+  type RetryPolicyConfigType,
+  type MemoryStoreConfigType,
 } from './config/schema';
@@ -0,0 +1,279 @@
+import { randomUUID } from 'crypto';
+import type { MainAgent } from '../agents/MainAgent';
+import type { AgentResult, Message } from '../agents/types';
+import type { Memory } from '../core/memory/Memory';
+import { BudgetExceededError } from '../core/usage/Budget';
+import type { Logger } from '../utils/logger';
+import { HttpError } from './errors';
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionMessage,
+  ChatCompletionRequest,
+  ModelList,
+} from './schemas';
+
+/**
+ * Chat completions adapter options
+ */
+export interface ChatCompletionsOptions {
+  agent: MainAgent;
+  /** Memory the agent keeps its conversations in */
+  memory: Memory;
+  /** Model ID listed by GET /v1/models (defaults to the agent ID); requests may name any model */
+  model?: string;
+  logger?: Logger;
+}
+
+/**
+ * Runs OpenAI chat completion requests on a main agent
+ *
+ * Each request carries the whole conversation, so it gets a conversation of
+ * its own: the messages before the last one are loaded into memory as
+ * history, the last user message runs as the task, and the conversation is
+ * dropped afterwards, along with those its plan steps and delegated
+ * sub-agents ran in. The task ID is the completion ID, so a running
+ * completion can be cancelled like any other task.
+ */
+export class ChatCompletionsAdapter {
+  private agent: MainAgent;
+  private memory: Memory;
+  private model: string;
+  private logger?: Logger;
+
+  constructor(options: ChatCompletionsOptions) {
+    this.agent = options.agent;
+    this.memory = options.memory;
+    this.model = options.model ?? options.agent.id;
+    this.logger = options.logger;
+  }
+
+  /**
+   * Answer a request with a single completion
+   */
+  async complete(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ChatCompletion> {
+    const { id, created, task } = this.prepare(request);
+
+    try {
+      const result = await this.agent.execute(
+        task,
+        { ...this.agent.createChatContext(id), signal },
+        { taskId: id }
+      );
+      return {
+        id,
+        object: 'chat.completion',
+        created,
+        model: request.model,
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: result.content, refusal: null },
+            logprobs: null,
+            finish_reason: this.finishReason(result),
+          },
+        ],
+        usage: toCompletionUsage(result),
+      };
+    } finally {
+      this.dropConversations(id);
+    }
+  }
+
+  /**
+   * Answer a request with completion chunks
+   *
+   * Text deltas are forwarded as the agent streams them. Modes that only
+   * produce their answer at the end send it as one delta. A usage chunk
+   * follows the last choice when stream_options.include_usage is set.
+   */
+  async *stream(
+    request: ChatCompletionRequest,
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatCompletionChunk> {
+    const { id, created, task } = this.prepare(request);
+    const chunk = (
+      delta: ChatCompletionChunk['choices'][number]['delta'],
+      finishReason: 'stop' | 'length' | null = null
+    ): ChatCompletionChunk => ({
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model: request.model,
+      choices: [{ index: 0, delta, logprobs: null, finish_reason: finishReason }],
+    });
+
+    try {
+      yield chunk({ role: 'assistant', content: '' });
+
+      let streamed = false;
+      let result: AgentResult | undefined;
+      const parts = this.agent.executeStream(
+        task,
+        { ...this.agent.createChatContext(id), signal },
+        { taskId: id }
+      );
+      for await (const part of parts) {
+        if (part.type === 'text-delta' && part.textDelta) {
+          streamed = true;
+          yield chunk({ content: part.textDelta });
+        } else if (part.type === 'result') {
+          result = part.result;
+        }
+      }
+      if (!result) {
+        throw new HttpError(500, 'task_failed', 'Task ended without a result');
+      }
+
+      const finishReason = this.finishReason(result);
+      if (!streamed && result.content) {
+        yield chunk({ content: result.content });
+      }
+      yield chunk({}, finishReason);
+
+      if (request.stream_options?.include_usage) {
+        yield { ...chunk({}), choices: [], usage: toCompletionUsage(result) };
+      }
+    } finally {
+      this.dropConversations(id);
+    }
+  }
+
+  /**
+   * Models to list: the agent, under the configured model ID
+   */
+  listModels(): ModelList {
+    return {
+      object: 'list',
+      data: [{ id: this.model, object: 'model', created: 0, owned_by: 'plan-agent' }],
+    };
+  }
+
+  /**
+   * Check a request and load its history into a new conversation
+   */
+  private prepare(request: ChatCompletionRequest) {
+    const last = request.messages[request.messages.length - 1];
+    if (last.role !== 'user') {
+      throw new HttpError(400, 'invalid_request', 'The last message must be a user message');
+    }
+    const task = toText(last.content);
+    if (!task) {
+      throw new HttpError(400, 'invalid_request', 'The last message has no text content');
+    }
+
+    const id = `chatcmpl-${randomUUID().replace(/-/g, '')}`;
+    const history = toMemoryMessages(request.messages.slice(0, -1));
+    if (history.length > 0) {
+      this.memory.addMessages(id, history);
+    }
+    this.logger?.debug('Chat completion requested', {
+      id,
+      model: request.model,
+      messages: request.messages.length,
+    });
+
+    return { id, created: Math.floor(Date.now() / 1000), task };
+  }
+
+  /**
+   * Delete a request's conversation and the ones derived from it, named "<id>:<suffix>"
+   */
+  private dropConversations(id: string): void {
+    for (const conversationId of this.memory.getConversationIds()) {
+      if (conversationId === id || conversationId.startsWith(`${id}:`)) {
+        this.memory.deleteConversation(conversationId);
+      }
+    }
+  }
+
+  /**
+   * "length" for a run stopped by its budget; other failures are errors
+   */
+  private finishReason(result: AgentResult): 'stop' | 'length' {
+    if (result.success) {
+      return 'stop';
+    }
+    if (result.error instanceof BudgetExceededError) {
+      return 'length';
+    }
+    throw new HttpError(500, 'task_failed', result.error?.message ?? 'Task failed');
+  }
+}
+
+/**
+ * Create a chat completions adapter for a main agent
+ */
+export function createChatCompletionsAdapter(
+  options: ChatCompletionsOptions
+): ChatCompletionsAdapter {
+  return new ChatCompletionsAdapter(options);
+}
+
+function toText(content: ChatCompletionMessage['content']): string {
+  if (content == null) {
+    return '';
+  }
+  return typeof content === 'string' ? content : content.map((part) => part.text).join('\n');
+}
+
+/**
+ * Convert OpenAI messages to memory messages; developer messages count as system messages
+ */
+function toMemoryMessages(messages: ChatCompletionMessage[]): Message[] {
+  const toolNames = new Map<string, string>();
+
+  return messages.map((message): Message => {
+    const content = toText(message.content);
+    const timestamp = new Date();
+
+    switch (message.role) {
+      case 'system':
+      case 'developer':
+        return { role: 'system', content, timestamp };
+      case 'assistant': {
+        const toolCalls = message.tool_calls?.map((call) => {
+          toolNames.set(call.id, call.function.name);
+          return {
+            toolCallId: call.id,
+            toolName: call.function.name,
+            args: parseArguments(call.function.arguments),
+          };
+        });
+        return { role: 'assistant', content, timestamp, toolCalls };
+      }
+      case 'tool':
+        return {
+          role: 'tool',
+          content,
+          timestamp,
+          toolCallId: message.tool_call_id,
+          toolName: message.tool_call_id ? toolNames.get(message.tool_call_id) : undefined,
+        };
+      default:
+        return { role: 'user', content, timestamp };
+    }
+  });
+}
+
+/**
+ * Parse tool call arguments, which OpenAI sends as a JSON string
+ */
+function parseArguments(text: string): Record<string, unknown> {
+  try {
+    const args: unknown = JSON.parse(text);
+    return typeof args === 'object' && args !== null && !Array.isArray(args)
+      ? (args as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+function toCompletionUsage(result: AgentResult): ChatCompletion['usage'] {
+  return {
+    prompt_tokens: result.usage?.promptTokens ?? 0,
+    completion_tokens: result.usage?.completionTokens ?? 0,
+    total_tokens: result.usage?.totalTokens ?? 0,
+  };
+}
@@ -0,0 +1,561 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type RequestListener,
+  type Server,
+  type ServerResponse,
+} from 'http';
+import type { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import type { MainAgent } from '../agents/MainAgent';
+import type { AgentResult, AgentStreamChunk, Message } from '../agents/types';
+import type { Memory } from '../core/memory/Memory';
+import type { ToolRegistry } from '../core/tools/ToolRegistry';
+import type { Logger } from '../utils/logger';
+import { ChatCompletionsAdapter } from './ChatCompletions';
+import {
+  cancelTaskRequestSchema,
+  chatCompletionChunkSchema,
+  chatCompletionRequestSchema,
+  chatCompletionSchema,
+  cancelTaskResponseSchema,
+  conversationDetailSchema,
+  conversationListSchema,
+  conversationSchema,
+  createConversationRequestSchema,
+  errorResponseSchema,
+  modelListSchema,
+  postMessageRequestSchema,
+  statsSchema,
+  subAgentListSchema,
+  taskListSchema,
+  taskResultSchema,
+  toolListSchema,
+  type ConversationResponse,
+  type PostMessageRequest,
+  type TaskResultResponse,
+} from './schemas';
+import { HttpError } from './errors';
+
+/**
+ * Decides whether a request may proceed, given its bearer token
+ */
+export type HttpAuthenticator = (
+  token: string | undefined,
+  request: IncomingMessage
+) => boolean | Promise<boolean>;
+
+/**
+ * HTTP API server options
+ */
+export interface HttpApiServerOptions {
+  agent: MainAgent;
+  /** Memory the agent keeps its conversations in */
+  memory: Memory;
+  /** Tools listed by GET /tools */
+  tools: ToolRegistry;
+  /** Checks each request's bearer token; every request is allowed when unset */
+  authenticate?: HttpAuthenticator;
+  /** Largest request body accepted, in bytes (default 1 MB) */
+  maxBodySize?: number;
+  /** Also serve the OpenAI-compatible /v1/chat/completions and /v1/models endpoints */
+  chatCompletions?: {
+    /** Model ID listed by /v1/models (defaults to the agent ID) */
+    model?: string;
+  };
+  logger?: Logger;
+}
+
+/**
+ * Route handler; params are the path segments captured by the route
+ */
+type RouteHandler = (
+  request: IncomingMessage,
+  response: ServerResponse,
+  params: string[]
+) => Promise<void>;
+
+interface Route {
+  method: string;
+  path: RegExp;
+  handle: RouteHandler;
+}
+
+/**
+ * JSON API over node:http for a main agent
+ *
+ * Conversations live in the agent's memory. A message runs as a chat turn,
+ * either answered when done or streamed as server-sent events: one event per
+ * stream chunk, named after the chunk type, ending with a "result" event.
+ * A streamed task is cancelled when the client disconnects. Request bodies
+ * and responses are validated with the schemas in ./schemas.
+ *
+ * With the chatCompletions option, OpenAI chat clients can talk to the agent
+ * too; see ChatCompletionsAdapter.
+ */
+export class HttpApiServer {
+  /** Request listener, for mounting the API on an existing node:http server */
+  readonly handler: RequestListener;
+  private agent: MainAgent;
+  private memory: Memory;
+  private tools: ToolRegistry;
+  private authenticate?: HttpAuthenticator;
+  private maxBodySize: number;
+  private logger?: Logger;
+  private chatCompletions?: ChatCompletionsAdapter;
+  private routes: Route[];
+  private server?: Server;
+
+  constructor(options: HttpApiServerOptions) {
+    this.agent = options.agent;
+    this.memory = options.memory;
+    this.tools = options.tools;
+    this.authenticate = options.authenticate;
+    this.maxBodySize = options.maxBodySize ?? 1024 * 1024;
+    this.logger = options.logger;
+    this.handler = (request, response) => {
+      this.handleRequest(request, response).catch((error: unknown) => {
+        this.sendError(response, error);
+      });
+    };
+
+    this.routes = [
+      { method: 'GET', path: /^\/conversations$/, handle: this.listConversations },
+      { method: 'POST', path: /^\/conversations$/, handle: this.createConversation },
+      { method: 'GET', path: /^\/conversations\/([^/]+)$/, handle: this.getConversation },
+      { method: 'DELETE', path: /^\/conversations\/([^/]+)$/, handle: this.deleteConversation },
+      { method: 'POST', path: /^\/conversations\/([^/]+)\/messages$/, handle: this.postMessage },
+      { method: 'GET', path: /^\/tasks$/, handle: this.listTasks },
+      { method: 'POST', path: /^\/tasks\/([^/]+)\/cancel$/, handle: this.cancelTask },
+      { method: 'GET', path: /^\/agents$/, handle: this.listSubAgents },
+      { method: 'GET', path: /^\/tools$/, handle: this.listTools },
+      { method: 'GET', path: /^\/stats$/, handle: this.getStats },
+    ];
+
+    if (options.chatCompletions) {
+      this.chatCompletions = new ChatCompletionsAdapter({
+        agent: options.agent,
+        memory: options.memory,
+        model: options.chatCompletions.model,
+        logger: options.logger,
+      });
+      this.routes.push(
+        { method: 'POST', path: /^\/v1\/chat\/completions$/, handle: this.createChatCompletion },
+        { method: 'GET', path: /^\/v1\/models$/, handle: this.listModels }
+      );
+    }
+  }
+
+  /**
+   * Start listening
+   *
+   * @returns The address the server is bound to
+   */
+  async listen(port = 3000, host = '127.0.0.1'): Promise<AddressInfo> {
+    const server = createServer(this.handler);
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    return server.address() as AddressInfo;
+  }
+
+  /**
+   * Stop listening and drop open connections, cancelling streamed tasks
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+
+    await new Promise<void>((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+      server.closeAllConnections();
+    });
+  }
+
+  private async handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    if (this.authenticate) {
+      const header = request.headers.authorization;
+      const token = header?.match(/^Bearer\s+(.+)$/i)?.[1];
+      if (!(await this.authenticate(token, request))) {
+        response.setHeader('www-authenticate', 'Bearer');
+        throw new HttpError(401, 'unauthorized', 'Missing or invalid bearer token');
+      }
+    }
+
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+    const matches = this.routes
+      .map((route) => ({ route, match: route.path.exec(pathname) }))
+      .filter(({ match }) => match !== null);
+    if (matches.length === 0) {
+      throw new HttpError(404, 'not_found', `No route for ${pathname}`);
+    }
+
+    const matched = matches.find(({ route }) => route.method === request.method);
+    if (!matched) {
+      response.setHeader('allow', matches.map(({ route }) => route.method).join(', '));
+      throw new HttpError(405, 'method_not_allowed', `${request.method} is not allowed here`);
+    }
+
+    const params = matched.match!.slice(1).map((param) => decodeURIComponent(param));
+    await matched.route.handle.call(this, request, response, params);
+  }
+
+  private async listConversations(_request: IncomingMessage, response: ServerResponse) {
+    const conversations = this.memory.getConversationIds().map((id) => this.toConversation(id));
+    this.send(response, 200, conversationListSchema, { conversations });
+  }
+
+  private async createConversation(request: IncomingMessage, response: ServerResponse) {
+    const body = await this.readBody(request, createConversationRequestSchema);
+    const id = body.id ?? randomUUID();
+    if (this.hasConversation(id)) {
+      throw new HttpError(409, 'conflict', `Conversation ${id} already exists`);
+    }
+
+    this.memory.getConversation(id);
+    for (const [key, value] of Object.entries(body.metadata ?? {})) {
+      this.memory.setMetadata(id, key, value);
+    }
+    this.send(response, 201, conversationSchema, this.toConversation(id));
+  }
+
+  private async getConversation(
+    _request: IncomingMessage,
+    response: ServerResponse,
+    [id]: string[]
+  ) {
+    this.requireConversation(id);
+    this.send(response, 200, conversationDetailSchema, {
+      ...this.toConversation(id),
+      messages: this.memory.getHistory(id).map(toMessageBody),
+    });
+  }
+
+  private async deleteConversation(
+    _request: IncomingMessage,
+    response: ServerResponse,
+    [id]: string[]
+  ) {
+    this.requireConversation(id);
+    this.memory.deleteConversation(id);
+    response.writeHead(204).end();
+  }
+
+  private async postMessage(request: IncomingMessage, response: ServerResponse, [id]: string[]) {
+    const body = await this.readBody(request, postMessageRequestSchema);
+    this.requireConversation(id);
+    const taskId = body.taskId ?? `task-${randomUUID()}`;
+    // A reused ID would take over the running task's cancellation
+    if (this.agent.getRunningTasks().includes(taskId)) {
+      throw new HttpError(409, 'conflict', `Task ${taskId} is already running`);
+    }
+
+    const streaming = body.stream || request.headers.accept?.includes('text/event-stream');
+    if (streaming) {
+      await this.streamMessage(response, id, taskId, body);
+      return;
+    }
+
+    let finished = false;
+    response.on('close', () => {
+      if (!finished) {
+        this.agent.cancel(taskId, 'Client disconnected');
+      }
+    });
+
+    const result = await this.agent.execute(body.content, this.agent.createChatContext(id), {
+      taskId,
+      mode: body.mode,
+    });
+    finished = true;
+    this.send(response, 200, taskResultSchema, toTaskResult(taskId, id, result));
+  }
+
+  /**
+   * Run a chat turn, writing each chunk as a server-sent event
+   */
+  private async streamMessage(
+    response: ServerResponse,
+    conversationId: string,
+    taskId: string,
+    body: PostMessageRequest
+  ): Promise<void> {
+    startEventStream(response);
+    const writeEvent = (event: string, data: unknown) => {
+      response.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    let finished = false;
+    response.on('close', () => {
+      if (!finished) {
+        this.agent.cancel(taskId, 'Client disconnected');
+      }
+    });
+
+    writeEvent('task', { taskId, conversationId });
+    const stream = this.agent.executeStream(
+      body.content,
+      this.agent.createChatContext(conversationId),
+      { taskId, mode: body.mode }
+    );
+    for await (const chunk of stream) {
+      writeEvent(chunk.type, toChunkBody(chunk, taskId, conversationId));
+    }
+    finished = true;
+    response.end();
+  }
+
+  /**
+   * Answer an OpenAI chat completion request, streamed as data-only
+   * server-sent events ending with [DONE] when it asks for a stream
+   */
+  private async createChatCompletion(request: IncomingMessage, response: ServerResponse) {
+    const adapter = this.chatCompletions!;
+    const body = await this.readBody(request, chatCompletionRequestSchema);
+
+    let finished = false;
+    const controller = new AbortController();
+    response.on('close', () => {
+      if (!finished) {
+        controller.abort(new Error('Client disconnected'));
+      }
+    });
+
+    if (!body.stream) {
+      const completion = await adapter.complete(body, controller.signal);
+      finished = true;
+      this.send(response, 200, chatCompletionSchema, completion);
+      return;
+    }
+
+    const chunks = adapter.stream(body, controller.signal);
+    // Pull the first chunk before the headers go out, so a bad request still gets a 400
+    let next = await chunks.next();
+    startEventStream(response);
+    const writeData = (data: unknown) => {
+      response.write(`data: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      while (!next.done) {
+        writeData(chatCompletionChunkSchema.parse(next.value));
+        next = await chunks.next();
+      }
+    } catch (error) {
+      const httpError = toHttpError(error);
+      if (!(error instanceof HttpError)) {
+        this.logger?.error('Chat completion stream failed', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      writeData({ error: { code: httpError.code, message: httpError.message } });
+    }
+    finished = true;
+    response.end('data: [DONE]\n\n');
+  }
+
+  private async listModels(_request: IncomingMessage, response: ServerResponse) {
+    this.send(response, 200, modelListSchema, this.chatCompletions!.listModels());
+  }
+
+  private async listTasks(_request: IncomingMessage, response: ServerResponse) {
+    const tasks = this.agent.getRunningTasks().map((id) => ({ id }));
+    this.send(response, 200, taskListSchema, { tasks });
+  }
+
+  private async cancelTask(request: IncomingMessage, response: ServerResponse, [id]: string[]) {
+    const body = await this.readBody(request, cancelTaskRequestSchema);
+    if (!this.agent.cancel(id, body.reason)) {
+      throw new HttpError(404, 'not_found', `Task ${id} is not running`);
+    }
+    this.send(response, 200, cancelTaskResponseSchema, { taskId: id, cancelled: true });
+  }
+
+  private async listSubAgents(_request: IncomingMessage, response: ServerResponse) {
+    const agents = this.agent
+      .getCoordinator()
+      .getAllSubAgents()
+      .map((agent) => ({
+        id: agent.id,
+        name: agent.name,
+        specialization: agent.specialization,
+        capabilities: agent.capabilities,
+        priority: agent.priority,
+      }));
+    this.send(response, 200, subAgentListSchema, { agents });
+  }
+
+  private async listTools(_request: IncomingMessage, response: ServerResponse) {
+    const tools = this.tools.getAll().map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.getInputJsonSchema(),
+    }));
+    this.send(response, 200, toolListSchema, { tools });
+  }
+
+  private async getStats(_request: IncomingMessage, response: ServerResponse) {
+    this.send(response, 200, statsSchema, this.agent.getStats());
+  }
+
+  /**
+   * Read and validate a JSON body; an empty body counts as {}
+   */
+  private async readBody<T>(request: IncomingMessage, schema: z.ZodType<T, z.ZodTypeDef, unknown>) {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of request as AsyncIterable<Buffer>) {
+      size += chunk.length;
+      if (size > this.maxBodySize) {
+        throw new HttpError(413, 'payload_too_large', `Body exceeds ${this.maxBodySize} bytes`);
+      }
+      chunks.push(chunk);
+    }
+
+    const text = Buffer.concat(chunks).toString('utf8').trim();
+    let json: unknown = {};
+    if (text) {
+      try {
+        json = JSON.parse(text);
+      } catch {
+        throw new HttpError(400, 'invalid_json', 'Body is not valid JSON');
+      }
+    }
+
+    const result = schema.safeParse(json);
+    if (!result.success) {
+      throw new HttpError(400, 'invalid_request', 'Body failed validation', result.error.issues);
+    }
+    return result.data;
+  }
+
+  /**
+   * Validate a response body against its schema and send it
+   */
+  private send<T>(
+    response: ServerResponse,
+    status: number,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    body: unknown
+  ): void {
+    const data = schema.parse(body);
+    response.writeHead(status, { 'content-type': 'application/json' });
+    response.end(JSON.stringify(data));
+  }
+
+  private sendError(response: ServerResponse, error: unknown): void {
+    const httpError = toHttpError(error);
+    if (!(error instanceof HttpError)) {
+      this.logger?.error('HTTP API request failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (response.headersSent) {
+      // Mid-stream: the status is already out, so just end the response
+      response.end();
+      return;
+    }
+    this.send(response, httpError.status, errorResponseSchema, {
+      error: { code: httpError.code, message: httpError.message, details: httpError.details },
+    });
+  }
+
+  private hasConversation(id: string): boolean {
+    return this.memory.getConversationIds().includes(id);
+  }
+
+  private requireConversation(id: string): void {
+    if (!this.hasConversation(id)) {
+      throw new HttpError(404, 'not_found', `Conversation ${id} not found`);
+    }
+  }
+
+  private toConversation(id: string): ConversationResponse {
+    const entry = this.memory.getConversation(id);
+    return {
+      id,
+      createdAt: entry.createdAt.toISOString(),
+      updatedAt: entry.updatedAt.toISOString(),
+      messageCount: entry.messages.length,
+      metadata: entry.metadata,
+    };
+  }
+}
+
+/**
+ * Create an HTTP API server for a main agent
+ */
+export function createHttpApiServer(options: HttpApiServerOptions): HttpApiServer {
+  return new HttpApiServer(options);
+}
+
+function startEventStream(response: ServerResponse): void {
+  response.writeHead(200, {
+    'content-type': 'text/event-stream',
+    'cache-control': 'no-cache',
+    connection: 'keep-alive',
+  });
+}
+
+function toHttpError(error: unknown): HttpError {
+  return error instanceof HttpError
+    ? error
+    : new HttpError(500, 'internal_error', 'Internal server error');
+}
+
+function toMessageBody(message: Message) {
+  return { ...message, timestamp: new Date(message.timestamp).toISOString() };
+}
+
+function toTaskResult(
+  taskId: string,
+  conversationId: string,
+  result: AgentResult
+): TaskResultResponse {
+  return {
+    taskId,
+    conversationId,
+    success: result.success,
+    content: result.content,
+    error: result.error?.message,
+    toolCalls: result.toolCalls?.map((call) => ({
+      toolCallId: call.toolCallId,
+      toolName: call.toolName,
+      agentId: call.agentId,
+      args: call.args,
+      result: call.result,
+      error: call.error,
+      durationMs: call.durationMs,
+    })),
+    usage: result.usage,
+    metadata: result.metadata,
+  };
+}
+
+/**
+ * Event data for a stream chunk; results carry error messages instead of errors
+ */
+function toChunkBody(chunk: AgentStreamChunk, taskId: string, conversationId: string): unknown {
+  switch (chunk.type) {
+    case 'result':
+      return taskResultSchema.parse(toTaskResult(taskId, conversationId, chunk.result));
+    case 'subagent-complete':
+      return {
+        ...chunk,
+        result: { ...chunk.result, error: chunk.result.error?.message },
+      };
+    default:
+      return chunk;
+  }
+}
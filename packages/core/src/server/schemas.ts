@@ -0,0 +1,328 @@
+import { z } from 'zod';
+
+/**
+ * Execution modes a message can ask for
+ */
+const executionModeSchema = z.enum(['delegate', 'plan', 'consensus', 'agents-as-tools']);
+
+/**
+ * POST /conversations body
+ */
+export const createConversationRequestSchema = z
+  .object({
+    /** Conversation ID; generated when omitted */
+    id: z
+      .string()
+      .min(1)
+      .max(200)
+      .regex(/^[\w.:-]+$/, 'Use letters, digits, ".", ":", "_" and "-"')
+      .optional(),
+    metadata: z.record(z.string(), z.unknown()).optional(),
+  })
+  .strict();
+
+/**
+ * POST /conversations/:id/messages body
+ */
+export const postMessageRequestSchema = z
+  .object({
+    content: z.string().min(1),
+    /** Stream the answer as server-sent events instead of waiting for it */
+    stream: z.boolean().default(false),
+    mode: executionModeSchema.optional(),
+    /** Task ID to cancel the run by; generated when omitted */
+    taskId: z.string().min(1).max(200).optional(),
+  })
+  .strict();
+
+/**
+ * POST /tasks/:id/cancel body
+ */
+export const cancelTaskRequestSchema = z
+  .object({
+    reason: z.string().optional(),
+  })
+  .strict();
+
+/**
+ * Conversation summary
+ */
+export const conversationSchema = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  messageCount: z.number().int(),
+  metadata: z.record(z.string(), z.unknown()),
+});
+
+/**
+ * GET /conversations response
+ */
+export const conversationListSchema = z.object({
+  conversations: z.array(conversationSchema),
+});
+
+/**
+ * Message in a conversation's history
+ */
+export const messageSchema = z.object({
+  role: z.enum(['user', 'assistant', 'system', 'tool']),
+  content: z.string(),
+  timestamp: z.string(),
+  toolCallId: z.string().optional(),
+  toolName: z.string().optional(),
+  toolCalls: z
+    .array(
+      z.object({
+        toolCallId: z.string(),
+        toolName: z.string(),
+        args: z.record(z.string(), z.unknown()),
+      })
+    )
+    .optional(),
+  toolResult: z.unknown().optional(),
+  isError: z.boolean().optional(),
+});
+
+/**
+ * GET /conversations/:id response
+ */
+export const conversationDetailSchema = conversationSchema.extend({
+  messages: z.array(messageSchema),
+});
+
+/**
+ * Token usage and cost
+ */
+export const usageTotalsSchema = z.object({
+  calls: z.number(),
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  totalTokens: z.number(),
+  cost: z.number(),
+  unpricedCalls: z.number(),
+});
+
+/**
+ * Outcome of a task, as returned for a message and in the final stream event
+ */
+export const taskResultSchema = z.object({
+  taskId: z.string(),
+  conversationId: z.string(),
+  success: z.boolean(),
+  content: z.string(),
+  error: z.string().optional(),
+  toolCalls: z
+    .array(
+      z.object({
+        toolCallId: z.string(),
+        toolName: z.string(),
+        agentId: z.string(),
+        args: z.record(z.string(), z.unknown()),
+        result: z.unknown(),
+        error: z.string().optional(),
+        durationMs: z.number().optional(),
+      })
+    )
+    .optional(),
+  usage: usageTotalsSchema.optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+});
+
+/**
+ * GET /tasks response: the tasks still running
+ */
+export const taskListSchema = z.object({
+  tasks: z.array(z.object({ id: z.string() })),
+});
+
+/**
+ * POST /tasks/:id/cancel response
+ */
+export const cancelTaskResponseSchema = z.object({
+  taskId: z.string(),
+  cancelled: z.literal(true),
+});
+
+/**
+ * GET /agents response
+ */
+export const subAgentListSchema = z.object({
+  agents: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      specialization: z.string(),
+      capabilities: z.array(z.string()),
+      priority: z.number(),
+    })
+  ),
+});
+
+/**
+ * GET /tools response
+ */
+export const toolListSchema = z.object({
+  tools: z.array(
+    z.object({
+      name: z.string(),
+      description: z.string(),
+      inputSchema: z.record(z.string(), z.unknown()),
+    })
+  ),
+});
+
+/**
+ * GET /stats response
+ */
+export const statsSchema = z
+  .object({
+    agentId: z.string(),
+    agentName: z.string(),
+    coordinator: z.record(z.string(), z.unknown()),
+    memory: z.record(z.string(), z.unknown()),
+    tools: z.record(z.string(), z.unknown()),
+    usage: usageTotalsSchema.extend({
+      byModel: z.record(z.string(), usageTotalsSchema),
+    }),
+  })
+  .strict();
+
+/**
+ * Body of every error response
+ */
+export const errorResponseSchema = z.object({
+  error: z.object({
+    code: z.string(),
+    message: z.string(),
+    details: z.unknown().optional(),
+  }),
+});
+
+/**
+ * Content of an OpenAI chat message: a string or text parts
+ */
+const chatContentSchema = z.union([
+  z.string(),
+  z.array(z.object({ type: z.literal('text'), text: z.string() }).passthrough()),
+]);
+
+/**
+ * Message in an OpenAI chat completion request
+ */
+export const chatCompletionMessageSchema = z
+  .object({
+    role: z.enum(['system', 'developer', 'user', 'assistant', 'tool']),
+    content: chatContentSchema.nullish(),
+    name: z.string().optional(),
+    tool_call_id: z.string().optional(),
+    tool_calls: z
+      .array(
+        z.object({
+          id: z.string(),
+          type: z.literal('function'),
+          function: z.object({ name: z.string(), arguments: z.string() }),
+        })
+      )
+      .optional(),
+  })
+  .passthrough();
+
+/**
+ * POST /v1/chat/completions body
+ *
+ * Sampling parameters and client tools are accepted and ignored: the agent
+ * runs with its own models and tools.
+ */
+export const chatCompletionRequestSchema = z
+  .object({
+    model: z.string().min(1),
+    messages: z.array(chatCompletionMessageSchema).min(1),
+    stream: z.boolean().nullish(),
+    stream_options: z.object({ include_usage: z.boolean().optional() }).nullish(),
+    /** Only a single choice is supported */
+    n: z.literal(1).nullish(),
+  })
+  .passthrough();
+
+/**
+ * Token usage of a chat completion
+ */
+const completionUsageSchema = z.object({
+  prompt_tokens: z.number().int(),
+  completion_tokens: z.number().int(),
+  total_tokens: z.number().int(),
+});
+
+const finishReasonSchema = z.enum(['stop', 'length']);
+
+/**
+ * POST /v1/chat/completions response
+ */
+export const chatCompletionSchema = z.object({
+  id: z.string(),
+  object: z.literal('chat.completion'),
+  created: z.number().int(),
+  model: z.string(),
+  choices: z.array(
+    z.object({
+      index: z.number().int(),
+      message: z.object({
+        role: z.literal('assistant'),
+        content: z.string(),
+        refusal: z.null(),
+      }),
+      logprobs: z.null(),
+      finish_reason: finishReasonSchema,
+    })
+  ),
+  usage: completionUsageSchema,
+});
+
+/**
+ * Streamed chat completion chunk; the usage chunk has no choices
+ */
+export const chatCompletionChunkSchema = z.object({
+  id: z.string(),
+  object: z.literal('chat.completion.chunk'),
+  created: z.number().int(),
+  model: z.string(),
+  choices: z.array(
+    z.object({
+      index: z.number().int(),
+      delta: z.object({
+        role: z.literal('assistant').optional(),
+        content: z.string().optional(),
+      }),
+      logprobs: z.null(),
+      finish_reason: finishReasonSchema.nullable(),
+    })
+  ),
+  usage: completionUsageSchema.nullable().optional(),
+});
+
+/**
+ * GET /v1/models response
+ */
+export const modelListSchema = z.object({
+  object: z.literal('list'),
+  data: z.array(
+    z.object({
+      id: z.string(),
+      object: z.literal('model'),
+      created: z.number().int(),
+      owned_by: z.string(),
+    })
+  ),
+});
+
+export type CreateConversationRequest = z.infer<typeof createConversationRequestSchema>;
+export type PostMessageRequest = z.infer<typeof postMessageRequestSchema>;
+export type ConversationResponse = z.infer<typeof conversationSchema>;
+export type TaskResultResponse = z.infer<typeof taskResultSchema>;
+export type ErrorResponse = z.infer<typeof errorResponseSchema>;
+export type ChatCompletionMessage = z.infer<typeof chatCompletionMessageSchema>;
+export type ChatCompletionRequest = z.infer<typeof chatCompletionRequestSchema>;
+export type ChatCompletion = z.infer<typeof chatCompletionSchema>;
+export type ChatCompletionChunk = z.infer<typeof chatCompletionChunkSchema>;
+export type ModelList = z.infer<typeof modelListSchema>;
@@ -0,0 +1,96 @@
+/**
+ * Error used as the abort reason when a task is cancelled
+ */
+export class TaskCancelledError extends Error {
+  constructor(message = 'Task cancelled') {
+    super(message);
+    this.name = 'TaskCancelledError';
+  }
+}
+
+/**
+ * Abort controller linked to an optional parent signal
+ */
+export interface LinkedAbortController {
+  controller: AbortController;
+  /** Detach from the parent signal once the work is done */
+  dispose: () => void;
+}
+
+/**
+ * Create an abort controller that also aborts when the parent signal does
+ */
+export function createLinkedAbortController(parent?: AbortSignal): LinkedAbortController {
+  const controller = new AbortController();
+
+  if (!parent) {
+    return { controller, dispose: () => undefined };
+  }
+  if (parent.aborted) {
+    controller.abort(parent.reason);
+    return { controller, dispose: () => undefined };
+  }
+
+  const onAbort = () => controller.abort(parent.reason);
+  parent.addEventListener('abort', onAbort, { once: true });
+  return { controller, dispose: () => parent.removeEventListener('abort', onAbort) };
+}
+
+/**
+ * Get the error a signal was aborted with
+ */
+export function getAbortReason(signal: AbortSignal): Error {
+  const reason: unknown = signal.reason;
+  return reason instanceof Error ? reason : new TaskCancelledError();
+}
+
+/**
+ * Settle with the promise, or reject with the abort reason once the signal aborts
+ *
+ * Work that ignores the signal keeps running; this only stops waiting for it.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(getAbortReason(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(getAbortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Wait for a number of milliseconds, rejecting early if the signal aborts
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(getAbortReason(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(getAbortReason(signal!));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
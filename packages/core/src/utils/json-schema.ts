@@ -0,0 +1,307 @@
+import { z } from 'zod';
+
+/**
+ * JSON Schema (draft-07) document
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Convert a Zod schema to JSON Schema (draft-07)
+ *
+ * Covers the types tool inputs are built from: objects, arrays, tuples,
+ * records, enums, literals, unions, intersections and primitives, with
+ * optional fields, defaults, descriptions and the common string and number
+ * checks. Refinements and transforms convert as their input schema; types
+ * with no JSON form, such as functions, accept anything.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  return convert(schema, new Set());
+}
+
+/**
+ * @param seen - Schemas being converted, so recursive z.lazy schemas end
+ */
+function convert(schema: z.ZodTypeAny, seen: Set<z.ZodTypeAny>): JsonSchema {
+  if (seen.has(schema)) {
+    return {};
+  }
+  seen.add(schema);
+
+  try {
+    const json = convertType(schema, seen);
+    if (schema.description !== undefined && json.description === undefined) {
+      json.description = schema.description;
+    }
+    return json;
+  } finally {
+    seen.delete(schema);
+  }
+}
+
+function convertType(schema: z.ZodTypeAny, seen: Set<z.ZodTypeAny>): JsonSchema {
+  if (schema instanceof z.ZodString) {
+    return stringSchema(schema);
+  }
+  if (schema instanceof z.ZodNumber) {
+    return numberSchema(schema);
+  }
+  if (schema instanceof z.ZodBigInt) {
+    return { type: 'integer', format: 'int64' };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+  if (schema instanceof z.ZodNull) {
+    return { type: 'null' };
+  }
+  if (schema instanceof z.ZodDate) {
+    return { type: 'string', format: 'date-time' };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return literalSchema(schema.value);
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: [...schema.options] };
+  }
+  if (schema instanceof z.ZodNativeEnum) {
+    return enumSchema(nativeEnumValues(schema.enum as Record<string, string | number>));
+  }
+  if (schema instanceof z.ZodObject) {
+    return objectSchema(schema, seen);
+  }
+  if (schema instanceof z.ZodArray) {
+    const def = schema._def;
+    const json: JsonSchema = { type: 'array', items: convert(def.type, seen) };
+    const minItems = def.exactLength?.value ?? def.minLength?.value;
+    const maxItems = def.exactLength?.value ?? def.maxLength?.value;
+    if (minItems !== undefined) {
+      json.minItems = minItems;
+    }
+    if (maxItems !== undefined) {
+      json.maxItems = maxItems;
+    }
+    return json;
+  }
+  if (schema instanceof z.ZodTuple) {
+    const items = schema.items.map((item: z.ZodTypeAny) => convert(item, seen));
+    const rest = schema._def.rest as z.ZodTypeAny | null;
+    return rest
+      ? { type: 'array', minItems: items.length, items, additionalItems: convert(rest, seen) }
+      : { type: 'array', minItems: items.length, maxItems: items.length, items };
+  }
+  if (schema instanceof z.ZodSet) {
+    return { type: 'array', uniqueItems: true, items: convert(schema._def.valueType, seen) };
+  }
+  if (schema instanceof z.ZodRecord || schema instanceof z.ZodMap) {
+    return { type: 'object', additionalProperties: convert(schema._def.valueType, seen) };
+  }
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    const options = schema.options as z.ZodTypeAny[];
+    return unionSchema(options.map((option) => convert(option, seen)));
+  }
+  if (schema instanceof z.ZodIntersection) {
+    return { allOf: [convert(schema._def.left, seen), convert(schema._def.right, seen)] };
+  }
+  if (schema instanceof z.ZodNullable) {
+    return unionSchema([convert(schema.unwrap(), seen), { type: 'null' }]);
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...convert(schema._def.innerType, seen), default: schema._def.defaultValue() };
+  }
+  if (schema instanceof z.ZodOptional) {
+    return convert(schema.unwrap(), seen);
+  }
+  if (schema instanceof z.ZodCatch || schema instanceof z.ZodReadonly) {
+    return convert(schema._def.innerType, seen);
+  }
+  if (schema instanceof z.ZodEffects) {
+    return convert(schema.innerType(), seen);
+  }
+  if (schema instanceof z.ZodPipeline) {
+    return convert(schema._def.in, seen);
+  }
+  if (schema instanceof z.ZodBranded) {
+    return convert(schema.unwrap(), seen);
+  }
+  if (schema instanceof z.ZodLazy) {
+    return convert(schema.schema, seen);
+  }
+  if (schema instanceof z.ZodPromise) {
+    return convert(schema.unwrap(), seen);
+  }
+  if (schema instanceof z.ZodNever) {
+    return { not: {} };
+  }
+  return {};
+}
+
+function stringSchema(schema: z.ZodString): JsonSchema {
+  const json: JsonSchema = { type: 'string' };
+  const patterns: string[] = [];
+  const formats: Partial<Record<z.ZodStringCheck['kind'], string>> = {
+    email: 'email',
+    url: 'uri',
+    uuid: 'uuid',
+    datetime: 'date-time',
+    date: 'date',
+    time: 'time',
+    duration: 'duration',
+  };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        json.minLength = check.value;
+        break;
+      case 'max':
+        json.maxLength = check.value;
+        break;
+      case 'length':
+        json.minLength = check.value;
+        json.maxLength = check.value;
+        break;
+      case 'regex':
+        patterns.push(check.regex.source);
+        break;
+      case 'startsWith':
+        patterns.push(`^${escapeRegExp(check.value)}`);
+        break;
+      case 'endsWith':
+        patterns.push(`${escapeRegExp(check.value)}$`);
+        break;
+      case 'includes':
+        patterns.push(escapeRegExp(check.value));
+        break;
+      case 'ip':
+        json.format = check.version === 'v6' ? 'ipv6' : 'ipv4';
+        break;
+      default:
+        if (formats[check.kind]) {
+          json.format = formats[check.kind];
+        }
+    }
+  }
+
+  // JSON Schema takes one pattern per schema, so further ones go in allOf
+  if (patterns.length > 0) {
+    json.pattern = patterns[0];
+  }
+  if (patterns.length > 1) {
+    json.allOf = patterns.slice(1).map((pattern) => ({ pattern }));
+  }
+  return json;
+}
+
+function numberSchema(schema: z.ZodNumber): JsonSchema {
+  const json: JsonSchema = { type: 'number' };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'int':
+        json.type = 'integer';
+        break;
+      case 'min':
+        json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        break;
+      case 'max':
+        json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+        break;
+      case 'multipleOf':
+        json.multipleOf = check.value;
+        break;
+    }
+  }
+  return json;
+}
+
+function objectSchema(schema: z.AnyZodObject, seen: Set<z.ZodTypeAny>): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+    properties[key] = convert(value, seen);
+    if (!value.isOptional()) {
+      required.push(key);
+    }
+  }
+
+  const json: JsonSchema = { type: 'object', properties };
+  if (required.length > 0) {
+    json.required = required;
+  }
+
+  // Unknown keys are stripped by default, so only passthrough and catchall allow them
+  const catchall = schema._def.catchall as z.ZodTypeAny;
+  if (!(catchall instanceof z.ZodNever)) {
+    json.additionalProperties = convert(catchall, seen);
+  } else {
+    json.additionalProperties = schema._def.unknownKeys === 'passthrough';
+  }
+  return json;
+}
+
+function literalSchema(value: unknown): JsonSchema {
+  if (value === null) {
+    return { type: 'null' };
+  }
+  const type = jsonType(value);
+  return type ? { type, const: value } : { const: value };
+}
+
+function enumSchema(values: Array<string | number>): JsonSchema {
+  const types = [...new Set(values.map((value) => jsonType(value)))];
+  return { type: types.length === 1 ? types[0] : types, enum: values };
+}
+
+/**
+ * Union of converted schemas
+ *
+ * Bare types merge into a type list and literals into an enum, the forms
+ * models handle best; anything else becomes anyOf.
+ */
+function unionSchema(members: JsonSchema[]): JsonSchema {
+  if (members.every(isBareType)) {
+    const types = [...new Set(members.flatMap((member) => member.type as string | string[]))];
+    return { type: types.length === 1 ? types[0] : types };
+  }
+
+  const isLiteral = (member: JsonSchema) =>
+    'const' in member && Object.keys(member).every((key) => key === 'type' || key === 'const');
+  if (members.every(isLiteral)) {
+    return enumSchema(members.map((member) => member.const as string | number));
+  }
+
+  return { anyOf: members };
+}
+
+/**
+ * Whether a schema is just a type, such as { type: 'string' }
+ */
+function isBareType(schema: JsonSchema): boolean {
+  const keys = Object.keys(schema);
+  return keys.length === 1 && keys[0] === 'type';
+}
+
+function jsonType(value: unknown): string | undefined {
+  switch (typeof value) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return typeof value;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Values of a TypeScript enum, leaving out the reverse mappings of numeric members
+ */
+function nativeEnumValues(values: Record<string, string | number>): Array<string | number> {
+  return Object.keys(values)
+    .filter((key) => typeof values[values[key]] !== 'number')
+    .map((key) => values[key]);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -26,6 +26,8 @@ export interface LoggerOptions {
   timestamps?: boolean;
   /** Enable colored output */
   colors?: boolean;
+  /** Write every level to stderr, keeping stdout free for program output */
+  stderr?: boolean;
   /** Custom log handler */
   handler?: (entry: LogEntry) => void;
 }
@@ -60,6 +62,7 @@ export class Logger {
   private context?: string;
   private timestamps: boolean;
   private colors: boolean;
+  private stderr: boolean;
   private handler?: (entry: LogEntry) => void;
 
   constructor(options: LoggerOptions = {}) {
@@ -67,6 +70,7 @@ export class Logger {
     this.context = options.context;
     this.timestamps = options.timestamps ?? true;
     this.colors = options.colors ?? true;
+    this.stderr = options.stderr ?? false;
     this.handler = options.handler;
   }
 
@@ -80,6 +84,7 @@ export class Logger {
       context: childContext,
       timestamps: this.timestamps,
       colors: this.colors,
+      stderr: this.stderr,
       handler: this.handler,
     });
   }
@@ -182,6 +187,11 @@ export class Logger {
 
     const output = parts.join(' ');
 
+    if (this.stderr) {
+      process.stderr.write(`${output}\n`);
+      return;
+    }
+
     switch (entry.level) {
       case 'debug':
       case 'info':
@@ -1,7 +1,17 @@
+import {
+  TaskCancelledError,
+  abortable,
+  createLinkedAbortController,
+  getAbortReason,
+} from './abort';
+import type { Budget } from '../core/usage/Budget';
+
 /**
  * Task function type
+ *
+ * The signal aborts when the task times out or is cancelled.
  */
-type TaskFunction<T> = () => Promise<T>;
+type TaskFunction<T> = (signal: AbortSignal) => Promise<T>;
 
 /**
  * Queued task with metadata
@@ -14,6 +24,11 @@ interface QueuedTask<T> {
   reject: (error: Error) => void;
   timeout?: number;
   createdAt: Date;
+  /** Budget that must not be exceeded when the task starts, and whose deadline aborts it */
+  budget?: Budget;
+  controller: AbortController;
+  /** Detach from the caller's signal */
+  dispose: () => void;
 }
 
 /**
@@ -47,6 +62,7 @@ interface TaskQueueOptions {
  */
 export class TaskQueue {
   private queue: QueuedTask<unknown>[] = [];
+  private active = new Map<string, QueuedTask<unknown>>();
   private running = 0;
   private maxConcurrent: number;
   private defaultTimeout: number;
@@ -65,15 +81,24 @@ export class TaskQueue {
    */
   add<T>(
     fn: TaskFunction<T>,
-    options: { priority?: number; timeout?: number; id?: string } = {}
+    options: {
+      priority?: number;
+      timeout?: number;
+      id?: string;
+      signal?: AbortSignal;
+      budget?: Budget;
+    } = {}
   ): Promise<T> {
     const {
       priority = 0,
       timeout = this.defaultTimeout,
       id = `task-${++this.taskCounter}`,
+      signal,
+      budget,
     } = options;
 
     return new Promise<T>((resolve, reject) => {
+      const { controller, dispose } = createLinkedAbortController(signal);
       const task: QueuedTask<T> = {
         id,
         fn,
@@ -82,8 +107,31 @@ export class TaskQueue {
         reject,
         timeout,
         createdAt: new Date(),
+        budget,
+        controller,
+        dispose,
       };
 
+      if (controller.signal.aborted) {
+        dispose();
+        reject(getAbortReason(controller.signal));
+        return;
+      }
+
+      // A task cancelled before it starts leaves the queue without running
+      controller.signal.addEventListener(
+        'abort',
+        () => {
+          const index = this.queue.indexOf(task as QueuedTask<unknown>);
+          if (index !== -1) {
+            this.queue.splice(index, 1);
+            dispose();
+            reject(getAbortReason(controller.signal));
+          }
+        },
+        { once: true }
+      );
+
       // Insert by priority (higher priority first)
       const insertIndex = this.queue.findIndex((t) => t.priority < priority);
       if (insertIndex === -1) {
@@ -101,13 +149,22 @@ export class TaskQueue {
    * Add multiple tasks and wait for all to complete
    */
   async addAll<T>(
-    tasks: Array<{ fn: TaskFunction<T>; priority?: number; timeout?: number; id?: string }>
+    tasks: Array<{
+      fn: TaskFunction<T>;
+      priority?: number;
+      timeout?: number;
+      id?: string;
+      signal?: AbortSignal;
+      budget?: Budget;
+    }>
   ): Promise<TaskResult<T>[]> {
     const promises = tasks.map((task) =>
       this.add(task.fn, {
         priority: task.priority,
         timeout: task.timeout,
         id: task.id,
+        signal: task.signal,
+        budget: task.budget,
       })
         .then((result) => ({
           id: task.id ?? 'unknown',
@@ -138,6 +195,7 @@ export class TaskQueue {
     if (!task) return;
 
     this.running++;
+    this.active.set(task.id, task);
     const startTime = Date.now();
     this.log(`Task ${task.id} started (running: ${this.running})`);
 
@@ -152,34 +210,51 @@ export class TaskQueue {
       task.reject(error instanceof Error ? error : new Error(String(error)));
     } finally {
       this.running--;
+      this.active.delete(task.id);
+      task.dispose();
       this.processNext();
     }
   }
 
   /**
    * Execute task with timeout
+   *
+   * A timeout, cancellation or the budget's deadline aborts the task's signal
+   * and rejects at once. A task whose budget is already exceeded does not run.
    */
-  private executeWithTimeout<T>(task: QueuedTask<T>): Promise<T> {
-    if (!task.timeout) {
-      return task.fn();
+  private async executeWithTimeout<T>(task: QueuedTask<T>): Promise<T> {
+    const { signal } = task.controller;
+    const timeoutId = task.timeout
+      ? setTimeout(() => {
+          task.controller.abort(new Error(`Task ${task.id} timed out after ${task.timeout}ms`));
+        }, task.timeout)
+      : undefined;
+    const stopDeadline = task.budget?.abortAtDeadline(task.controller);
+
+    try {
+      signal.throwIfAborted();
+      task.budget?.check();
+      return await abortable(task.fn(signal), signal);
+    } finally {
+      clearTimeout(timeoutId);
+      stopDeadline?.();
     }
+  }
 
-    return new Promise<T>((resolve, reject) => {
-      const timeoutId = setTimeout(() => {
-        reject(new Error(`Task ${task.id} timed out after ${task.timeout}ms`));
-      }, task.timeout);
+  /**
+   * Cancel a pending or running task
+   *
+   * @returns false if no task with this ID is queued or running
+   */
+  cancel(id: string, reason: Error = new TaskCancelledError(`Task ${id} cancelled`)): boolean {
+    const task = this.active.get(id) ?? this.queue.find((t) => t.id === id);
+    if (!task) {
+      return false;
+    }
 
-      task
-        .fn()
-        .then((result) => {
-          clearTimeout(timeoutId);
-          resolve(result);
-        })
-        .catch((error) => {
-          clearTimeout(timeoutId);
-          reject(error);
-        });
-    });
+    task.controller.abort(reason);
+    this.log(`Task ${id} cancelled`);
+    return true;
   }
 
   /**
@@ -203,15 +278,20 @@ export class TaskQueue {
   }
 
   /**
-   * Clear all pending tasks
+   * Clear all pending tasks and abort running ones
    */
   clear(): void {
     const cleared = this.queue.length;
-    this.queue.forEach((task) => {
+    const pending = this.queue;
+    this.queue = [];
+    pending.forEach((task) => {
+      task.dispose();
       task.reject(new Error('Task queue cleared'));
     });
-    this.queue = [];
-    this.log(`Queue cleared (${cleared} tasks removed)`);
+    this.active.forEach((task) =>
+      task.controller.abort(new TaskCancelledError('Task queue cleared'))
+    );
+    this.log(`Queue cleared (${cleared} tasks removed, ${this.active.size} aborted)`);
   }
 
   /**
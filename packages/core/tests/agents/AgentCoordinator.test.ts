@@ -0,0 +1,291 @@
+import { describe, it, expect } from 'vitest';
+import { simulateReadableStream } from 'ai';
+import { MockLanguageModelV2 } from 'ai/test';
+import { AgentCoordinator } from '../../src/agents/AgentCoordinator.js';
+import {
+  FirstSuccessAggregator,
+  MajorityVoteAggregator,
+} from '../../src/agents/ResultAggregator.js';
+import { ToolSubAgent } from '../../src/agents/SubAgent.js';
+import { ModelAdapter } from '../../src/core/model/ModelAdapter.js';
+import { ToolRegistry } from '../../src/core/tools/ToolRegistry.js';
+import { Memory } from '../../src/core/memory/Memory.js';
+import { EventBus } from '../../src/utils/event-bus.js';
+import { TaskQueue } from '../../src/utils/task-queue.js';
+import type { AgentEvents, AgentStreamChunk, CoordinationConfig } from '../../src/agents/types.js';
+
+/**
+ * Sub-agent for "research" tasks whose model answers, or fails without retries
+ */
+function createSubAgent(eventBus: EventBus, id: string, priority: number, answer?: string) {
+  const model = new MockLanguageModelV2({
+    doGenerate: async () => {
+      if (answer === undefined) {
+        throw new Error('Bad request');
+      }
+      return {
+        content: [{ type: 'text', text: answer }],
+        finishReason: 'stop',
+        usage: { inputTokens: 5, outputTokens: 1, totalTokens: 6 },
+        warnings: [],
+      };
+    },
+    doStream: async () => {
+      if (answer === undefined) {
+        throw new Error('Bad request');
+      }
+      return {
+        stream: simulateReadableStream({
+          chunks: [
+            { type: 'stream-start', warnings: [] },
+            { type: 'text-start', id: 't1' },
+            { type: 'text-delta', id: 't1', delta: answer },
+            { type: 'text-end', id: 't1' },
+            {
+              type: 'finish',
+              finishReason: 'stop',
+              usage: { inputTokens: 5, outputTokens: 1, totalTokens: 6 },
+            },
+          ],
+        }),
+      };
+    },
+  });
+
+  return new ToolSubAgent(
+    { model: new ModelAdapter(model), tools: new ToolRegistry(), memory: new Memory(), eventBus },
+    {
+      id,
+      name: id,
+      model: { provider: 'custom', name: 'mock' },
+      specialization: 'research',
+      capabilities: ['research'],
+      priority,
+      retry: { maxRetries: 0 },
+    }
+  );
+}
+
+/**
+ * Sub-agent for "research" tasks whose model answers only once cancelled
+ */
+function createHangingSubAgent(eventBus: EventBus, id: string, priority: number) {
+  const cancelled: unknown[] = [];
+  const model = new MockLanguageModelV2({
+    doGenerate: ({ abortSignal }) =>
+      new Promise((_resolve, reject) => {
+        abortSignal?.addEventListener('abort', () => {
+          cancelled.push(abortSignal.reason);
+          reject(abortSignal.reason);
+        });
+      }),
+  });
+
+  const agent = new ToolSubAgent(
+    { model: new ModelAdapter(model), tools: new ToolRegistry(), memory: new Memory(), eventBus },
+    {
+      id,
+      name: id,
+      model: { provider: 'custom', name: 'mock' },
+      specialization: 'research',
+      capabilities: ['research'],
+      priority,
+      retry: { maxRetries: 0 },
+    }
+  );
+  return { agent, cancelled };
+}
+
+function createCoordinator(
+  maxFallbacks?: number,
+  selectionStrategy: CoordinationConfig['selectionStrategy'] = 'priority'
+) {
+  const eventBus = new EventBus();
+  const fallbacks: AgentEvents['subagent:fallback'][] = [];
+  eventBus.on('subagent:fallback', (data) => fallbacks.push(data));
+
+  const coordinator = new AgentCoordinator(
+    { taskQueue: new TaskQueue(), eventBus },
+    { selectionStrategy, maxFallbacks }
+  );
+  return { coordinator, eventBus, fallbacks };
+}
+
+describe('AgentCoordinator fallbacks', () => {
+  it('should fall back to the next ranked sub-agent', async () => {
+    const { coordinator, eventBus, fallbacks } = createCoordinator();
+    coordinator.registerSubAgent(createSubAgent(eventBus, 'first', 9));
+    coordinator.registerSubAgent(createSubAgent(eventBus, 'second', 5, 'Found it'));
+
+    const result = await coordinator.executeTask('research closures');
+
+    expect(result).toMatchObject({
+      success: true,
+      content: 'Found it',
+      metadata: { subAgentId: 'second', subAgentFallbackIndex: 1 },
+    });
+    expect(fallbacks).toEqual([
+      expect.objectContaining({ fromSubAgentId: 'first', toSubAgentId: 'second' }),
+    ]);
+  });
+
+  it('should stop after maxFallbacks candidates', async () => {
+    const { coordinator, eventBus } = createCoordinator(0);
+    coordinator.registerSubAgent(createSubAgent(eventBus, 'first', 9));
+    coordinator.registerSubAgent(createSubAgent(eventBus, 'second', 5, 'Found it'));
+
+    const result = await coordinator.executeTask('research closures');
+
+    expect(result.success).toBe(false);
+    expect(result.metadata).toMatchObject({ subAgentId: 'first', subAgentFallbackIndex: 0 });
+  });
+
+  it('should run on a given ranking without ranking again', async () => {
+    const { coordinator, eventBus } = createCoordinator(undefined, 'round-robin');
+    coordinator.registerSubAgent(createSubAgent(eventBus, 'first', 5, 'From first'));
+    coordinator.registerSubAgent(createSubAgent(eventBus, 'second', 5, 'From second'));
+
+    const ranked = await coordinator.rankSubAgents('research closures');
+    const result = await coordinator.executeTask('research closures', undefined, {}, ranked);
+
+    expect(result.metadata).toMatchObject({ subAgentId: 'first' });
+    // The rotation moved on once, for the ranking
+    expect((await coordinator.rankSubAgents('research closures'))[0].id).toBe('second');
+  });
+
+  it('should fall back in a streamed task that failed before any output', async () => {
+    const { coordinator, eventBus, fallbacks } = createCoordinator();
+    coordinator.registerSubAgent(createSubAgent(eventBus, 'first', 9));
+    coordinator.registerSubAgent(createSubAgent(eventBus, 'second', 5, 'Found it'));
+
+    const chunks: AgentStreamChunk[] = [];
+    const stream = coordinator.executeStreamTask('research closures');
+    let next = await stream.next();
+    for (; !next.done; next = await stream.next()) {
+      chunks.push(next.value);
+    }
+
+    expect(next.value).toMatchObject({
+      success: true,
+      content: 'Found it',
+      metadata: { subAgentId: 'second', subAgentFallbackIndex: 1 },
+    });
+    expect(chunks.filter((chunk) => chunk.type === 'text-delta')).toEqual([
+      expect.objectContaining({ textDelta: 'Found it' }),
+    ]);
+    expect(fallbacks).toEqual([
+      expect.objectContaining({ fromSubAgentId: 'first', toSubAgentId: 'second' }),
+    ]);
+  });
+});
+
+describe('AgentCoordinator consensus', () => {
+  it('should ask the top ranked sub-agents and aggregate their answers', async () => {
+    const { coordinator, eventBus } = createCoordinator();
+    coordinator.registerSubAgent(createSubAgent(eventBus, 'first', 9, 'Paris'));
+    coordinator.registerSubAgent(createSubAgent(eventBus, 'second', 7));
+    coordinator.registerSubAgent(createSubAgent(eventBus, 'third', 5, 'paris'));
+    coordinator.registerSubAgent(createSubAgent(eventBus, 'fourth', 3, 'Lyon'));
+
+    const result = await coordinator.executeConsensus(
+      'research the capital of France',
+      new MajorityVoteAggregator(),
+      3
+    );
+
+    expect(result).toMatchObject({
+      success: true,
+      content: 'Paris',
+      metadata: {
+        mode: 'consensus',
+        votes: 2,
+        consensus: {
+          aggregator: 'majority-vote',
+          results: [
+            { subAgentId: 'first', success: true, content: 'Paris' },
+            { subAgentId: 'second', success: false, error: 'Bad request' },
+            { subAgentId: 'third', success: true, content: 'paris' },
+          ],
+        },
+      },
+    });
+  });
+
+  it('should cancel the other sub-agents once the first success arrives', async () => {
+    const { coordinator, eventBus } = createCoordinator();
+    const slow = createHangingSubAgent(eventBus, 'slow', 9);
+    coordinator.registerSubAgent(slow.agent);
+    coordinator.registerSubAgent(createSubAgent(eventBus, 'fast', 5, 'Paris'));
+
+    const result = await coordinator.executeConsensus(
+      'research the capital of France',
+      new FirstSuccessAggregator(),
+      2,
+      { conversationId: 'conv-1', history: [], variables: new Map() }
+    );
+
+    expect(result).toMatchObject({
+      success: true,
+      content: 'Paris',
+      metadata: {
+        chosen: 'fast',
+        consensus: { results: [{ subAgentId: 'fast', success: true }] },
+      },
+    });
+    expect(slow.cancelled).toEqual([
+      expect.objectContaining({ name: 'TaskCancelledError', message: 'Consensus already decided' }),
+    ]);
+  });
+
+  it('should let an agent retry after a timed out attempt', async () => {
+    const eventBus = new EventBus();
+    let calls = 0;
+    const model = new MockLanguageModelV2({
+      doGenerate: ({ abortSignal }) => {
+        if (calls++ === 0) {
+          return new Promise((_resolve, reject) => {
+            abortSignal?.addEventListener('abort', () => reject(abortSignal.reason));
+          });
+        }
+        return Promise.resolve({
+          content: [{ type: 'text', text: 'Paris' }],
+          finishReason: 'stop',
+          usage: { inputTokens: 5, outputTokens: 1, totalTokens: 6 },
+          warnings: [],
+        });
+      },
+    });
+    const coordinator = new AgentCoordinator(
+      { taskQueue: new TaskQueue(), eventBus },
+      { selectionStrategy: 'priority', timeout: 100 }
+    );
+    coordinator.registerSubAgent(
+      new ToolSubAgent(
+        {
+          model: new ModelAdapter(model),
+          tools: new ToolRegistry(),
+          memory: new Memory(),
+          eventBus,
+        },
+        {
+          id: 'slow-start',
+          name: 'slow-start',
+          model: { provider: 'custom', name: 'mock' },
+          specialization: 'research',
+          capabilities: ['research'],
+          retry: { maxRetries: 1, initialDelayMs: 50, jitter: 0 },
+        }
+      )
+    );
+
+    const result = await coordinator.executeConsensus(
+      'research the capital of France',
+      new MajorityVoteAggregator(),
+      1,
+      { conversationId: 'conv-1', history: [], variables: new Map() }
+    );
+
+    expect(result).toMatchObject({ success: true, content: 'Paris' });
+    expect(calls).toBe(2);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { MockLanguageModelV2 } from 'ai/test';
+import { AgentCoordinator, CapabilityMatchStrategy } from '../../src/agents/AgentCoordinator.js';
+import { LLMRouterStrategy } from '../../src/agents/LLMRouterStrategy.js';
+import { ToolSubAgent } from '../../src/agents/SubAgent.js';
+import { ModelAdapter } from '../../src/core/model/ModelAdapter.js';
+import { ToolRegistry } from '../../src/core/tools/ToolRegistry.js';
+import { Memory } from '../../src/core/memory/Memory.js';
+import { EventBus } from '../../src/utils/event-bus.js';
+import { TaskQueue } from '../../src/utils/task-queue.js';
+
+/**
+ * Routing model that always gives the same answer
+ */
+function createRouterModel(answer: string): MockLanguageModelV2 {
+  return new MockLanguageModelV2({
+    doGenerate: async () => ({
+      content: [{ type: 'text', text: answer }],
+      finishReason: 'stop',
+      usage: { inputTokens: 20, outputTokens: 10, totalTokens: 30 },
+      warnings: [],
+    }),
+  });
+}
+
+function createSubAgent(id: string, capabilities: string[]) {
+  return new ToolSubAgent(
+    {
+      model: new ModelAdapter(createRouterModel('unused')),
+      tools: new ToolRegistry(),
+      memory: new Memory(),
+      eventBus: new EventBus(),
+    },
+    { id, name: id, model: { provider: 'custom', name: 'mock' }, specialization: id, capabilities }
+  );
+}
+
+const reviewer = createSubAgent('code-review', ['code review']);
+const researcher = createSubAgent('research', ['research']);
+const candidates = [reviewer, researcher];
+
+function createRouter(answer: string) {
+  const model = createRouterModel(answer);
+  const router = new LLMRouterStrategy(
+    {
+      model: new ModelAdapter(model),
+      fallback: new CapabilityMatchStrategy(),
+      describe: (agents) => agents.map((agent) => `- ${agent.id}`).join('\n'),
+    },
+    { confidenceThreshold: 0.6 }
+  );
+  return { router, model };
+}
+
+describe('LLMRouterStrategy', () => {
+  it('should route paraphrased tasks that keyword matching misses', async () => {
+    const { router } = createRouter('{"subAgentId":"code-review","confidence":0.9}');
+    const task = 'Can you look over my TS?';
+
+    expect(new CapabilityMatchStrategy().select(task, candidates)).toBeNull();
+    expect(await router.select(task, candidates)).toBe(reviewer);
+  });
+
+  it('should fall back to keyword matching below the confidence threshold', async () => {
+    const { router } = createRouter('{"subAgentId":"code-review","confidence":0.3}');
+
+    expect(await router.select('Research closures', candidates)).toBe(researcher);
+  });
+
+  it('should fall back to keyword matching on unusable answers', async () => {
+    const { router } = createRouter('I would pick the reviewer');
+
+    expect(await router.rank('Research closures', candidates)).toEqual([researcher]);
+  });
+
+  it('should let the main agent handle tasks no sub-agent fits', async () => {
+    const { router } = createRouter('{"subAgentId":null,"confidence":0.95}');
+
+    expect(await router.select('Research closures', candidates)).toBeNull();
+  });
+
+  it('should cache routing decisions', async () => {
+    const { router, model } = createRouter('{"subAgentId":"code-review","confidence":0.9}');
+
+    await router.select('Look over my TS', candidates);
+    await router.select('Look over my TS', candidates);
+
+    expect(model.doGenerateCalls).toHaveLength(1);
+  });
+
+  it('should be selectable by name in the coordinator', async () => {
+    const model = createRouterModel('{"subAgentId":"code-review","confidence":0.8}');
+    const coordinator = new AgentCoordinator(
+      {
+        taskQueue: new TaskQueue(),
+        eventBus: new EventBus(),
+        routerModel: new ModelAdapter(model),
+      },
+      { selectionStrategy: 'llm-router' }
+    );
+    coordinator.registerSubAgent(reviewer);
+    coordinator.registerSubAgent(researcher);
+
+    expect(await coordinator.selectSubAgent('Can you look over my TS?')).toBe(reviewer);
+    const prompt = JSON.stringify(model.doGenerateCalls[0].prompt);
+    expect(prompt).toContain('- code-review: code-review (code-review)');
+  });
+});
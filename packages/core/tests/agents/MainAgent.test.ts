@@ -0,0 +1,634 @@
+import { describe, it, expect } from 'vitest';
+import { MockLanguageModelV2, simulateReadableStream } from 'ai/test';
+import type { LanguageModelV2Prompt, LanguageModelV2StreamPart } from '@ai-sdk/provider';
+import { z } from 'zod';
+import { MainAgent, type MainAgentDependencies } from '../../src/agents/MainAgent.js';
+import { ModelAdapter } from '../../src/core/model/ModelAdapter.js';
+import { ToolRegistry } from '../../src/core/tools/ToolRegistry.js';
+import { createTool } from '../../src/core/tools/BaseTool.js';
+import { Memory } from '../../src/core/memory/Memory.js';
+import { EventBus } from '../../src/utils/event-bus.js';
+import { TaskQueue } from '../../src/utils/task-queue.js';
+import { Logger, type LogEntry } from '../../src/utils/logger.js';
+import { BudgetExceededError } from '../../src/core/usage/Budget.js';
+import type {
+  AgentConfig,
+  AgentContext,
+  AgentStreamChunk,
+  ToolCallResult,
+} from '../../src/agents/types.js';
+
+function createStreamingModel(deltas: string[]): MockLanguageModelV2 {
+  const chunks: LanguageModelV2StreamPart[] = [
+    { type: 'stream-start', warnings: [] },
+    { type: 'text-start', id: 't1' },
+    ...deltas.map((delta) => ({ type: 'text-delta' as const, id: 't1', delta })),
+    { type: 'text-end', id: 't1' },
+    {
+      type: 'finish',
+      finishReason: 'stop',
+      usage: { inputTokens: 5, outputTokens: deltas.length, totalTokens: 5 + deltas.length },
+    },
+  ];
+
+  return new MockLanguageModelV2({
+    doStream: async () => ({ stream: simulateReadableStream({ chunks }) }),
+  });
+}
+
+function createAgent(deltas: string[]) {
+  const memory = new Memory();
+  const agent = new MainAgent(
+    {
+      model: new ModelAdapter(createStreamingModel(deltas)),
+      tools: new ToolRegistry(),
+      memory,
+      eventBus: new EventBus(),
+      taskQueue: new TaskQueue(),
+    },
+    { id: 'main', name: 'Main', model: { provider: 'custom', name: 'mock' } }
+  );
+  return { agent, memory };
+}
+
+function createToolAgent(execute: () => Promise<unknown>, config: Partial<AgentConfig> = {}) {
+  const prompts: LanguageModelV2Prompt[] = [];
+  const model = new MockLanguageModelV2({
+    doGenerate: async ({ prompt }) => {
+      prompts.push(prompt);
+      const usage = { inputTokens: 10, outputTokens: 5, totalTokens: 15 };
+      // The first request calls the tool, every later one answers
+      if (prompts.length === 1) {
+        return {
+          content: [
+            {
+              type: 'tool-call',
+              toolCallId: 'call-1',
+              toolName: 'lookup',
+              input: JSON.stringify({ key: 'port' }),
+            },
+          ],
+          finishReason: 'tool-calls',
+          usage,
+          warnings: [],
+        };
+      }
+      return {
+        content: [{ type: 'text', text: 'The port is 8080' }],
+        finishReason: 'stop',
+        usage,
+        warnings: [],
+      };
+    },
+  });
+
+  const tools = new ToolRegistry();
+  tools.register(
+    createTool({
+      name: 'lookup',
+      description: 'Look up a setting',
+      inputSchema: z.object({ key: z.string() }),
+      execute,
+    })
+  );
+  const memory = new Memory();
+  const eventBus = new EventBus();
+  const agent = new MainAgent(
+    { model: new ModelAdapter(model), tools, memory, eventBus, taskQueue: new TaskQueue() },
+    { id: 'main', name: 'Main', model: { provider: 'custom', name: 'mock' }, ...config }
+  );
+  return { agent, memory, eventBus, prompts };
+}
+
+/**
+ * Main agent whose model delegates to a "calc" sub-agent through its tool
+ *
+ * Main and sub-agent share the model: the first request delegates, the
+ * second is the sub-agent answering and the third is the final answer.
+ */
+function createDelegatingAgent(
+  maxDepth?: number,
+  dependencies: Partial<MainAgentDependencies> = {}
+) {
+  const prompts: LanguageModelV2Prompt[] = [];
+  const model = new MockLanguageModelV2({
+    doGenerate: async ({ prompt }) => {
+      prompts.push(prompt);
+      const usage = { inputTokens: 10, outputTokens: 5, totalTokens: 15 };
+      if (prompts.length === 1) {
+        return {
+          content: [
+            {
+              type: 'tool-call',
+              toolCallId: 'call-1',
+              toolName: 'delegate_to_calc',
+              input: JSON.stringify({ task: 'Multiply 6 by 7' }),
+            },
+          ],
+          finishReason: 'tool-calls',
+          usage,
+          warnings: [],
+        };
+      }
+      const text = prompts.length === 2 && maxDepth === undefined ? '42' : 'The answer is 42';
+      return { content: [{ type: 'text', text }], finishReason: 'stop', usage, warnings: [] };
+    },
+  });
+
+  const agent = new MainAgent(
+    {
+      model: new ModelAdapter(model),
+      tools: new ToolRegistry(),
+      memory: new Memory(),
+      eventBus: new EventBus(),
+      taskQueue: new TaskQueue(),
+      ...dependencies,
+    },
+    { id: 'main', name: 'Main', model: { provider: 'custom', name: 'mock' }, maxDepth }
+  );
+  agent.createSubAgent({
+    id: 'calc',
+    name: 'Calculator',
+    model: { provider: 'custom', name: 'mock' },
+    specialization: 'math',
+    capabilities: ['calculate'],
+  });
+  return { agent, prompts };
+}
+
+/**
+ * Main agent with two "research" sub-agents, all sharing one model
+ *
+ * The model plans or judges when given the planner's or judge's system
+ * prompt, and answers otherwise. Every call uses 15 tokens.
+ */
+function createResearchAgent(config: Partial<AgentConfig> = {}) {
+  const model = new MockLanguageModelV2({
+    doGenerate: async ({ prompt }) => {
+      const system = prompt.find((message) => message.role === 'system')?.content ?? '';
+      let text = 'Paris';
+      if (system.includes('planning assistant')) {
+        const step = { id: 'step-1', description: 'Research it', subAgentId: 'first' };
+        text = JSON.stringify({ steps: [step] });
+      } else if (system.includes('several specialized sub-agents')) {
+        text = 'Paris is the capital of France';
+      }
+      return {
+        content: [{ type: 'text', text }],
+        finishReason: 'stop',
+        usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+        warnings: [],
+      };
+    },
+  });
+
+  const agent = new MainAgent(
+    {
+      model: new ModelAdapter(model),
+      tools: new ToolRegistry(),
+      memory: new Memory(),
+      eventBus: new EventBus(),
+      taskQueue: new TaskQueue(),
+    },
+    { id: 'main', name: 'Main', model: { provider: 'custom', name: 'mock' }, ...config }
+  );
+  for (const id of ['first', 'second']) {
+    agent.createSubAgent({
+      id,
+      name: id,
+      model: { provider: 'custom', name: 'mock' },
+      specialization: 'research',
+      capabilities: ['research'],
+    });
+  }
+  return agent;
+}
+
+async function collect(stream: AsyncIterable<AgentStreamChunk>): Promise<AgentStreamChunk[]> {
+  const chunks: AgentStreamChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('MainAgent', () => {
+  describe('executeStream', () => {
+    it('should stream text deltas followed by the final result', async () => {
+      const { agent } = createAgent(['Hello', ', ', 'world']);
+
+      const chunks = await collect(agent.executeStream('Say hello'));
+      const deltas = chunks.filter((c) => c.type === 'text-delta');
+      const last = chunks[chunks.length - 1];
+
+      expect(deltas.map((c) => (c.type === 'text-delta' ? c.textDelta : ''))).toEqual([
+        'Hello',
+        ', ',
+        'world',
+      ]);
+      expect(last.type).toBe('result');
+      if (last.type === 'result') {
+        expect(last.result.success).toBe(true);
+        expect(last.result.content).toBe('Hello, world');
+      }
+    });
+
+    it('should stream through a delegated sub-agent', async () => {
+      const { agent } = createAgent(['42']);
+      agent.createSubAgent({
+        id: 'calc',
+        name: 'Calculator',
+        model: { provider: 'custom', name: 'mock' },
+        specialization: 'math',
+        capabilities: ['calculate'],
+      });
+
+      const chunks = await collect(agent.executeStream('Please calculate 6 * 7'));
+      const types = chunks.map((c) => c.type);
+
+      expect(types[0]).toBe('subagent-start');
+      expect(types).toContain('text-delta');
+      expect(types.slice(-2)).toEqual(['subagent-complete', 'result']);
+    });
+  });
+
+  describe('agents-as-tools', () => {
+    it('should let the model delegate through a sub-agent tool', async () => {
+      const { agent, prompts } = createDelegatingAgent();
+
+      const result = await agent.execute('What is six times seven?', undefined, {
+        mode: 'agents-as-tools',
+      });
+
+      expect(result.content).toBe('The answer is 42');
+      expect(result.toolCalls?.[0]).toMatchObject({ toolName: 'delegate_to_calc', result: '42' });
+      expect(JSON.stringify(prompts[1])).toContain('Multiply 6 by 7');
+    });
+
+    it('should warn instead of overwriting tools with a taken name', async () => {
+      const warnings: LogEntry[] = [];
+      const tools = new ToolRegistry();
+      tools.register(
+        createTool({
+          name: 'delegate_to_calc',
+          description: 'Registered before the sub-agent',
+          inputSchema: z.object({ task: z.string() }),
+          execute: async () => 'from the registered tool',
+        })
+      );
+      const { agent } = createDelegatingAgent(undefined, {
+        tools,
+        logger: new Logger({ level: 'warn', handler: (entry) => warnings.push(entry) }),
+      });
+      for (const id of ['a-b', 'a.b']) {
+        agent.createSubAgent({
+          id,
+          name: id,
+          model: { provider: 'custom', name: 'mock' },
+          specialization: 'math',
+          capabilities: ['calculate'],
+        });
+      }
+
+      const result = await agent.execute('What is six times seven?', undefined, {
+        mode: 'agents-as-tools',
+      });
+
+      expect(result.toolCalls?.[0]).toMatchObject({
+        toolName: 'delegate_to_calc',
+        result: 'from the registered tool',
+      });
+      expect(warnings.map((entry) => entry.data)).toEqual([
+        { subAgentId: 'calc', takenBy: 'registered tool' },
+        { subAgentId: 'a.b', takenBy: 'sub-agent a-b' },
+      ]);
+    });
+
+    it('should refuse to delegate past maxDepth', async () => {
+      const { agent, prompts } = createDelegatingAgent(1);
+
+      const result = await agent.execute('What is six times seven?', undefined, {
+        mode: 'agents-as-tools',
+      });
+
+      expect(result.toolCalls?.[0].error).toBe('Maximum delegation depth reached');
+      // The sub-agent never ran, so the second request is the main agent's answer
+      expect(prompts).toHaveLength(2);
+    });
+  });
+
+  describe('usage', () => {
+    it('should roll up the usage of sub-agents into the top-level result', async () => {
+      const { agent } = createDelegatingAgent();
+
+      const result = await agent.execute('What is six times seven?', undefined, {
+        mode: 'agents-as-tools',
+      });
+
+      // Two main agent steps around one sub-agent call, 15 tokens each
+      expect(result.usage).toMatchObject({ calls: 3, totalTokens: 45, unpricedCalls: 3 });
+      expect(agent.getStats().usage.byModel['custom/mock']).toMatchObject({ calls: 3 });
+    });
+
+    it('should include the planning call in a planned task', async () => {
+      const agent = createResearchAgent();
+
+      const result = await agent.execute('research the capital of France', undefined, {
+        mode: 'plan',
+      });
+
+      // The plan, then its one step
+      expect(result.success).toBe(true);
+      expect(result.usage).toMatchObject({ calls: 2, totalTokens: 30 });
+    });
+
+    it('should include the judge call in a consensus task', async () => {
+      const agent = createResearchAgent();
+
+      const result = await agent.execute('research the capital of France', undefined, {
+        mode: 'consensus',
+        consensus: { agents: 2, aggregator: 'judge' },
+      });
+
+      // Two answers, then the judge
+      expect(result).toMatchObject({ success: true, content: 'Paris is the capital of France' });
+      expect(result.usage).toMatchObject({ calls: 3, totalTokens: 45 });
+    });
+  });
+
+  describe('budgets', () => {
+    function budgetContext(budget: AgentContext['budget']): AgentContext {
+      return { conversationId: 'conv-1', history: [], variables: new Map(), budget };
+    }
+
+    it('should stop at the model call limit with a partial result', async () => {
+      const { agent, prompts } = createToolAgent(async () => ({ value: 8080 }));
+
+      const result = await agent.execute('Which port?', budgetContext({ maxModelCalls: 1 }));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(BudgetExceededError);
+      expect(result.error).toMatchObject({ budget: 'task', limit: 'modelCalls' });
+      // The tool still ran in the one step the budget allowed
+      expect(result.toolCalls?.[0].result).toEqual({ value: 8080 });
+      expect(prompts).toHaveLength(1);
+    });
+
+    it('should refuse tool calls past the limit', async () => {
+      let executed = 0;
+      const { agent, prompts } = createToolAgent(async () => ++executed);
+
+      const result = await agent.execute('Which port?', budgetContext({ maxToolCalls: 0 }));
+
+      expect(result.error).toMatchObject({ limit: 'toolCalls' });
+      expect(executed).toBe(0);
+      expect(prompts).toHaveLength(1);
+    });
+
+    it('should share the conversation budget across tasks', async () => {
+      const { agent } = createToolAgent(async () => ({ value: 8080 }), {
+        budget: { conversation: { maxModelCalls: 2 } },
+      });
+
+      const first = await agent.execute('Which port?', budgetContext(undefined));
+      const second = await agent.execute('Which port?', budgetContext(undefined));
+
+      expect(first.success).toBe(true);
+      expect(second.error).toMatchObject({ budget: 'conversation', limit: 'modelCalls' });
+    });
+
+    it('should start a deleted conversation over with a fresh budget', async () => {
+      const { agent, memory } = createToolAgent(async () => ({ value: 8080 }), {
+        budget: { conversation: { maxModelCalls: 2 } },
+      });
+
+      await agent.execute('Which port?', budgetContext(undefined));
+      memory.deleteConversation('conv-1');
+      const second = await agent.execute('Which port?', budgetContext(undefined));
+
+      expect(second.success).toBe(true);
+    });
+
+    it('should start over with fresh budgets once memory is cleared', async () => {
+      const { agent, memory } = createToolAgent(async () => ({ value: 8080 }), {
+        budget: { conversation: { maxModelCalls: 2 } },
+      });
+
+      await agent.execute('Which port?', budgetContext(undefined));
+      memory.clear();
+      const second = await agent.execute('Which port?', budgetContext(undefined));
+
+      expect(second.success).toBe(true);
+    });
+
+    it('should charge the planning call to the task budget', async () => {
+      const agent = createResearchAgent({ budget: { task: { maxModelCalls: 1 } } });
+
+      const result = await agent.execute('research the capital of France', undefined, {
+        mode: 'plan',
+      });
+
+      // The plan used the only call, so its step is refused
+      expect(result.success).toBe(false);
+      expect(result.error).toMatchObject({ budget: 'task', limit: 'modelCalls' });
+      expect(result.usage).toMatchObject({ calls: 1 });
+    });
+  });
+
+  describe('structured output', () => {
+    const schema = z.object({ answer: z.number() });
+
+    function createStructuredAgent(replies: string[]) {
+      const prompts: LanguageModelV2Prompt[] = [];
+      const model = new MockLanguageModelV2({
+        doGenerate: async ({ prompt }) => {
+          prompts.push(prompt);
+          return {
+            content: [{ type: 'text', text: replies[prompts.length - 1] }],
+            finishReason: 'stop',
+            usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+            warnings: [],
+          };
+        },
+      });
+      const agent = new MainAgent(
+        {
+          model: new ModelAdapter(model),
+          tools: new ToolRegistry(),
+          memory: new Memory(),
+          eventBus: new EventBus(),
+          taskQueue: new TaskQueue(),
+        },
+        { id: 'main', name: 'Main', model: { provider: 'custom', name: 'mock' } }
+      );
+      return { agent, prompts };
+    }
+
+    it('should return a validated object', async () => {
+      const { agent } = createStructuredAgent(['{"answer":42}']);
+
+      const result = await agent.execute('What is six times seven?', undefined, {
+        output: schema,
+      });
+
+      expect(result.object).toEqual({ answer: 42 });
+      expect(JSON.parse(result.content)).toEqual({ answer: 42 });
+    });
+
+    it('should ask again once when the output does not match', async () => {
+      const { agent, prompts } = createStructuredAgent(['{"answer":"forty-two"}', '{"answer":42}']);
+
+      const result = await agent.execute('What is six times seven?', undefined, {
+        output: schema,
+      });
+
+      expect(result.object?.answer).toBe(42);
+      expect(JSON.stringify(prompts[1])).toContain('does not match the required schema');
+    });
+  });
+
+  describe('chatStream', () => {
+    it('should record the streamed exchange in memory', async () => {
+      const { agent, memory } = createAgent(['Hi']);
+
+      await collect(agent.chatStream('Hello', 'conv-1'));
+
+      const history = memory.getHistory('conv-1');
+      expect(history.map((m) => [m.role, m.content])).toEqual([
+        ['user', 'Hello'],
+        ['assistant', 'Hi'],
+      ]);
+    });
+  });
+
+  describe('tool history', () => {
+    it('should keep tool calls and results in memory and replay them', async () => {
+      const { agent, memory, prompts } = createToolAgent(async () => ({ value: 8080 }));
+
+      await agent.chat('Which port?', 'conv-1');
+
+      const history = memory.getHistory('conv-1');
+      expect(history.map((m) => m.role)).toEqual(['user', 'assistant', 'tool', 'assistant']);
+      expect(history[1].toolCalls).toEqual([
+        { toolCallId: 'call-1', toolName: 'lookup', args: { key: 'port' } },
+      ]);
+      expect(history[2]).toMatchObject({ toolCallId: 'call-1', toolName: 'lookup' });
+
+      await agent.chat('And the host?', 'conv-1');
+
+      const replayed = prompts[2].flatMap((m) =>
+        Array.isArray(m.content) ? m.content.map((part) => part.type) : []
+      );
+      expect(replayed).toContain('tool-call');
+      expect(replayed).toContain('tool-result');
+    });
+  });
+
+  describe('tool trace', () => {
+    it('should return tool results with timings and emit tool:result', async () => {
+      const { agent, eventBus } = createToolAgent(async () => ({ value: 8080 }));
+      const events: ToolCallResult[] = [];
+      eventBus.on('tool:result', (data) => events.push(data));
+
+      const result = await agent.execute('Which port?');
+
+      expect(result.toolCalls).toHaveLength(1);
+      expect(result.toolCalls?.[0]).toMatchObject({
+        toolName: 'lookup',
+        args: { key: 'port' },
+        result: { value: 8080 },
+        agentId: 'main',
+        step: 0,
+      });
+      expect(result.toolCalls?.[0].durationMs).toBeGreaterThanOrEqual(0);
+      expect(events).toEqual(result.toolCalls);
+    });
+
+    it('should record tool errors', async () => {
+      const { agent } = createToolAgent(async () => {
+        throw new Error('lookup unavailable');
+      });
+
+      const result = await agent.execute('Which port?');
+
+      expect(result.toolCalls?.[0]).toMatchObject({
+        result: undefined,
+        error: 'lookup unavailable',
+      });
+    });
+  });
+
+  describe('cancellation', () => {
+    /**
+     * Model that only settles once its request is aborted
+     */
+    function createHangingModel(signals: AbortSignal[]): MockLanguageModelV2 {
+      return new MockLanguageModelV2({
+        doGenerate: ({ abortSignal }) => {
+          if (abortSignal) signals.push(abortSignal);
+          return new Promise((_, reject) => {
+            abortSignal?.addEventListener('abort', () => reject(abortSignal.reason));
+          });
+        },
+      });
+    }
+
+    it('should stop a running task on cancel', async () => {
+      const signals: AbortSignal[] = [];
+      const agent = new MainAgent(
+        {
+          model: new ModelAdapter(createHangingModel(signals)),
+          tools: new ToolRegistry(),
+          memory: new Memory(),
+          eventBus: new EventBus(),
+          taskQueue: new TaskQueue(),
+        },
+        { id: 'main', name: 'Main', model: { provider: 'custom', name: 'mock' } }
+      );
+
+      const pending = agent.execute('Think forever', undefined, { taskId: 'task-1' });
+      await new Promise((r) => setTimeout(r, 10));
+
+      expect(agent.getRunningTasks()).toEqual(['task-1']);
+      expect(agent.cancel('task-1', 'No longer needed')).toBe(true);
+
+      const result = await pending;
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('No longer needed');
+      expect(signals[0].aborted).toBe(true);
+      expect(agent.getRunningTasks()).toEqual([]);
+    });
+
+    it('should abort a sub-agent that times out', async () => {
+      const signals: AbortSignal[] = [];
+      const agent = new MainAgent(
+        {
+          model: new ModelAdapter(createHangingModel(signals)),
+          tools: new ToolRegistry(),
+          memory: new Memory(),
+          eventBus: new EventBus(),
+          taskQueue: new TaskQueue(),
+        },
+        {
+          id: 'main',
+          name: 'Main',
+          model: { provider: 'custom', name: 'mock' },
+          timeout: 20,
+          retryAttempts: 0,
+        }
+      );
+      agent.createSubAgent({
+        id: 'calc',
+        name: 'Calculator',
+        model: { provider: 'custom', name: 'mock' },
+        specialization: 'math',
+        capabilities: ['calculate'],
+      });
+
+      const result = await agent.execute('Please calculate 6 * 7');
+
+      expect(result.error?.message).toContain('timed out');
+      expect(signals[0].aborted).toBe(true);
+    });
+  });
+});
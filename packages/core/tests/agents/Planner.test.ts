@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { MockLanguageModelV2 } from 'ai/test';
+import { Planner, InvalidPlanError } from '../../src/agents/Planner.js';
+import { AgentCoordinator } from '../../src/agents/AgentCoordinator.js';
+import { ModelAdapter } from '../../src/core/model/ModelAdapter.js';
+import { TaskQueue } from '../../src/utils/task-queue.js';
+import { EventBus } from '../../src/utils/event-bus.js';
+import type { Plan } from '../../src/agents/types.js';
+
+function createModel(text: string): ModelAdapter {
+  return new ModelAdapter(
+    new MockLanguageModelV2({
+      doGenerate: async () => ({
+        content: [{ type: 'text', text }],
+        finishReason: 'stop',
+        usage: { inputTokens: 10, outputTokens: 20, totalTokens: 30 },
+        warnings: [],
+      }),
+    })
+  );
+}
+
+describe('Planner', () => {
+  describe('createPlan', () => {
+    it('should parse a plan from model output', async () => {
+      const planner = new Planner({
+        model: createModel(
+          '```json\n' +
+            JSON.stringify({
+              steps: [
+                { id: 'a', description: 'Research', subAgentId: null, dependsOn: [] },
+                { id: 'b', description: 'Summarize', dependsOn: ['a'] },
+              ],
+            }) +
+            '\n```'
+        ),
+      });
+
+      const plan = await planner.createPlan('Write a report', []);
+
+      expect(plan.task).toBe('Write a report');
+      expect(plan.steps).toHaveLength(2);
+      expect(plan.steps[1].dependsOn).toEqual(['a']);
+      expect(plan.steps[0].subAgentId).toBeUndefined();
+    });
+
+    it('should reject output that is not a plan', async () => {
+      const planner = new Planner({ model: createModel('I cannot plan this.') });
+
+      await expect(planner.createPlan('task', [])).rejects.toBeInstanceOf(InvalidPlanError);
+    });
+  });
+
+  describe('validatePlan', () => {
+    const planner = new Planner({ model: createModel('') });
+
+    it('should reject unknown dependencies', () => {
+      const plan: Plan = {
+        task: 'task',
+        steps: [{ id: 'a', description: 'A', dependsOn: ['missing'] }],
+      };
+      expect(() => planner.validatePlan(plan)).toThrow('unknown step');
+    });
+
+    it('should reject cycles', () => {
+      const plan: Plan = {
+        task: 'task',
+        steps: [
+          { id: 'a', description: 'A', dependsOn: ['b'] },
+          { id: 'b', description: 'B', dependsOn: ['a'] },
+        ],
+      };
+      expect(() => planner.validatePlan(plan)).toThrow('cycle');
+    });
+
+    it('should group steps into dependency levels', () => {
+      const plan: Plan = {
+        task: 'task',
+        steps: [
+          { id: 'a', description: 'A', dependsOn: [] },
+          { id: 'b', description: 'B', dependsOn: [] },
+          { id: 'c', description: 'C', dependsOn: ['a', 'b'] },
+        ],
+      };
+
+      const levels = planner.getExecutionOrder(plan);
+      expect(levels.map((level) => level.map((step) => step.id))).toEqual([['a', 'b'], ['c']]);
+    });
+  });
+
+  describe('plan execution', () => {
+    it('should run steps in dependency order and skip steps after a failure', async () => {
+      const coordinator = new AgentCoordinator({
+        taskQueue: new TaskQueue({ maxConcurrent: 2 }),
+        eventBus: new EventBus(),
+      });
+      const plan: Plan = {
+        task: 'task',
+        steps: [
+          { id: 'c', description: 'C', dependsOn: ['a'] },
+          { id: 'a', description: 'A', dependsOn: [] },
+          { id: 'b', description: 'B', dependsOn: [] },
+          { id: 'd', description: 'D', dependsOn: ['b'] },
+        ],
+      };
+      const order: string[] = [];
+
+      const results = await coordinator.executePlan(plan, async (step, deps) => {
+        order.push(step.id);
+        if (step.id === 'b') {
+          return { success: false, content: '', error: new Error('boom') };
+        }
+        return { success: true, content: `${step.id}(${deps.map((d) => d.stepId).join(',')})` };
+      });
+
+      expect(order.indexOf('a')).toBeLessThan(order.indexOf('c'));
+      expect(order).not.toContain('d');
+      expect(results.find((r) => r.stepId === 'c')?.result.content).toBe('c(a)');
+      expect(results.find((r) => r.stepId === 'd')?.result.success).toBe(false);
+    });
+  });
+});
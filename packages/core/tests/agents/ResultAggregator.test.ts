@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { MockLanguageModelV2 } from 'ai/test';
+import {
+  FirstSuccessAggregator,
+  JudgeAggregator,
+  MajorityVoteAggregator,
+} from '../../src/agents/ResultAggregator.js';
+import { ModelAdapter } from '../../src/core/model/ModelAdapter.js';
+import type { ConsensusResult } from '../../src/agents/types.js';
+
+function answer(subAgentId: string, rank: number, content?: string): ConsensusResult {
+  return {
+    subAgentId,
+    rank,
+    result:
+      content === undefined
+        ? { success: false, content: '', error: new Error(`${subAgentId} failed`) }
+        : { success: true, content },
+  };
+}
+
+describe('MajorityVoteAggregator', () => {
+  it('should pick the most common answer, ignoring case and punctuation', async () => {
+    const result = await new MajorityVoteAggregator().aggregate('Is it prime?', [
+      answer('a', 0, 'No'),
+      answer('b', 1, 'yes.'),
+      answer('c', 2, 'Yes'),
+    ]);
+
+    expect(result).toMatchObject({
+      success: true,
+      content: 'yes.',
+      metadata: { votes: 2, voters: ['b', 'c'], distinctAnswers: 2 },
+    });
+  });
+
+  it('should break ties by rank and fail when nothing succeeded', async () => {
+    const aggregator = new MajorityVoteAggregator();
+
+    const tie = await aggregator.aggregate('task', [answer('b', 1, 'B'), answer('a', 0, 'A')]);
+    expect(tie.content).toBe('A');
+
+    const failed = await aggregator.aggregate('task', [answer('a', 0), answer('b', 1)]);
+    expect(failed.success).toBe(false);
+    expect(failed.error?.message).toContain('a: a failed');
+  });
+});
+
+describe('FirstSuccessAggregator', () => {
+  it('should take the first successful answer to complete', async () => {
+    const result = await new FirstSuccessAggregator().aggregate('task', [
+      answer('a', 0),
+      answer('c', 2, 'Fastest'),
+      answer('b', 1, 'Slower'),
+    ]);
+
+    expect(result).toMatchObject({ content: 'Fastest', metadata: { chosen: 'c' } });
+  });
+});
+
+describe('JudgeAggregator', () => {
+  it('should have the model synthesize the answers', async () => {
+    const model = new MockLanguageModelV2({
+      doGenerate: async () => ({
+        content: [{ type: 'text', text: 'Combined answer' }],
+        finishReason: 'stop',
+        usage: { inputTokens: 20, outputTokens: 2, totalTokens: 22 },
+        warnings: [],
+      }),
+    });
+    const judge = new JudgeAggregator({ model: new ModelAdapter(model) });
+
+    const result = await judge.aggregate('Explain closures', [
+      answer('a', 0, 'First take'),
+      answer('b', 1, 'Second take'),
+    ]);
+
+    expect(result).toMatchObject({ success: true, content: 'Combined answer' });
+    expect(result.metadata?.judged).toBe(true);
+    expect(JSON.stringify(model.doGenerateCalls[0].prompt)).toContain('Second take');
+  });
+
+  it('should fall back to majority vote when the model fails', async () => {
+    const model = new MockLanguageModelV2({
+      doGenerate: async () => {
+        throw new Error('Judge unavailable');
+      },
+    });
+    const judge = new JudgeAggregator({ model: new ModelAdapter(model) });
+
+    const result = await judge.aggregate('task', [answer('a', 0, 'Alpha'), answer('b', 1, 'Beta')]);
+
+    expect(result).toMatchObject({ content: 'Alpha', metadata: { judged: false } });
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { MockLanguageModelV2 } from 'ai/test';
+import { APICallError, RetryError } from 'ai';
+import { RetryPolicy } from '../../src/agents/RetryPolicy.js';
+import { MainAgent } from '../../src/agents/MainAgent.js';
+import { ModelAdapter } from '../../src/core/model/ModelAdapter.js';
+import { ToolRegistry } from '../../src/core/tools/ToolRegistry.js';
+import { Memory } from '../../src/core/memory/Memory.js';
+import { EventBus } from '../../src/utils/event-bus.js';
+import { TaskQueue } from '../../src/utils/task-queue.js';
+import { TaskCancelledError } from '../../src/utils/abort.js';
+import type { AgentEvents, RetryPolicyConfig } from '../../src/agents/types.js';
+
+function apiError(statusCode: number, responseHeaders?: Record<string, string>): APICallError {
+  return new APICallError({
+    message: `HTTP ${statusCode}`,
+    url: 'https://api.example.com',
+    requestBodyValues: {},
+    statusCode,
+    responseHeaders,
+    // Keep the AI SDK from retrying on its own
+    isRetryable: false,
+  });
+}
+
+/**
+ * Main agent with one sub-agent whose model fails with the given errors, then answers
+ */
+function createAgent(failures: Error[], retry: RetryPolicyConfig) {
+  let calls = 0;
+  const model = new MockLanguageModelV2({
+    doGenerate: async () => {
+      const failure = failures[calls++];
+      if (failure) {
+        throw failure;
+      }
+      return {
+        content: [{ type: 'text', text: 'Done' }],
+        finishReason: 'stop',
+        usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+        warnings: [],
+      };
+    },
+  });
+
+  const eventBus = new EventBus();
+  const retries: AgentEvents['subagent:retry'][] = [];
+  eventBus.on('subagent:retry', (data) => retries.push(data));
+
+  const agent = new MainAgent(
+    {
+      model: new ModelAdapter(model),
+      tools: new ToolRegistry(),
+      memory: new Memory(),
+      eventBus,
+      taskQueue: new TaskQueue(),
+    },
+    { id: 'main', name: 'Main', model: { provider: 'custom', name: 'mock' } }
+  );
+  agent.createSubAgent({
+    id: 'worker',
+    name: 'Worker',
+    model: { provider: 'custom', name: 'mock' },
+    specialization: 'general',
+    capabilities: ['general'],
+    retry,
+  });
+
+  return { agent, retries, getCalls: () => calls };
+}
+
+describe('RetryPolicy', () => {
+  it('should classify errors', () => {
+    const policy = new RetryPolicy();
+
+    expect(policy.classify(apiError(429))).toBe('rate-limit');
+    expect(policy.classify(apiError(503))).toBe('server');
+    expect(policy.classify(apiError(400))).toBe('client');
+    expect(
+      policy.classify(
+        new RetryError({ message: 'Failed', reason: 'maxRetriesExceeded', errors: [apiError(429)] })
+      )
+    ).toBe('rate-limit');
+    expect(
+      policy.classify(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+    ).toBe('network');
+    expect(policy.classify(new Error('Task timed out after 100ms'))).toBe('timeout');
+    expect(policy.classify(new TaskCancelledError())).toBe('cancelled');
+    expect(policy.classify(new Error('Something odd'))).toBe('unknown');
+  });
+
+  it('should retry exactly the configured status codes', () => {
+    const policy = new RetryPolicy();
+    expect(policy.classify(apiError(409))).toBe('server');
+    expect(policy.decide(0, { error: apiError(409) }).retry).toBe(true);
+    expect(policy.decide(0, { error: apiError(425) }).retry).toBe(true);
+
+    const strict = new RetryPolicy({ retryableStatusCodes: [503] });
+    expect(strict.decide(0, { error: apiError(429) })).toMatchObject({
+      retry: false,
+      errorKind: 'client',
+    });
+    expect(strict.decide(0, { error: apiError(500) }).retry).toBe(false);
+    expect(strict.decide(0, { error: apiError(503) }).retry).toBe(true);
+  });
+
+  it('should back off exponentially up to the maximum delay', () => {
+    const policy = new RetryPolicy({ initialDelayMs: 100, maxDelayMs: 300, jitter: 0 });
+
+    expect([0, 1, 2, 3].map((attempt) => policy.getDelay(attempt))).toEqual([100, 200, 300, 300]);
+  });
+
+  it('should keep jittered delays within bounds', () => {
+    const policy = new RetryPolicy({ initialDelayMs: 100, jitter: 0.5 });
+
+    for (let i = 0; i < 20; i++) {
+      const ms = policy.getDelay(1);
+      expect(ms).toBeGreaterThanOrEqual(100);
+      expect(ms).toBeLessThanOrEqual(200);
+    }
+  });
+
+  it('should honour Retry-After headers', () => {
+    const policy = new RetryPolicy({ maxDelayMs: 5000 });
+
+    expect(policy.getDelay(0, apiError(429, { 'retry-after': '2' }))).toBe(2000);
+    expect(policy.getDelay(0, apiError(429, { 'retry-after': '60' }))).toBe(5000);
+  });
+
+  it('should stop once retries are exhausted', () => {
+    const policy = new RetryPolicy({ maxRetries: 1 });
+
+    expect(policy.decide(0, { error: apiError(503) }).retry).toBe(true);
+    expect(policy.decide(1, { error: apiError(503) }).retry).toBe(false);
+  });
+
+  it('should retry unsuccessful results only when enabled', () => {
+    const unsuccessful = { result: { success: false, content: 'Not sure' } };
+
+    expect(new RetryPolicy().decide(0, unsuccessful)).toMatchObject({
+      retry: false,
+      errorKind: 'unsuccessful',
+    });
+    expect(new RetryPolicy({ retryOnUnsuccessful: true }).decide(0, unsuccessful).retry).toBe(true);
+  });
+});
+
+describe('AgentCoordinator retries', () => {
+  it('should retry transient sub-agent failures and emit retry events', async () => {
+    const { agent, retries, getCalls } = createAgent([apiError(503), apiError(429)], {
+      initialDelayMs: 1,
+    });
+
+    const result = await agent.getCoordinator().executeWithAgent('worker', 'Do it');
+
+    expect(result).toMatchObject({ success: true, content: 'Done' });
+    expect(getCalls()).toBe(3);
+    expect(retries.map((r) => [r.attempt, r.errorKind])).toEqual([
+      [1, 'server'],
+      [2, 'rate-limit'],
+    ]);
+  });
+
+  it('should not retry client errors', async () => {
+    const { agent, retries, getCalls } = createAgent([apiError(400)], { initialDelayMs: 1 });
+
+    const result = await agent.getCoordinator().executeWithAgent('worker', 'Do it');
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe('HTTP 400');
+    expect(getCalls()).toBe(1);
+    expect(retries).toHaveLength(0);
+  });
+});
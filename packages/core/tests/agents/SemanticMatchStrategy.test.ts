@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MockLanguageModelV2 } from 'ai/test';
+import { AgentCoordinator } from '../../src/agents/AgentCoordinator.js';
+import { SemanticMatchStrategy } from '../../src/agents/SemanticMatchStrategy.js';
+import { ToolSubAgent } from '../../src/agents/SubAgent.js';
+import { HashingEmbedder } from '../../src/core/memory/Embedder.js';
+import { ModelAdapter } from '../../src/core/model/ModelAdapter.js';
+import { ToolRegistry } from '../../src/core/tools/ToolRegistry.js';
+import { Memory } from '../../src/core/memory/Memory.js';
+import { EventBus } from '../../src/utils/event-bus.js';
+import { TaskQueue } from '../../src/utils/task-queue.js';
+import type { AgentEvents } from '../../src/agents/types.js';
+
+function createSubAgent(
+  id: string,
+  specialization: string,
+  capabilities: string[],
+  examples: string[]
+) {
+  return new ToolSubAgent(
+    {
+      model: new ModelAdapter(new MockLanguageModelV2()),
+      tools: new ToolRegistry(),
+      memory: new Memory(),
+      eventBus: new EventBus(),
+    },
+    {
+      id,
+      name: id,
+      model: { provider: 'custom', name: 'mock' },
+      specialization,
+      capabilities,
+      examples,
+    }
+  );
+}
+
+const reviewer = createSubAgent(
+  'code-review',
+  'code review',
+  ['review', 'lint'],
+  ['Look over my TypeScript pull request', 'Check this function for bugs']
+);
+const researcher = createSubAgent(
+  'research',
+  'web research',
+  ['search', 'summarize'],
+  ['Find recent articles about climate policy', 'Summarize what is known about a topic']
+);
+const candidates = [reviewer, researcher];
+
+describe('SemanticMatchStrategy', () => {
+  it('should pick the closest agent regardless of case and wording', async () => {
+    const strategy = new SemanticMatchStrategy({ embedder: new HashingEmbedder() });
+    const task = 'Can you LOOK OVER my typescript?';
+
+    expect(reviewer.canHandle(task)).toBe(false);
+    expect(await strategy.select(task, candidates)).toBe(reviewer);
+    expect(await strategy.select('Find articles about climate policy', candidates)).toBe(
+      researcher
+    );
+  });
+
+  it('should select nothing below the threshold', async () => {
+    const strategy = new SemanticMatchStrategy(
+      { embedder: new HashingEmbedder() },
+      { threshold: 0.5 }
+    );
+
+    expect(await strategy.select('Bake a chocolate cake', candidates)).toBeNull();
+  });
+
+  it('should embed each agent once, at registration', async () => {
+    const embedder = new HashingEmbedder();
+    const embed = vi.spyOn(embedder, 'embed');
+    const coordinator = new AgentCoordinator(
+      { taskQueue: new TaskQueue(), eventBus: new EventBus(), embedder },
+      { selectionStrategy: 'semantic-match' }
+    );
+
+    coordinator.registerSubAgent(reviewer);
+    coordinator.registerSubAgent(researcher);
+    expect(embed).toHaveBeenCalledTimes(2);
+
+    await coordinator.selectSubAgent('Check this function for bugs');
+    await coordinator.selectSubAgent('Check this function for bugs');
+
+    // One more call for the task, reused by the second selection
+    expect(embed).toHaveBeenCalledTimes(3);
+  });
+
+  it('should report scores in the selection event', async () => {
+    const eventBus = new EventBus();
+    const selected: AgentEvents['subagent:selected'][] = [];
+    eventBus.on('subagent:selected', (data) => selected.push(data));
+
+    const coordinator = new AgentCoordinator(
+      { taskQueue: new TaskQueue(), eventBus },
+      { selectionStrategy: 'semantic-match' }
+    );
+    coordinator.registerSubAgent(reviewer);
+    coordinator.registerSubAgent(researcher);
+
+    await coordinator.selectSubAgent('Look over my pull request');
+
+    expect(selected[0].subAgentId).toBe('code-review');
+    expect(selected[0].scores?.['code-review']).toBeGreaterThan(selected[0].scores?.research ?? 1);
+  });
+});
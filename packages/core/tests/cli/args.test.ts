@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { parseArgs, CliUsageError } from '../../src/cli/args.js';
+
+describe('CLI args', () => {
+  it('should default to chat', () => {
+    const args = parseArgs([]);
+    expect(args.command).toBe('chat');
+    expect(args.json).toBe(false);
+  });
+
+  it('should parse run with a task and options', () => {
+    const args = parseArgs(['run', 'Calculate', '2 + 2', '-c', 'agent.json', '--mode', 'plan']);
+    expect(args.command).toBe('run');
+    expect(args.task).toBe('Calculate 2 + 2');
+    expect(args.configPath).toBe('agent.json');
+    expect(args.mode).toBe('plan');
+  });
+
+  it('should parse plan with json output', () => {
+    const args = parseArgs(['plan', 'Write a report', '--json']);
+    expect(args.command).toBe('plan');
+    expect(args.json).toBe(true);
+  });
+
+  it('should prefer help over other commands', () => {
+    expect(parseArgs(['run', 'task', '--help']).command).toBe('help');
+  });
+
+  it('should reject a missing task', () => {
+    expect(() => parseArgs(['run'])).toThrow(CliUsageError);
+  });
+
+  it('should reject unknown commands and modes', () => {
+    expect(() => parseArgs(['deploy'])).toThrow('Unknown command');
+    expect(() => parseArgs(['run', 'task', '--mode', 'fast'])).toThrow('Invalid mode');
+  });
+});
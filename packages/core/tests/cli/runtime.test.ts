@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { createRequire } from 'module';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { closeRuntime, createRuntime } from '../../src/cli/runtime.js';
+import { parseConfig, type MemoryStoreConfigType } from '../../src/config/schema.js';
+
+function hasNodeSqlite(): boolean {
+  try {
+    createRequire(import.meta.url)('node:sqlite');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const stores: Array<{
+  type: MemoryStoreConfigType['type'];
+  skip?: boolean;
+  create: (dir: string) => MemoryStoreConfigType;
+}> = [
+  { type: 'file', create: (dir) => ({ type: 'file', dir: join(dir, 'memory') }) },
+  {
+    type: 'sqlite',
+    skip: !hasNodeSqlite(),
+    create: (dir) => ({ type: 'sqlite', path: join(dir, 'data', 'memory.db') }),
+  },
+];
+
+function configWith(store: MemoryStoreConfigType) {
+  return parseConfig({
+    model: { provider: 'openai', name: 'gpt-4o-mini', apiKey: 'test-key' },
+    memory: { store },
+  });
+}
+
+for (const { type, skip, create } of stores) {
+  describe.skipIf(skip)(`CLI runtime with a ${type} store`, () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'runtime-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should resume a conversation in a new runtime', async () => {
+      const store = create(dir);
+
+      const first = await createRuntime(configWith(store));
+      first.memory.addMessage('conv-1', { role: 'user', content: 'Hello', timestamp: new Date() });
+      await closeRuntime(first);
+
+      const second = await createRuntime(configWith(store));
+      expect(second.memory.getHistory('conv-1').map((msg) => msg.content)).toEqual(['Hello']);
+      await closeRuntime(second);
+    });
+  });
+}
@@ -0,0 +1,195 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { fileURLToPath } from 'url';
+import { McpClient } from '../../../src/core/mcp/McpClient.js';
+import { McpTool } from '../../../src/core/mcp/McpTool.js';
+import { StdioTransport, StreamableHttpTransport } from '../../../src/core/mcp/McpTransport.js';
+import { ToolRegistry } from '../../../src/core/tools/ToolRegistry.js';
+
+const SERVER_SCRIPT = fileURLToPath(new URL('./fixtures/stdio-server.mjs', import.meta.url));
+
+function createStdioClient(): McpClient {
+  return new McpClient({
+    name: 'stand-in',
+    transport: new StdioTransport({ command: process.execPath, args: [SERVER_SCRIPT] }),
+    reconnect: { maxAttempts: 2, delayMs: 10 },
+  });
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise((r) => setTimeout(r, 20));
+  }
+}
+
+describe('McpClient', () => {
+  let client: McpClient;
+
+  afterEach(async () => {
+    await client?.close();
+  });
+
+  describe('stdio', () => {
+    it('should register every tool with the registration options', async () => {
+      client = createStdioClient();
+      const registry = new ToolRegistry();
+
+      const names = await client.registerTools(registry, {
+        prefix: 'srv_',
+        allowedAgents: ['agent-1'],
+        permissions: ['read', 'execute'],
+      });
+
+      expect(names).toEqual(['srv_echo', 'srv_fail', 'srv_crash', 'srv_hang_up', 'srv_add_tool']);
+      expect(client.getServerInfo()).toMatchObject({ name: 'stand-in', version: '1.0.0' });
+      expect(registry.canAccess('agent-1', 'srv_echo')).toBe(true);
+      expect(registry.canAccess('agent-2', 'srv_echo')).toBe(false);
+      expect(registry.canAccess('agent-1', 'srv_echo', 'write')).toBe(false);
+
+      const tool = registry.get('srv_echo') as McpTool;
+      expect(tool).toBeInstanceOf(McpTool);
+      expect(tool.getInputJsonSchema()).toMatchObject({ required: ['text'] });
+      const coreTool = registry.toCoreTools('agent-1').srv_echo as {
+        inputSchema: { jsonSchema: Record<string, unknown> };
+      };
+      expect(coreTool.inputSchema.jsonSchema).toMatchObject({ required: ['text'] });
+    });
+
+    it('should call tools through the registry', async () => {
+      client = createStdioClient();
+      const registry = new ToolRegistry();
+      await client.registerTools(registry);
+
+      const echoed = await registry.execute('echo', { text: 'hello' }, { agentId: 'agent' });
+      const failed = await registry.execute('fail', {}, { agentId: 'agent' });
+
+      expect(echoed).toEqual({ success: true, data: 'hello' });
+      expect(failed).toEqual({ success: false, error: 'it failed' });
+    });
+
+    it('should pick up tool list changes', async () => {
+      client = createStdioClient();
+      const registry = new ToolRegistry();
+      await client.registerTools(registry);
+
+      await registry.execute('add_tool', {}, { agentId: 'agent' });
+      await waitFor(() => registry.has('extra'));
+
+      expect(await registry.execute('extra', {}, { agentId: 'agent' })).toEqual({
+        success: true,
+        data: { extra: true },
+      });
+    });
+
+    it('should reconnect after the server exits', async () => {
+      client = createStdioClient();
+      const registry = new ToolRegistry();
+      await client.registerTools(registry);
+
+      const crashed = await registry.execute('crash', {}, { agentId: 'agent' });
+      expect(crashed.success).toBe(false);
+      expect(crashed.error).toContain('exited');
+
+      const echoed = await registry.execute('echo', { text: 'again' }, { agentId: 'agent' });
+      expect(echoed).toEqual({ success: true, data: 'again' });
+      expect(client.getState()).toBe('connected');
+      expect(registry.has('echo')).toBe(true);
+    });
+
+    it('should fail calls and reconnect when the server stops reading', async () => {
+      client = createStdioClient();
+      const registry = new ToolRegistry();
+      await client.registerTools(registry);
+
+      await registry.execute('hang_up', {}, { agentId: 'agent' });
+      await new Promise((r) => setTimeout(r, 50));
+      const failed = await registry.execute('echo', { text: 'lost' }, { agentId: 'agent' });
+      expect(failed.success).toBe(false);
+
+      await waitFor(() => client.getState() === 'connected');
+      const echoed = await registry.execute('echo', { text: 'again' }, { agentId: 'agent' });
+      expect(echoed).toEqual({ success: true, data: 'again' });
+    });
+
+    it('should unregister its tools when closed', async () => {
+      client = createStdioClient();
+      const registry = new ToolRegistry();
+      await client.registerTools(registry);
+
+      await client.close();
+
+      expect(registry.getNames()).toEqual([]);
+      expect(client.getState()).toBe('closed');
+      await expect(client.listTools()).rejects.toThrow('closed');
+    });
+  });
+
+  describe('streamable HTTP', () => {
+    let server: Server;
+
+    afterEach(async () => {
+      await new Promise((resolve) => server?.close(resolve));
+    });
+
+    it('should keep the session and read event stream responses', async () => {
+      const requests: Array<{ method?: string; session?: string }> = [];
+      server = createServer((req, res) => {
+        const session = req.headers['mcp-session-id'] as string | undefined;
+        if (req.method === 'DELETE') {
+          requests.push({ method: 'DELETE', session });
+          res.writeHead(200).end();
+          return;
+        }
+
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          const message = JSON.parse(body);
+          requests.push({ method: message.method, session });
+          if (message.id === undefined) {
+            res.writeHead(202).end();
+          } else if (message.method === 'initialize') {
+            res.writeHead(200, { 'content-type': 'application/json', 'mcp-session-id': 'abc' });
+            res.end(
+              JSON.stringify({
+                jsonrpc: '2.0',
+                id: message.id,
+                result: { protocolVersion: '2025-03-26', capabilities: {} },
+              })
+            );
+          } else {
+            const result =
+              message.method === 'tools/list'
+                ? { tools: [{ name: 'remote', inputSchema: { type: 'object' } }] }
+                : { content: [{ type: 'text', text: 'from http' }] };
+            res.writeHead(200, { 'content-type': 'text/event-stream' });
+            res.end(
+              `event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', id: message.id, result })}\n\n`
+            );
+          }
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+
+      client = new McpClient({
+        name: 'http',
+        transport: new StreamableHttpTransport({ url: `http://127.0.0.1:${port}/mcp` }),
+      });
+      const registry = new ToolRegistry();
+      await client.registerTools(registry);
+      const result = await registry.execute('remote', {}, { agentId: 'agent' });
+      await client.close();
+
+      expect(result).toEqual({ success: true, data: 'from http' });
+      expect(requests).toEqual([
+        { method: 'initialize', session: undefined },
+        { method: 'notifications/initialized', session: 'abc' },
+        { method: 'tools/list', session: 'abc' },
+        { method: 'tools/call', session: 'abc' },
+        { method: 'DELETE', session: 'abc' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { PassThrough } from 'stream';
+import { MockLanguageModelV2 } from 'ai/test';
+import { z } from 'zod';
+import { MainAgent } from '../../../src/agents/MainAgent.js';
+import { ModelAdapter } from '../../../src/core/model/ModelAdapter.js';
+import { ToolRegistry } from '../../../src/core/tools/ToolRegistry.js';
+import { createTool } from '../../../src/core/tools/BaseTool.js';
+import { Memory } from '../../../src/core/memory/Memory.js';
+import { McpServer, type McpServerOptions } from '../../../src/core/mcp/McpServer.js';
+import { McpClient } from '../../../src/core/mcp/McpClient.js';
+import type { McpTransport, TransportHandlers } from '../../../src/core/mcp/McpTransport.js';
+import { EventBus } from '../../../src/utils/event-bus.js';
+import { TaskQueue } from '../../../src/utils/task-queue.js';
+
+function createServer(options: Partial<McpServerOptions> = {}) {
+  const model = new MockLanguageModelV2({
+    doGenerate: async () => ({
+      content: [{ type: 'text', text: 'Answer' }],
+      finishReason: 'stop',
+      usage: { inputTokens: 5, outputTokens: 1, totalTokens: 6 },
+      warnings: [],
+    }),
+  });
+  const tools = new ToolRegistry();
+  tools.register(
+    createTool({
+      name: 'lookup',
+      description: 'Look up a setting',
+      inputSchema: z.object({ key: z.string() }),
+      execute: async ({ key }) => ({ key, value: 8080 }),
+    })
+  );
+  tools.register(
+    createTool({
+      name: 'deploy',
+      description: 'Deploy the app',
+      inputSchema: z.object({}),
+      execute: async () => 'deployed',
+    }),
+    { requiresApproval: true }
+  );
+  tools.register(
+    createTool({
+      name: 'private',
+      description: 'Not for the main agent',
+      inputSchema: z.object({}),
+      execute: async () => 'secret',
+    }),
+    { allowedAgents: ['other'] }
+  );
+
+  const agent = new MainAgent(
+    {
+      model: new ModelAdapter(model),
+      tools,
+      memory: new Memory(),
+      eventBus: new EventBus(),
+      taskQueue: new TaskQueue(),
+    },
+    { id: 'main', name: 'Main', model: { provider: 'custom', name: 'mock' } }
+  );
+  agent.createSubAgent({
+    id: 'writer',
+    name: 'Writer',
+    model: { provider: 'custom', name: 'mock' },
+    specialization: 'writing',
+    capabilities: ['writing'],
+  });
+
+  return new McpServer({ agent, tools, ...options });
+}
+
+/**
+ * Client transport that hands each message straight to a server
+ */
+function createLocalTransport(server: McpServer): McpTransport {
+  let handlers: TransportHandlers | undefined;
+  return {
+    start: async (h) => {
+      handlers = h;
+    },
+    send: async (message) => {
+      const response = await server.handle(message);
+      if (response) {
+        handlers?.onMessage(response);
+      }
+    },
+    close: async () => {
+      handlers = undefined;
+    },
+  };
+}
+
+describe('McpServer', () => {
+  it('should publish run_task, the sub-agents and the accessible tools', async () => {
+    const client = new McpClient({
+      name: 'local',
+      transport: createLocalTransport(createServer()),
+    });
+
+    const info = await client.connect();
+    const tools = await client.listTools();
+
+    expect(info).toMatchObject({ name: 'plan-agent', protocolVersion: '2025-06-18' });
+    expect(tools.map((tool) => tool.name)).toEqual([
+      'run_task',
+      'delegate_to_writer',
+      'lookup',
+      'deploy',
+    ]);
+    expect(tools[0].inputSchema).toMatchObject({ required: ['task'] });
+    expect(tools[2].inputSchema).toMatchObject({ properties: { key: { type: 'string' } } });
+  });
+
+  it('should only publish allowlisted tools', async () => {
+    const server = createServer({ allowedTools: ['run_task', 'lookup'] });
+    const client = new McpClient({ name: 'local', transport: createLocalTransport(server) });
+
+    expect((await client.listTools()).map((tool) => tool.name)).toEqual(['run_task', 'lookup']);
+    await expect(client.callTool('deploy', {})).rejects.toThrow('Unknown tool: deploy');
+  });
+
+  it('should run tasks, sub-agents and tools', async () => {
+    const client = new McpClient({
+      name: 'local',
+      transport: createLocalTransport(createServer()),
+    });
+
+    const task = await client.callTool('run_task', { task: 'Write a haiku' });
+    const delegated = await client.callTool('delegate_to_writer', { task: 'Write a haiku' });
+    const lookup = await client.callTool('lookup', { key: 'port' });
+
+    expect(task.content).toEqual([{ type: 'text', text: 'Answer' }]);
+    expect(delegated.content).toEqual([{ type: 'text', text: 'Answer' }]);
+    expect(JSON.parse(lookup.content[0].text!)).toEqual({ key: 'port', value: 8080 });
+  });
+
+  it('should report failures as tool errors', async () => {
+    const client = new McpClient({
+      name: 'local',
+      transport: createLocalTransport(createServer()),
+    });
+
+    const invalid = await client.callTool('lookup', { key: 1 });
+    const unapproved = await client.callTool('deploy', {});
+
+    expect(invalid).toMatchObject({ isError: true });
+    expect(invalid.content[0].text).toContain('Invalid input');
+    expect(unapproved).toMatchObject({
+      isError: true,
+      content: [{ type: 'text', text: 'Tool call rejected: it needs confirmation' }],
+    });
+  });
+
+  it('should serve newline-delimited JSON over streams', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const listening = createServer().listen(input, output);
+
+    input.end(`${JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' })}\n`);
+    await listening;
+    const [line] = await new Promise<string[]>((resolve) =>
+      setImmediate(() => resolve(String(output.read()).trim().split('\n')))
+    );
+
+    expect(JSON.parse(line)).toEqual({ jsonrpc: '2.0', id: 1, result: {} });
+  });
+});
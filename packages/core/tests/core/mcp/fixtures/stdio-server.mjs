@@ -0,0 +1,79 @@
+// Minimal MCP server over stdio, used as a stand-in by the client tests
+import { closeSync } from 'fs';
+import { createInterface } from 'readline';
+
+const tools = [
+  {
+    name: 'echo',
+    description: 'Echo the text back',
+    inputSchema: {
+      type: 'object',
+      properties: { text: { type: 'string' } },
+      required: ['text'],
+    },
+  },
+  { name: 'fail', description: 'Always fails', inputSchema: { type: 'object' } },
+  { name: 'crash', description: 'Exit the server', inputSchema: { type: 'object' } },
+  { name: 'hang_up', description: 'Close stdin, then exit', inputSchema: { type: 'object' } },
+  { name: 'add_tool', description: 'Add the extra tool', inputSchema: { type: 'object' } },
+];
+
+function send(message) {
+  process.stdout.write(`${JSON.stringify({ jsonrpc: '2.0', ...message })}\n`);
+}
+
+function callTool(name, args) {
+  switch (name) {
+    case 'echo':
+      return { content: [{ type: 'text', text: args.text }] };
+    case 'fail':
+      return { content: [{ type: 'text', text: 'it failed' }], isError: true };
+    case 'crash':
+      process.exit(1);
+      break;
+    case 'hang_up':
+      // Stop reading so the client's next write fails, and exit a little later
+      setImmediate(() => {
+        process.stdin.destroy();
+        closeSync(0);
+      });
+      setTimeout(() => process.exit(0), 300);
+      return { content: [{ type: 'text', text: 'bye' }] };
+    case 'add_tool':
+      tools.push({ name: 'extra', description: 'Added later', inputSchema: { type: 'object' } });
+      send({ method: 'notifications/tools/list_changed' });
+      return { content: [{ type: 'text', text: 'added' }] };
+    case 'extra':
+      return { content: [], structuredContent: { extra: true } };
+  }
+  return undefined;
+}
+
+createInterface({ input: process.stdin }).on('line', (line) => {
+  const { id, method, params } = JSON.parse(line);
+  if (id === undefined) return;
+
+  if (method === 'initialize') {
+    send({
+      id,
+      result: {
+        protocolVersion: params.protocolVersion,
+        capabilities: { tools: { listChanged: true } },
+        serverInfo: { name: 'stand-in', version: '1.0.0' },
+      },
+    });
+  } else if (method === 'tools/list') {
+    // Two pages, to exercise pagination
+    const page = params.cursor ? tools.slice(2) : tools.slice(0, 2);
+    send({ id, result: { tools: page, ...(!params.cursor && { nextCursor: 'page-2' }) } });
+  } else if (method === 'tools/call') {
+    const result = callTool(params.name, params.arguments ?? {});
+    if (result) {
+      send({ id, result });
+    } else {
+      send({ id, error: { code: -32602, message: `Unknown tool: ${params.name}` } });
+    }
+  } else {
+    send({ id, error: { code: -32601, message: `Method not found: ${method}` } });
+  }
+});
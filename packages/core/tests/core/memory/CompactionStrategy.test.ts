@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { MockLanguageModelV2 } from 'ai/test';
+import { Memory } from '../../../src/core/memory/Memory.js';
+import {
+  SummarizationStrategy,
+  type CompactionRecord,
+} from '../../../src/core/memory/CompactionStrategy.js';
+import { ModelAdapter } from '../../../src/core/model/ModelAdapter.js';
+import { UsageLedger } from '../../../src/core/usage/UsageLedger.js';
+import type { Message } from '../../../src/agents/types.js';
+
+function message(content: string): Message {
+  return { role: 'user', content, timestamp: new Date() };
+}
+
+/**
+ * Model that answers with the given summaries in turn and records each prompt
+ */
+function createSummaryModel(summaries: Array<string | Error>) {
+  const prompts: string[] = [];
+  let call = 0;
+
+  const model = new ModelAdapter(
+    new MockLanguageModelV2({
+      doGenerate: async ({ prompt }) => {
+        const user = prompt.find((m) => m.role === 'user');
+        prompts.push(
+          user && Array.isArray(user.content)
+            ? user.content.map((part) => (part.type === 'text' ? part.text : '')).join('')
+            : ''
+        );
+
+        const next = summaries[call++];
+        if (next instanceof Error) throw next;
+        return {
+          content: [{ type: 'text', text: next }],
+          finishReason: 'stop',
+          usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+          warnings: [],
+        };
+      },
+    })
+  );
+
+  return { model, prompts };
+}
+
+describe('CompactionStrategy', () => {
+  it('should drop evicted messages by default', async () => {
+    const memory = new Memory({ maxMessages: 2 });
+    memory.addMessages('conv', [message('one'), message('two'), message('three')]);
+    await memory.waitForCompaction('conv');
+
+    expect(memory.getHistory('conv').map((m) => m.content)).toEqual(['two', 'three']);
+    expect(memory.getMetadata('conv', 'compactions')).toBeUndefined();
+  });
+
+  it('should fold evicted messages into a summary at the top of the history', async () => {
+    const { model, prompts } = createSummaryModel(['User counted to one.']);
+    const memory = new Memory({
+      maxMessages: 2,
+      compaction: new SummarizationStrategy({ model }),
+    });
+
+    memory.addMessages('conv', [message('one'), message('two'), message('three')]);
+    await memory.waitForCompaction('conv');
+
+    const history = memory.getHistory('conv');
+    expect(history[0].role).toBe('system');
+    expect(history[0].content).toContain('User counted to one.');
+    expect(history.slice(1).map((m) => m.content)).toEqual(['two', 'three']);
+    expect(memory.getRecentMessages('conv')[0]).toEqual(history[0]);
+    expect(prompts[0]).toContain('user: one');
+
+    const records = memory.getMetadata('conv', 'compactions') as CompactionRecord[];
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ strategy: 'summarize', messageCount: 1 });
+    expect(records[0].error).toBeUndefined();
+  });
+
+  it('should record summaries for the agent whose messages triggered them', async () => {
+    const { model } = createSummaryModel(['Summary A']);
+    const usage = new UsageLedger();
+    const memory = new Memory({
+      maxMessages: 1,
+      compaction: new SummarizationStrategy({ model, usage }),
+    });
+
+    memory.addMessages('conv', [message('first'), message('second')], {
+      agentId: 'main',
+      taskId: 'task-1',
+      rootTaskId: 'task-1',
+      conversationId: 'conv',
+    });
+    await memory.waitForCompaction('conv');
+
+    expect(usage.getRecords()).toEqual([
+      expect.objectContaining({
+        agentId: 'main',
+        rootTaskId: 'task-1',
+        conversationId: 'conv',
+        model: 'mock-provider/mock-model-id',
+        totalTokens: 15,
+      }),
+    ]);
+  });
+
+  it('should roll the previous summary into the next one', async () => {
+    const { model, prompts } = createSummaryModel(['Summary A', 'Summary B']);
+    const memory = new Memory({
+      maxMessages: 1,
+      compaction: new SummarizationStrategy({ model }),
+    });
+
+    memory.addMessage('conv', message('first'));
+    memory.addMessage('conv', message('second'));
+    memory.addMessage('conv', message('third'));
+    await memory.waitForCompaction('conv');
+
+    expect(prompts[1]).toContain('Summary A');
+    expect(prompts[1]).toContain('user: second');
+    expect(memory.getMetadata('conv', 'summary')).toBe('Summary B');
+    expect(memory.getMetadata('conv', 'compactions')).toHaveLength(2);
+  });
+
+  it('should record failures and keep the previous summary', async () => {
+    const { model } = createSummaryModel(['Summary A', new Error('model unavailable')]);
+    const memory = new Memory({
+      maxMessages: 1,
+      compaction: new SummarizationStrategy({ model }),
+    });
+
+    memory.addMessages('conv', [message('first'), message('second'), message('third')]);
+    memory.addMessage('conv', message('fourth'));
+    await memory.waitForCompaction('conv');
+
+    const records = memory.getMetadata('conv', 'compactions') as CompactionRecord[];
+    expect(records.map((r) => r.error)).toEqual([undefined, 'model unavailable']);
+    expect(memory.getMetadata('conv', 'summary')).toBe('Summary A');
+  });
+
+  it('should discard a pending compaction when history is cleared', async () => {
+    const { model } = createSummaryModel(['Stale summary']);
+    const memory = new Memory({
+      maxMessages: 1,
+      compaction: new SummarizationStrategy({ model }),
+    });
+
+    memory.addMessages('conv', [message('first'), message('second')]);
+    memory.clearHistory('conv');
+    await memory.waitForCompaction('conv');
+
+    expect(memory.getHistory('conv')).toEqual([]);
+    expect(memory.getMetadata('conv', 'summary')).toBeUndefined();
+  });
+});
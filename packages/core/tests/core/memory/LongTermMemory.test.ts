@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MockLanguageModelV2 } from 'ai/test';
+import type { LanguageModelV2Prompt } from '@ai-sdk/provider';
+import { LongTermMemory } from '../../../src/core/memory/LongTermMemory.js';
+import { HashingEmbedder, cosineSimilarity } from '../../../src/core/memory/Embedder.js';
+import { VectorIndex, VectorIndexError } from '../../../src/core/memory/VectorIndex.js';
+import { Memory } from '../../../src/core/memory/Memory.js';
+import { MainAgent } from '../../../src/agents/MainAgent.js';
+import { ModelAdapter } from '../../../src/core/model/ModelAdapter.js';
+import { ToolRegistry } from '../../../src/core/tools/ToolRegistry.js';
+import { EventBus } from '../../../src/utils/event-bus.js';
+import { TaskQueue } from '../../../src/utils/task-queue.js';
+
+describe('HashingEmbedder', () => {
+  it('should produce deterministic unit vectors', async () => {
+    const embedder = new HashingEmbedder({ dimensions: 64 });
+    const [a, b] = await embedder.embed(['The quick brown fox', 'The quick brown fox']);
+
+    expect(a).toHaveLength(64);
+    expect(a).toEqual(b);
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1);
+  });
+
+  it('should score overlapping texts above unrelated ones', async () => {
+    const embedder = new HashingEmbedder();
+    const [query, related, unrelated] = await embedder.embed([
+      'deploy the database migration',
+      'the database migration failed during deploy',
+      'cats enjoy sleeping in sunlight',
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+});
+
+describe('LongTermMemory', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'long-term-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should recall the most relevant facts first', async () => {
+    const memory = new LongTermMemory({ embedder: new HashingEmbedder() });
+    await memory.remember('The production database runs PostgreSQL 15');
+    await memory.remember('The team standup is at 10am every weekday');
+    await memory.remember('Cats enjoy sleeping in sunlight');
+
+    const results = await memory.recall('Which PostgreSQL version does the database run?', 2);
+
+    expect(results[0].text).toBe('The production database runs PostgreSQL 15');
+    expect(results[0].kind).toBe('fact');
+    expect(results.every((r) => r.text !== 'Cats enjoy sleeping in sunlight')).toBe(true);
+  });
+
+  it('should index user and assistant messages once', async () => {
+    const memory = new LongTermMemory({ embedder: new HashingEmbedder() });
+    const message = { role: 'user' as const, content: 'Use tabs', timestamp: new Date() };
+
+    const first = await memory.indexMessage('conv', message);
+    const second = await memory.indexMessage('conv', message);
+    const skipped = await memory.indexMessage('conv', { ...message, role: 'system' });
+
+    expect(first).toBe(second);
+    expect(skipped).toBeUndefined();
+    expect(memory.size).toBe(1);
+    expect((await memory.recall('tabs', 5, { conversationId: 'other' })).length).toBe(0);
+  });
+
+  it('should persist the index to disk', async () => {
+    const path = join(dir, 'index.jsonl');
+    const first = new LongTermMemory({ embedder: new HashingEmbedder(), path });
+    await first.remember('The deploy key lives in the vault');
+    const forgotten = await first.remember('Temporary note about the vault');
+    first.forget(forgotten);
+
+    const second = new LongTermMemory({ embedder: new HashingEmbedder(), path });
+    const results = await second.recall('where is the deploy key', 5);
+
+    expect(second.size).toBe(1);
+    expect(results[0].text).toBe('The deploy key lives in the vault');
+  });
+
+  it('should refuse an index built with different dimensions', () => {
+    const path = join(dir, 'index.jsonl');
+    new VectorIndex({ dimensions: 8, path });
+
+    expect(() => new VectorIndex({ dimensions: 16, path })).toThrow(VectorIndexError);
+  });
+
+  it('should inject recalled context into agent prompts', async () => {
+    const prompts: LanguageModelV2Prompt[] = [];
+    const model = new MockLanguageModelV2({
+      doGenerate: async ({ prompt }) => {
+        prompts.push(prompt);
+        return {
+          content: [{ type: 'text', text: 'PostgreSQL 15' }],
+          finishReason: 'stop',
+          usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+          warnings: [],
+        };
+      },
+    });
+
+    const longTermMemory = new LongTermMemory({ embedder: new HashingEmbedder() });
+    await longTermMemory.remember('The production database runs PostgreSQL 15');
+
+    const agent = new MainAgent(
+      {
+        model: new ModelAdapter(model),
+        tools: new ToolRegistry(),
+        memory: new Memory(),
+        longTermMemory,
+        eventBus: new EventBus(),
+        taskQueue: new TaskQueue(),
+      },
+      { id: 'main', name: 'Main', model: { provider: 'custom', name: 'mock' } }
+    );
+
+    await agent.execute('Which database version runs in production?');
+
+    const system = prompts[0].find(
+      (m) => m.role === 'system' && m.content.includes('long-term memory')
+    );
+    expect(system?.content).toContain('PostgreSQL 15');
+  });
+
+  it('should not let messages still in the history crowd out recalled records', async () => {
+    const prompts: LanguageModelV2Prompt[] = [];
+    const model = new MockLanguageModelV2({
+      doGenerate: async ({ prompt }) => {
+        prompts.push(prompt);
+        return {
+          content: [{ type: 'text', text: 'PostgreSQL 15' }],
+          finishReason: 'stop',
+          usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+          warnings: [],
+        };
+      },
+    });
+
+    const question = 'Which database version runs in production?';
+    const longTermMemory = new LongTermMemory({ embedder: new HashingEmbedder(), recallLimit: 1 });
+    await longTermMemory.remember('The production database runs PostgreSQL 15');
+    // The question itself is the closest match, but it is already in the history
+    await longTermMemory.indexMessage('conv-1', {
+      role: 'user',
+      content: question,
+      timestamp: new Date(),
+    });
+
+    const agent = new MainAgent(
+      {
+        model: new ModelAdapter(model),
+        tools: new ToolRegistry(),
+        memory: new Memory(),
+        longTermMemory,
+        eventBus: new EventBus(),
+        taskQueue: new TaskQueue(),
+      },
+      { id: 'main', name: 'Main', model: { provider: 'custom', name: 'mock' } }
+    );
+
+    await agent.execute(question, {
+      conversationId: 'conv-1',
+      history: [],
+      variables: new Map(),
+    });
+
+    const system = prompts[0].find(
+      (m) => m.role === 'system' && m.content.includes('long-term memory')
+    );
+    expect(system?.content).toContain('PostgreSQL 15');
+  });
+});
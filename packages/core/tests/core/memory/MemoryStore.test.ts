@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { createRequire } from 'module';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Memory } from '../../../src/core/memory/Memory.js';
+import type { MemoryStore } from '../../../src/core/memory/MemoryStore.js';
+import { FileMemoryStore } from '../../../src/core/memory/stores/FileMemoryStore.js';
+import { SQLiteMemoryStore } from '../../../src/core/memory/stores/SQLiteMemoryStore.js';
+import type { Message } from '../../../src/agents/types.js';
+
+function message(content: string, role: Message['role'] = 'user'): Message {
+  return { role, content, timestamp: new Date('2024-01-01T00:00:00Z') };
+}
+
+function hasNodeSqlite(): boolean {
+  try {
+    createRequire(import.meta.url)('node:sqlite');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const backends: Array<{ name: string; skip: boolean; create: (dir: string) => MemoryStore }> = [
+  {
+    name: 'FileMemoryStore',
+    skip: false,
+    create: (dir) => new FileMemoryStore({ directory: dir }),
+  },
+  {
+    name: 'SQLiteMemoryStore',
+    skip: !hasNodeSqlite(),
+    create: (dir) => new SQLiteMemoryStore({ filename: join(dir, 'memory.db') }),
+  },
+];
+
+for (const backend of backends) {
+  describe.skipIf(backend.skip)(backend.name, () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'memory-store-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should resume a conversation in a new Memory instance', () => {
+      const first = new Memory({ store: backend.create(dir) });
+      first.addMessage('conv-1', message('Hello'));
+      first.addMessage('conv-1', message('Hi there', 'assistant'));
+      first.setMetadata('conv-1', 'topic', 'greeting');
+
+      const second = new Memory({ store: backend.create(dir) });
+      const history = second.getHistory('conv-1');
+
+      expect(history.map((m) => [m.role, m.content])).toEqual([
+        ['user', 'Hello'],
+        ['assistant', 'Hi there'],
+      ]);
+      expect(history[0].timestamp).toBeInstanceOf(Date);
+      expect(second.getMetadata('conv-1', 'topic')).toBe('greeting');
+      expect(second.getConversationIds()).toEqual(['conv-1']);
+    });
+
+    it('should persist sliding window evictions', () => {
+      const first = new Memory({ maxMessages: 3, store: backend.create(dir) });
+      for (let i = 1; i <= 5; i++) {
+        first.addMessage('conv-1', message(`Message ${i}`));
+      }
+
+      const second = new Memory({ maxMessages: 3, store: backend.create(dir) });
+      expect(second.getHistory('conv-1').map((m) => m.content)).toEqual([
+        'Message 3',
+        'Message 4',
+        'Message 5',
+      ]);
+    });
+
+    it('should persist variables', () => {
+      const first = new Memory({ store: backend.create(dir) });
+      first.setVariable('user', { name: 'Ada' });
+      first.setVariable('temp', 1);
+      first.deleteVariable('temp');
+
+      const second = new Memory({ store: backend.create(dir) });
+      expect(second.getVariable('user')).toEqual({ name: 'Ada' });
+      expect(second.getVariable('temp')).toBeUndefined();
+    });
+
+    it('should persist cleared history, imports and deletions', () => {
+      const first = new Memory({ store: backend.create(dir) });
+      first.addMessage('cleared', message('Forget me'));
+      first.clearHistory('cleared');
+      first.importConversation(
+        'imported',
+        JSON.stringify({ messages: [message('Imported')], metadata: { source: 'export' } })
+      );
+      first.addMessage('deleted', message('Gone'));
+      first.deleteConversation('deleted');
+
+      const second = new Memory({ store: backend.create(dir) });
+      expect(second.getHistory('cleared')).toEqual([]);
+      expect(second.getHistory('imported').map((m) => m.content)).toEqual(['Imported']);
+      expect(second.getMetadata('imported', 'source')).toBe('export');
+      expect(second.getConversationIds().sort()).toEqual(['cleared', 'imported']);
+    });
+
+    it('should clear everything', () => {
+      const first = new Memory({ store: backend.create(dir) });
+      first.addMessage('conv-1', message('Hello'));
+      first.setVariable('key', 'value');
+      first.clear();
+
+      const second = new Memory({ store: backend.create(dir) });
+      expect(second.getConversationIds()).toEqual([]);
+      expect(second.getVariable('key')).toBeUndefined();
+    });
+  });
+}
+
+describe('FileMemoryStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'memory-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should compact files with many superseded records', () => {
+    const store = new FileMemoryStore({ directory: dir, compactThreshold: 2 });
+    for (let i = 1; i <= 4; i++) {
+      store.appendMessages('conv-1', [message(`Message ${i}`)]);
+      store.removeOldestMessages('conv-1', 1);
+    }
+    store.appendMessages('conv-1', [message('Last')]);
+
+    expect(store.loadConversation('conv-1')?.messages.map((m) => m.content)).toEqual(['Last']);
+    // The compacted file replays to the same state
+    expect(store.loadConversation('conv-1')?.messages.map((m) => m.content)).toEqual(['Last']);
+  });
+
+  it('should encode conversation IDs as safe file names', () => {
+    const store = new FileMemoryStore({ directory: dir });
+    store.appendMessages('../user/1', [message('Hello')]);
+
+    expect(store.listConversations()).toEqual(['../user/1']);
+    expect(store.loadConversation('../user/1')?.messages).toHaveLength(1);
+  });
+});
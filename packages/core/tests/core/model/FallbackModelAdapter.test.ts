@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { MockLanguageModelV2, simulateReadableStream } from 'ai/test';
+import { FallbackModelAdapter } from '../../../src/core/model/FallbackModelAdapter.js';
+import { ModelAdapter } from '../../../src/core/model/ModelAdapter.js';
+import { ModelFactory } from '../../../src/core/model/ModelFactory.js';
+import { TaskCancelledError } from '../../../src/utils/abort.js';
+import type { GenerateStep } from '../../../src/agents/types.js';
+
+function answering(text: string): MockLanguageModelV2 {
+  return new MockLanguageModelV2({
+    doGenerate: async () => ({
+      content: [{ type: 'text', text }],
+      finishReason: 'stop',
+      usage: { inputTokens: 5, outputTokens: 1, totalTokens: 6 },
+      warnings: [],
+    }),
+    doStream: async () => ({
+      stream: simulateReadableStream({
+        chunks: [
+          { type: 'text-start', id: 't1' },
+          { type: 'text-delta', id: 't1', delta: text },
+          { type: 'text-end', id: 't1' },
+          {
+            type: 'finish',
+            finishReason: 'stop',
+            usage: { inputTokens: 5, outputTokens: 1, totalTokens: 6 },
+          },
+        ],
+      }),
+    }),
+  });
+}
+
+function failing(error: Error): MockLanguageModelV2 {
+  return new MockLanguageModelV2({
+    doGenerate: async () => {
+      throw error;
+    },
+    doStream: async () => {
+      throw error;
+    },
+  });
+}
+
+const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+describe('FallbackModelAdapter', () => {
+  it('should answer with the first model that succeeds', async () => {
+    const adapter = new FallbackModelAdapter([
+      { name: 'primary', adapter: new ModelAdapter(failing(new Error('Overloaded'))) },
+      { name: 'backup', adapter: new ModelAdapter(answering('From backup')) },
+    ]);
+
+    const result = await adapter.generate({ messages });
+
+    expect(result).toMatchObject({ text: 'From backup', model: 'backup', fallbackIndex: 1 });
+  });
+
+  it('should fail over when a stream fails before producing output', async () => {
+    const adapter = new FallbackModelAdapter([
+      { name: 'primary', adapter: new ModelAdapter(failing(new Error('Overloaded'))) },
+      { name: 'backup', adapter: new ModelAdapter(answering('Streamed')) },
+    ]);
+
+    const chunks = [];
+    for await (const chunk of adapter.stream({ messages })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.find((c) => c.type === 'text-delta')?.textDelta).toBe('Streamed');
+    expect(chunks.at(-1)).toMatchObject({ type: 'finish', model: 'backup', fallbackIndex: 1 });
+  });
+
+  it('should name the model that served each step', async () => {
+    const adapter = new FallbackModelAdapter([
+      { name: 'primary', adapter: new ModelAdapter(failing(new Error('Overloaded'))) },
+      { name: 'backup', adapter: new ModelAdapter(answering('From backup')) },
+    ]);
+    const steps: Array<string | undefined> = [];
+    const onStepFinish = (step: GenerateStep) => steps.push(step.model);
+
+    await adapter.generateWithTools({ messages, onStepFinish });
+    for await (const _chunk of adapter.stream({ messages, onStepFinish })) {
+      // Drain the stream
+    }
+
+    expect(steps).toEqual(['backup', 'backup']);
+  });
+
+  it('should throw the last error when every model fails', async () => {
+    const adapter = new FallbackModelAdapter([
+      { name: 'primary', adapter: new ModelAdapter(failing(new Error('First'))) },
+      { name: 'backup', adapter: new ModelAdapter(failing(new Error('Second'))) },
+    ]);
+
+    await expect(adapter.generate({ messages })).rejects.toThrow('Second');
+  });
+
+  it('should not fail over cancelled calls', async () => {
+    const backup = answering('Too late');
+    const adapter = new FallbackModelAdapter([
+      { name: 'primary', adapter: new ModelAdapter(failing(new TaskCancelledError())) },
+      { name: 'backup', adapter: new ModelAdapter(backup) },
+    ]);
+
+    await expect(adapter.generate({ messages })).rejects.toThrow('Task cancelled');
+    expect(backup.doGenerateCalls).toHaveLength(0);
+  });
+
+  it('should be built by ModelFactory from fallback configs', () => {
+    ModelFactory.registerProvider('custom', {
+      provider: () => (name) => answering(name),
+    });
+
+    const adapter = ModelFactory.create({
+      provider: 'custom',
+      name: 'large',
+      fallbacks: [{ provider: 'custom', name: 'small' }],
+    });
+
+    expect(adapter).toBeInstanceOf(FallbackModelAdapter);
+    expect((adapter as FallbackModelAdapter).getModels().map((m) => m.name)).toEqual([
+      'custom:large',
+      'custom:small',
+    ]);
+  });
+});
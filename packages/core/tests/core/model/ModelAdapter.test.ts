@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { MockLanguageModelV2 } from 'ai/test';
+import { z } from 'zod';
+import { ModelAdapter } from '../../../src/core/model/ModelAdapter.js';
+
+function answering(text: string): MockLanguageModelV2 {
+  return new MockLanguageModelV2({
+    doGenerate: async () => ({
+      content: [{ type: 'text', text }],
+      finishReason: 'stop',
+      usage: { inputTokens: 5, outputTokens: 3, totalTokens: 8 },
+      warnings: [],
+    }),
+  });
+}
+
+const schema = z.object({ city: z.string(), population: z.number() });
+const messages = [{ role: 'user' as const, content: 'Largest city in Japan?' }];
+
+describe('ModelAdapter', () => {
+  describe('generateObject', () => {
+    it('should return the validated object', async () => {
+      const adapter = new ModelAdapter(answering('{"city":"Tokyo","population":14000000}'));
+
+      const result = await adapter.generateObject({ messages, schema });
+
+      expect(result.object).toEqual({ city: 'Tokyo', population: 14000000 });
+      expect(result.usage?.totalTokens).toBe(8);
+    });
+
+    it('should repair JSON wrapped in prose and code fences', async () => {
+      const adapter = new ModelAdapter(
+        answering('Here you go:\n```json\n{"city":"Tokyo","population":14000000}\n```')
+      );
+
+      const result = await adapter.generateObject({ messages, schema });
+
+      expect(result.object.city).toBe('Tokyo');
+    });
+
+    it('should reject output that does not match the schema', async () => {
+      const adapter = new ModelAdapter(answering('{"city":"Tokyo"}'));
+
+      await expect(adapter.generateObject({ messages, schema })).rejects.toThrow(
+        'No object generated'
+      );
+    });
+  });
+});
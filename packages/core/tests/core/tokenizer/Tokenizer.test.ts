@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  BpeTokenizer,
+  CharacterTokenizer,
+  getTokenizerForModel,
+} from '../../../src/core/tokenizer/Tokenizer.js';
+import { Memory } from '../../../src/core/memory/Memory.js';
+import type { Message } from '../../../src/agents/types.js';
+
+function message(content: string): Message {
+  return { role: 'user', content, timestamp: new Date() };
+}
+
+describe('Tokenizer', () => {
+  describe('BpeTokenizer', () => {
+    it('should count tokens with cl100k_base', () => {
+      const tokenizer = new BpeTokenizer('cl100k_base');
+      expect(tokenizer.count('hello world')).toBe(2);
+      expect(tokenizer.count('')).toBe(0);
+    });
+
+    it('should count CJK text and code far above the character estimate', () => {
+      const bpe = new BpeTokenizer();
+      const estimate = new CharacterTokenizer();
+      const cjk = '你好世界，今天天气很好';
+      const code = 'const x = {"a":[1,2,3]};';
+
+      expect(bpe.count(cjk)).toBeGreaterThan(estimate.count(cjk));
+      expect(bpe.count(code)).toBeGreaterThan(estimate.count(code));
+    });
+
+    it('should treat special token markers as plain text', () => {
+      expect(new BpeTokenizer().count('<|endoftext|>')).toBeGreaterThan(1);
+    });
+  });
+
+  describe('getTokenizerForModel', () => {
+    it('should pick an encoding from the model', () => {
+      expect(getTokenizerForModel({ provider: 'openai', name: 'gpt-4o-mini' }).name).toBe(
+        'o200k_base'
+      );
+      expect(getTokenizerForModel({ provider: 'openai', name: 'gpt-4-turbo' }).name).toBe(
+        'cl100k_base'
+      );
+      expect(getTokenizerForModel({ provider: 'anthropic', name: 'claude-sonnet' }).name).toBe(
+        'cl100k_base'
+      );
+    });
+
+    it('should honour an explicit tokenizer', () => {
+      const tokenizer = getTokenizerForModel({
+        provider: 'openai',
+        name: 'gpt-4o',
+        tokenizer: 'character',
+      });
+      expect(tokenizer.name).toBe('character');
+    });
+  });
+
+  describe('Memory accounting', () => {
+    it('should use the model tokenizer for the sliding window', () => {
+      const memory = new Memory({ model: { provider: 'openai', name: 'gpt-4o' }, maxTokens: 20 });
+      for (let i = 0; i < 5; i++) {
+        memory.addMessage('conv', message('one two three'));
+      }
+
+      // 3 content tokens + 4 overhead per message
+      expect(memory.getHistory('conv')).toHaveLength(2);
+      expect(memory.getConversationTokens('conv')).toBe(14);
+      expect(memory.getStats().tokenizer).toBe('o200k_base');
+    });
+
+    it('should count the system prompt and tool schemas against the limit', () => {
+      const memory = new Memory({ tokenizer: new BpeTokenizer(), maxTokens: 10000 });
+      for (let i = 0; i < 10; i++) {
+        memory.addMessage('conv', message(`message number ${i}`));
+      }
+
+      const tools = {
+        search: {
+          description: 'Search the web for a query',
+          inputSchema: z.object({ query: z.string().describe('The search query') }),
+        },
+      };
+      const overhead = { systemPrompt: 'You are a helpful assistant.', tools };
+      const contextTokens = memory.countContextTokens(overhead);
+      const limit = contextTokens + 3 * memory.countMessageTokens(message('message number 0'));
+
+      expect(contextTokens).toBeGreaterThan(20);
+      expect(memory.getRecentMessages('conv', limit)).toHaveLength(10);
+      expect(memory.getRecentMessages('conv', limit, overhead)).toHaveLength(3);
+    });
+  });
+});
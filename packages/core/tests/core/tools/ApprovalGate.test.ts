@@ -0,0 +1,179 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MockLanguageModelV2 } from 'ai/test';
+import { z } from 'zod';
+import {
+  ApprovalGate,
+  AutoApproveHandler,
+  RuleApprovalHandler,
+  type ApprovalHandler,
+} from '../../../src/core/tools/ApprovalGate.js';
+import { createTool } from '../../../src/core/tools/BaseTool.js';
+import { ToolRegistry } from '../../../src/core/tools/ToolRegistry.js';
+import { FileSystemTool } from '../../../src/core/tools/builtin/FileSystemTool.js';
+import { MainAgent } from '../../../src/agents/MainAgent.js';
+import { ModelAdapter } from '../../../src/core/model/ModelAdapter.js';
+import { Memory } from '../../../src/core/memory/Memory.js';
+import { EventBus } from '../../../src/utils/event-bus.js';
+import { TaskQueue } from '../../../src/utils/task-queue.js';
+import type { ApprovalRequest } from '../../../src/agents/types.js';
+
+const request: ApprovalRequest = {
+  toolName: 'file_system',
+  toolCallId: 'call-1',
+  args: { operation: 'delete', path: 'notes.txt' },
+  agentId: 'main',
+};
+
+/**
+ * Agent whose model asks to delete a file once, then answers
+ *
+ * Without a handler the agent gets no approval gate.
+ */
+function createAgent(handler?: ApprovalHandler) {
+  let calls = 0;
+  const model = new MockLanguageModelV2({
+    doGenerate: async () => {
+      const usage = { inputTokens: 10, outputTokens: 5, totalTokens: 15 };
+      if (calls++ === 0) {
+        return {
+          content: [
+            {
+              type: 'tool-call',
+              toolCallId: 'call-1',
+              toolName: 'remove',
+              input: JSON.stringify({ path: 'notes.txt' }),
+            },
+          ],
+          finishReason: 'tool-calls',
+          usage,
+          warnings: [],
+        };
+      }
+      return {
+        content: [{ type: 'text', text: 'Done' }],
+        finishReason: 'stop',
+        usage,
+        warnings: [],
+      };
+    },
+  });
+
+  const execute = vi.fn(async (input: { path: string }) => `removed ${input.path}`);
+  const tools = new ToolRegistry();
+  tools.register(
+    createTool({
+      name: 'remove',
+      description: 'Remove a file',
+      inputSchema: z.object({ path: z.string() }),
+      execute,
+    }),
+    { requiresApproval: true }
+  );
+
+  const eventBus = new EventBus();
+  const agent = new MainAgent(
+    {
+      model: new ModelAdapter(model),
+      tools,
+      memory: new Memory(),
+      ...(handler && { approvals: new ApprovalGate({ handler, eventBus }) }),
+      eventBus,
+      taskQueue: new TaskQueue(),
+    },
+    { id: 'main', name: 'Main', model: { provider: 'custom', name: 'mock' } }
+  );
+  return { agent, execute, eventBus };
+}
+
+describe('RuleApprovalHandler', () => {
+  it('should apply the first matching rule', async () => {
+    const handler = new RuleApprovalHandler([
+      { toolName: 'file_system', when: (args) => args.operation === 'read', action: 'approve' },
+      { toolName: 'file_system', action: 'reject', reason: 'Read-only session' },
+    ]);
+
+    expect(await handler.decide(request)).toEqual({
+      action: 'reject',
+      reason: 'Read-only session',
+    });
+    expect(await handler.decide({ ...request, args: { operation: 'read' } })).toEqual({
+      action: 'approve',
+    });
+  });
+
+  it('should defer unmatched requests to the fallback', async () => {
+    const handler = new RuleApprovalHandler([{ toolName: 'calculator', action: 'approve' }], {
+      fallback: new AutoApproveHandler(),
+    });
+
+    expect(await handler.decide(request)).toEqual({ action: 'approve' });
+    expect((await new RuleApprovalHandler([]).decide(request)).action).toBe('reject');
+  });
+});
+
+describe('ApprovalGate', () => {
+  it('should publish requests and decisions', async () => {
+    const eventBus = new EventBus();
+    const events: string[] = [];
+    eventBus.on('tool:approval:request', () => events.push('request'));
+    eventBus.on('tool:approval:decision', (data) => events.push(data.decision.action));
+
+    const gate = new ApprovalGate({ eventBus });
+    const decision = await gate.review(request);
+
+    expect(decision.action).toBe('reject');
+    expect(events).toEqual(['request', 'reject']);
+  });
+
+  it('should mark destructive file system operations', () => {
+    const tools = new ToolRegistry();
+    tools.register(new FileSystemTool());
+
+    expect(tools.requiresApproval('file_system', { operation: 'delete', path: 'a' })).toBe(true);
+    expect(tools.requiresApproval('file_system', { operation: 'read', path: 'a' })).toBe(false);
+  });
+
+  it('should keep rejected calls from running and record the decision', async () => {
+    const { agent, execute } = createAgent(
+      new RuleApprovalHandler([{ action: 'reject', reason: 'Not today' }])
+    );
+
+    const result = await agent.execute('Delete notes.txt');
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(result.toolCalls?.[0]).toMatchObject({
+      approval: { action: 'reject', reason: 'Not today' },
+      error: 'Tool call rejected: Not today',
+    });
+  });
+
+  it('should run approved calls with edited arguments', async () => {
+    const { agent, execute } = createAgent({
+      decide: () => ({ action: 'edit', args: { path: 'notes.bak' } }),
+    });
+
+    const result = await agent.execute('Delete notes.txt');
+
+    expect(execute).toHaveBeenCalledWith(
+      { path: 'notes.bak' },
+      expect.objectContaining({ agentId: 'main' })
+    );
+    expect(result.toolCalls?.[0]).toMatchObject({
+      args: { path: 'notes.txt' },
+      result: 'removed notes.bak',
+      approval: { action: 'edit', args: { path: 'notes.bak' } },
+    });
+  });
+
+  it('should reject calls needing confirmation when the agent has no gate', async () => {
+    const { agent, execute } = createAgent();
+
+    const result = await agent.execute('Delete notes.txt');
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(result.toolCalls?.[0]).toMatchObject({
+      approval: { action: 'reject', reason: 'No approval handler configured' },
+      error: 'Tool call rejected: No approval handler configured',
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { ToolRegistry } from '../../../src/core/tools/ToolRegistry.js';
+import { FileSystemTool } from '../../../src/core/tools/builtin/FileSystemTool.js';
+
+describe('ToolRegistry', () => {
+  it('should describe each tool with its parameters', () => {
+    const registry = new ToolRegistry();
+    const tool = new FileSystemTool();
+    registry.register(tool);
+
+    expect(registry.getDescriptions()).toBe(
+      [
+        `- file_system: ${tool.description}`,
+        '  - operation ("read" | "write" | "list" | "exists" | "delete" | "mkdir", required): File system operation to perform',
+        '  - path (string, required): File or directory path',
+        '  - content (string, optional): Content to write (for write operation)',
+        '  - encoding ("utf8" | "utf-8" | "base64" | "hex", optional, default: "utf8"): File encoding',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Budget, BudgetExceededError } from '../../../src/core/usage/Budget.js';
+
+describe('Budget', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should report the first limit passed', () => {
+    const budget = new Budget({ limits: { maxTokens: 100, maxModelCalls: 2 } });
+
+    budget.charge({ modelCalls: 1, tokens: 60 });
+    expect(budget.exceeded()).toBeUndefined();
+    expect(budget.exceeded({ modelCalls: 1 })).toBeUndefined();
+
+    budget.charge({ modelCalls: 1, tokens: 60 });
+    const error = budget.exceeded();
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error).toMatchObject({ budget: 'task', limit: 'tokens' });
+    expect(() => budget.check()).toThrow('The task budget of 100 tokens was exceeded');
+  });
+
+  it('should count calls about to be made', () => {
+    const budget = new Budget({ limits: { maxModelCalls: 1 } });
+    budget.charge({ modelCalls: 1 });
+
+    expect(budget.exceeded()).toBeUndefined();
+    expect(budget.exceeded({ modelCalls: 1 })?.limit).toBe('modelCalls');
+  });
+
+  it('should charge and check its parent', () => {
+    const conversation = new Budget({ name: 'conversation', limits: { maxCost: 0.01 } });
+    const task = new Budget({ limits: {}, parent: conversation });
+
+    task.charge({ cost: 0.02, toolCalls: 1 });
+
+    expect(conversation.getSpend()).toMatchObject({ cost: 0.02, toolCalls: 1 });
+    expect(task.exceeded()).toMatchObject({ budget: 'conversation', limit: 'cost' });
+  });
+
+  it('should abort at the earliest deadline', () => {
+    vi.useFakeTimers();
+    const conversation = new Budget({ name: 'conversation', limits: { maxDurationMs: 1000 } });
+    const task = new Budget({ limits: { maxDurationMs: 5000 }, parent: conversation });
+    const controller = new AbortController();
+
+    task.abortAtDeadline(controller);
+    vi.advanceTimersByTime(999);
+    expect(controller.signal.aborted).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(controller.signal.reason).toMatchObject({ budget: 'conversation', limit: 'duration' });
+  });
+});
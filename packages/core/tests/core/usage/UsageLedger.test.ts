@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { UsageLedger, toModelId } from '../../../src/core/usage/UsageLedger.js';
+
+const usage = { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 };
+
+describe('UsageLedger', () => {
+  it('should price calls from the price table', () => {
+    const ledger = new UsageLedger({ prices: { 'openai/gpt-4o': { input: 2.5, output: 10 } } });
+
+    const record = ledger.record({ agentId: 'main', model: 'openai:gpt-4o', usage });
+
+    expect(record).toMatchObject({ model: 'openai/gpt-4o', totalTokens: 1500 });
+    expect(record?.cost).toBeCloseTo(0.0075);
+  });
+
+  it('should count calls to unpriced models without a cost', () => {
+    const ledger = new UsageLedger();
+
+    ledger.record({ agentId: 'main', model: 'custom/mock', usage });
+    ledger.record({ agentId: 'main', model: 'custom/mock', usage: undefined });
+
+    expect(ledger.getTotals()).toMatchObject({ calls: 1, cost: 0, unpricedCalls: 1 });
+  });
+
+  it('should total usage by task tree and by model', () => {
+    const ledger = new UsageLedger({ prices: { 'openai/gpt-4o': { input: 2.5, output: 10 } } });
+    ledger.record({
+      agentId: 'main',
+      taskId: 't1',
+      rootTaskId: 't1',
+      model: 'openai/gpt-4o',
+      usage,
+    });
+    ledger.record({
+      agentId: 'sub',
+      taskId: 't2',
+      rootTaskId: 't1',
+      model: 'openai/gpt-4o',
+      usage,
+    });
+    ledger.record({ agentId: 'main', taskId: 't3', rootTaskId: 't3', model: 'custom/mock', usage });
+
+    expect(ledger.getTotals({ rootTaskId: 't1' })).toMatchObject({ calls: 2, totalTokens: 3000 });
+    expect(ledger.getRecords({ agentId: 'sub' })).toHaveLength(1);
+    expect(ledger.getTotalsByModel()['custom/mock'].calls).toBe(1);
+    expect(ledger.getTotals().cost).toBeCloseTo(0.015);
+  });
+
+  it('should keep running totals when old records are dropped', () => {
+    const ledger = new UsageLedger({ maxRecords: 1 });
+    ledger.record({ agentId: 'main', model: 'custom/mock', usage });
+    ledger.record({ agentId: 'main', model: 'custom/mock', usage });
+
+    expect(ledger.getRecords()).toHaveLength(1);
+    expect(ledger.getTotals().calls).toBe(2);
+  });
+});
+
+describe('toModelId', () => {
+  it('should accept both provider separators', () => {
+    expect(toModelId('anthropic:claude-sonnet-4')).toBe('anthropic/claude-sonnet-4');
+    expect(toModelId('openai/gpt-4o')).toBe('openai/gpt-4o');
+  });
+});
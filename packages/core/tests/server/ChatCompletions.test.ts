@@ -0,0 +1,256 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { MockLanguageModelV2 } from 'ai/test';
+import type { HttpApiServer, HttpApiServerOptions } from '../../src/server/HttpApiServer.js';
+import { ChatCompletionsAdapter } from '../../src/server/ChatCompletions.js';
+import { createAgent, createApi } from './helpers.js';
+
+describe('Chat completions', () => {
+  let api: HttpApiServer;
+  let baseUrl: string;
+
+  async function start(options?: Partial<HttpApiServerOptions>) {
+    const created = createApi({ chatCompletions: { model: 'plan-agent' }, ...options });
+    api = created.api;
+    const { port } = await api.listen(0);
+    baseUrl = `http://127.0.0.1:${port}`;
+    return created;
+  }
+
+  function complete(body: unknown) {
+    return fetch(`${baseUrl}/v1/chat/completions`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  afterEach(async () => {
+    await api?.close();
+  });
+
+  it('should answer with a completion, using the earlier messages as history', async () => {
+    const { model, memory } = await start();
+
+    const response = await complete({
+      model: 'gpt-4o',
+      temperature: 0.2,
+      messages: [
+        { role: 'system', content: 'Be brief' },
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hello' },
+        { role: 'user', content: [{ type: 'text', text: 'How are you?' }] },
+      ],
+    });
+    const completion = await response.json();
+    const prompt = model.doGenerateCalls[0].prompt;
+
+    expect(response.status).toBe(200);
+    expect(completion).toMatchObject({
+      object: 'chat.completion',
+      model: 'gpt-4o',
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content: 'Hello there', refusal: null },
+          finish_reason: 'stop',
+        },
+      ],
+      usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+    });
+    expect(completion.id).toMatch(/^chatcmpl-/);
+    expect(prompt.map((message) => message.role)).toEqual(['system', 'user', 'assistant', 'user']);
+    expect(prompt[0]).toMatchObject({ content: 'Be brief' });
+    expect(prompt[3]).toMatchObject({ content: [{ type: 'text', text: 'How are you?' }] });
+    expect(memory.getConversationIds()).toEqual([]);
+  });
+
+  it('should stream chunks, then usage, then [DONE]', async () => {
+    await start();
+
+    const response = await complete({
+      model: 'gpt-4o',
+      stream: true,
+      stream_options: { include_usage: true },
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+    const events = (await response.text())
+      .trim()
+      .split('\n\n')
+      .map((block) => block.slice('data: '.length));
+    const chunks = events.slice(0, -1).map((data) => JSON.parse(data));
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect(events[events.length - 1]).toBe('[DONE]');
+    expect(chunks.every((chunk) => chunk.object === 'chat.completion.chunk')).toBe(true);
+    expect(chunks.map((chunk) => chunk.choices[0]?.delta)).toEqual([
+      { role: 'assistant', content: '' },
+      { content: 'Hello ' },
+      { content: 'there' },
+      {},
+      undefined,
+    ]);
+    expect(chunks[3].choices[0].finish_reason).toBe('stop');
+    expect(chunks[4]).toMatchObject({
+      choices: [],
+      usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+    });
+  });
+
+  it('should reject requests that do not end with a user message', async () => {
+    await start();
+
+    const assistantLast = await complete({
+      model: 'gpt-4o',
+      messages: [{ role: 'assistant', content: 'Hi' }],
+    });
+    const streamed = await complete({
+      model: 'gpt-4o',
+      stream: true,
+      messages: [{ role: 'system', content: 'Be brief' }],
+    });
+    const severalChoices = await complete({
+      model: 'gpt-4o',
+      n: 2,
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+
+    expect(assistantLast.status).toBe(400);
+    expect(await assistantLast.json()).toMatchObject({
+      error: { code: 'invalid_request', message: 'The last message must be a user message' },
+    });
+    expect(streamed.status).toBe(400);
+    expect(severalChoices.status).toBe(400);
+  });
+
+  it('should list the agent as a model', async () => {
+    await start();
+
+    const models = await (await fetch(`${baseUrl}/v1/models`)).json();
+
+    expect(models).toEqual({
+      object: 'list',
+      data: [{ id: 'plan-agent', object: 'model', created: 0, owned_by: 'plan-agent' }],
+    });
+  });
+
+  it('should only serve the endpoints when enabled', async () => {
+    await start({ chatCompletions: undefined });
+
+    const response = await complete({ model: 'gpt-4o', messages: [] });
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('ChatCompletionsAdapter', () => {
+  it('should load tool calls and their results into the history', async () => {
+    const { agent, memory, model } = createAgent();
+    const addMessages = vi.spyOn(memory, 'addMessages');
+    const adapter = new ChatCompletionsAdapter({ agent, memory });
+
+    await adapter.complete({
+      model: 'gpt-4o',
+      messages: [
+        { role: 'user', content: 'Which theme is set?' },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            {
+              id: 'call-1',
+              type: 'function',
+              function: { name: 'lookup', arguments: '{"key":"theme"}' },
+            },
+            { id: 'call-2', type: 'function', function: { name: 'lookup', arguments: 'theme' } },
+          ],
+        },
+        { role: 'tool', tool_call_id: 'call-1', content: 'dark' },
+        { role: 'tool', tool_call_id: 'call-3', content: 'light' },
+        { role: 'user', content: 'And the font?' },
+      ],
+    });
+    const prompt = model.doGenerateCalls[0].prompt;
+
+    expect(addMessages.mock.calls[0][1]).toEqual([
+      expect.objectContaining({ role: 'user', content: 'Which theme is set?' }),
+      expect.objectContaining({
+        role: 'assistant',
+        content: '',
+        toolCalls: [
+          { toolCallId: 'call-1', toolName: 'lookup', args: { key: 'theme' } },
+          // Arguments that are not a JSON object are dropped
+          { toolCallId: 'call-2', toolName: 'lookup', args: {} },
+        ],
+      }),
+      expect.objectContaining({
+        role: 'tool',
+        content: 'dark',
+        toolCallId: 'call-1',
+        toolName: 'lookup',
+      }),
+      // Results for calls the history does not contain have no tool name
+      expect.objectContaining({ role: 'tool', toolCallId: 'call-3', toolName: undefined }),
+    ]);
+    // Only the answered call reaches the model, paired with its result
+    expect(prompt.slice(1, 3)).toEqual([
+      {
+        role: 'assistant',
+        content: [
+          { type: 'tool-call', toolCallId: 'call-1', toolName: 'lookup', input: { key: 'theme' } },
+        ],
+      },
+      {
+        role: 'tool',
+        content: [
+          {
+            type: 'tool-result',
+            toolCallId: 'call-1',
+            toolName: 'lookup',
+            output: { type: 'text', value: 'dark' },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should drop the conversations its plan steps ran in', async () => {
+    const plan = { steps: [{ id: 'step-1', description: 'Greet', subAgentId: 'greeter' }] };
+    const model = new MockLanguageModelV2({
+      doGenerate: async ({ prompt }) => ({
+        content: [
+          {
+            type: 'text',
+            text:
+              prompt[0].role === 'system' && prompt[0].content.includes('planning assistant')
+                ? JSON.stringify(plan)
+                : 'Hello there',
+          },
+        ],
+        finishReason: 'stop',
+        usage: { inputTokens: 5, outputTokens: 2, totalTokens: 7 },
+        warnings: [],
+      }),
+    });
+    const { agent, memory } = createAgent(model, { mode: 'plan' });
+    agent.createSubAgent({
+      id: 'greeter',
+      name: 'Greeter',
+      model: { provider: 'custom', name: 'mock' },
+      specialization: 'greetings',
+      capabilities: ['greeting'],
+    });
+    const addMessage = vi.spyOn(memory, 'addMessage');
+    const adapter = new ChatCompletionsAdapter({ agent, memory });
+
+    const completion = await adapter.complete({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+
+    expect(completion.choices[0].message.content).toBe('Hello there');
+    expect(addMessage.mock.calls.map(([conversationId]) => conversationId)).toContain(
+      `${completion.id}:step-1`
+    );
+    expect(memory.getConversationIds()).toEqual([]);
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { MockLanguageModelV2 } from 'ai/test';
+import type { HttpApiServer, HttpApiServerOptions } from '../../src/server/HttpApiServer.js';
+import { createApi } from './helpers.js';
+
+describe('HttpApiServer', () => {
+  let api: HttpApiServer;
+  let baseUrl: string;
+
+  async function start(options?: Partial<HttpApiServerOptions>, model?: MockLanguageModelV2) {
+    ({ api } = createApi(options, model));
+    const { port } = await api.listen(0);
+    baseUrl = `http://127.0.0.1:${port}`;
+  }
+
+  function request(path: string, init: RequestInit & { json?: unknown } = {}) {
+    const { json, ...rest } = init;
+    return fetch(`${baseUrl}${path}`, {
+      ...rest,
+      method: rest.method ?? (json === undefined ? 'GET' : 'POST'),
+      body: json === undefined ? rest.body : JSON.stringify(json),
+    });
+  }
+
+  afterEach(async () => {
+    await api?.close();
+  });
+
+  it('should create, list, read and delete conversations', async () => {
+    await start();
+
+    const created = await request('/conversations', { json: { id: 'c1', metadata: { a: 1 } } });
+    const duplicate = await request('/conversations', { json: { id: 'c1' } });
+    const list = await (await request('/conversations')).json();
+    const detail = await (await request('/conversations/c1')).json();
+    const deleted = await request('/conversations/c1', { method: 'DELETE' });
+    const missing = await request('/conversations/c1');
+
+    expect(created.status).toBe(201);
+    expect(await created.json()).toMatchObject({ id: 'c1', messageCount: 0, metadata: { a: 1 } });
+    expect(duplicate.status).toBe(409);
+    expect(list.conversations.map((c: { id: string }) => c.id)).toEqual(['c1']);
+    expect(detail).toMatchObject({ id: 'c1', messages: [] });
+    expect(deleted.status).toBe(204);
+    expect(missing.status).toBe(404);
+  });
+
+  it('should reject invalid bodies with the validation issues', async () => {
+    await start();
+
+    const invalid = await request('/conversations', { json: { id: 'c1', extra: true } });
+    const notJson = await request('/conversations', { method: 'POST', body: '{' });
+
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toMatchObject({
+      error: {
+        code: 'invalid_request',
+        details: [expect.objectContaining({ code: 'unrecognized_keys' })],
+      },
+    });
+    expect(notJson.status).toBe(400);
+    expect(await notJson.json()).toMatchObject({ error: { code: 'invalid_json' } });
+  });
+
+  it('should answer a message and keep it in the conversation', async () => {
+    await start();
+    await request('/conversations', { json: { id: 'c1' } });
+
+    const response = await request('/conversations/c1/messages', {
+      json: { content: 'Hi', taskId: 'task-1' },
+    });
+    const detail = await (await request('/conversations/c1')).json();
+
+    expect(await response.json()).toMatchObject({
+      taskId: 'task-1',
+      conversationId: 'c1',
+      success: true,
+      content: 'Hello there',
+      usage: { calls: 1, totalTokens: 7 },
+    });
+    expect(detail.messages.map((m: { role: string }) => m.role)).toEqual(['user', 'assistant']);
+  });
+
+  it('should cancel a message when the client disconnects', async () => {
+    const cancelled: unknown[] = [];
+    let started!: () => void;
+    const called = new Promise<void>((resolve) => (started = resolve));
+    await start(
+      {},
+      new MockLanguageModelV2({
+        doGenerate: ({ abortSignal }) =>
+          new Promise((_resolve, reject) => {
+            started();
+            abortSignal?.addEventListener('abort', () => {
+              cancelled.push(abortSignal.reason);
+              reject(abortSignal.reason);
+            });
+          }),
+      })
+    );
+    await request('/conversations', { json: { id: 'c1' } });
+
+    const client = new AbortController();
+    const response = request('/conversations/c1/messages', {
+      json: { content: 'Hi', taskId: 'task-1' },
+      signal: client.signal,
+    });
+    await called;
+    client.abort();
+
+    await expect(response).rejects.toThrow();
+    await vi.waitFor(() =>
+      expect(cancelled).toEqual([expect.objectContaining({ message: 'Client disconnected' })])
+    );
+  });
+
+  it('should reject a task ID that is already running', async () => {
+    let release!: () => void;
+    let started!: () => void;
+    const called = new Promise<void>((resolve) => (started = resolve));
+    await start(
+      {},
+      new MockLanguageModelV2({
+        doGenerate: async () => {
+          started();
+          await new Promise<void>((resolve) => (release = resolve));
+          return {
+            content: [{ type: 'text', text: 'Done' }],
+            finishReason: 'stop',
+            usage: { inputTokens: 5, outputTokens: 1, totalTokens: 6 },
+            warnings: [],
+          };
+        },
+      })
+    );
+    await request('/conversations', { json: { id: 'c1' } });
+
+    const first = request('/conversations/c1/messages', {
+      json: { content: 'Hi', taskId: 'task-1' },
+    });
+    await called;
+    const second = await request('/conversations/c1/messages', {
+      json: { content: 'Hi again', taskId: 'task-1' },
+    });
+    release();
+
+    expect(second.status).toBe(409);
+    expect(await second.json()).toMatchObject({
+      error: { code: 'conflict', message: 'Task task-1 is already running' },
+    });
+    expect((await first).status).toBe(200);
+  });
+
+  it('should stream a message as server-sent events', async () => {
+    await start();
+    await request('/conversations', { json: { id: 'c1' } });
+
+    const response = await request('/conversations/c1/messages', {
+      json: { content: 'Hi', stream: true, taskId: 'task-1' },
+    });
+    const events = (await response.text())
+      .trim()
+      .split('\n\n')
+      .map((block) => {
+        const [event, data] = block.split('\n');
+        return {
+          event: event.slice('event: '.length),
+          data: JSON.parse(data.slice('data: '.length)),
+        };
+      });
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect(events.map((e) => e.event)).toEqual(['task', 'text-delta', 'text-delta', 'result']);
+    expect(events[0].data).toEqual({ taskId: 'task-1', conversationId: 'c1' });
+    expect(events[3].data).toMatchObject({ success: true, content: 'Hello there' });
+  });
+
+  it('should list sub-agents, tools, tasks and stats', async () => {
+    await start();
+
+    const agents = await (await request('/agents')).json();
+    const tools = await (await request('/tools')).json();
+    const tasks = await (await request('/tasks')).json();
+    const stats = await (await request('/stats')).json();
+    const cancel = await request('/tasks/unknown/cancel', { method: 'POST' });
+
+    expect(agents).toEqual({ agents: [] });
+    expect(tools.tools[0]).toMatchObject({
+      name: 'lookup',
+      inputSchema: { properties: { key: { type: 'string' } } },
+    });
+    expect(tasks).toEqual({ tasks: [] });
+    expect(stats).toMatchObject({ agentId: 'main', usage: { calls: 0 } });
+    expect(cancel.status).toBe(404);
+  });
+
+  it('should check bearer tokens with the auth hook', async () => {
+    await start({ authenticate: (token) => token === 'secret' });
+
+    const anonymous = await request('/stats');
+    const wrong = await request('/stats', { headers: { authorization: 'Bearer nope' } });
+    const allowed = await request('/stats', { headers: { authorization: 'Bearer secret' } });
+
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers.get('www-authenticate')).toBe('Bearer');
+    expect(wrong.status).toBe(401);
+    expect(allowed.status).toBe(200);
+  });
+
+  it('should answer unknown routes and methods', async () => {
+    await start();
+
+    const unknown = await request('/nope');
+    const wrongMethod = await request('/stats', { method: 'DELETE' });
+
+    expect(unknown.status).toBe(404);
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.get('allow')).toBe('GET');
+  });
+});
@@ -0,0 +1,75 @@
+import { MockLanguageModelV2, simulateReadableStream } from 'ai/test';
+import { z } from 'zod';
+import { MainAgent } from '../../src/agents/MainAgent.js';
+import { ModelAdapter } from '../../src/core/model/ModelAdapter.js';
+import { ToolRegistry } from '../../src/core/tools/ToolRegistry.js';
+import { createTool } from '../../src/core/tools/BaseTool.js';
+import { Memory } from '../../src/core/memory/Memory.js';
+import { HttpApiServer, type HttpApiServerOptions } from '../../src/server/HttpApiServer.js';
+import type { AgentConfig } from '../../src/agents/types.js';
+import { EventBus } from '../../src/utils/event-bus.js';
+import { TaskQueue } from '../../src/utils/task-queue.js';
+
+const usage = { inputTokens: 5, outputTokens: 2, totalTokens: 7 };
+
+/**
+ * Model that answers "Hello there", streamed in two deltas
+ */
+export function createModel(): MockLanguageModelV2 {
+  return new MockLanguageModelV2({
+    doGenerate: async () => ({
+      content: [{ type: 'text', text: 'Hello there' }],
+      finishReason: 'stop',
+      usage,
+      warnings: [],
+    }),
+    doStream: async () => ({
+      stream: simulateReadableStream({
+        chunks: [
+          { type: 'stream-start', warnings: [] },
+          { type: 'text-start', id: 't1' },
+          { type: 'text-delta', id: 't1', delta: 'Hello ' },
+          { type: 'text-delta', id: 't1', delta: 'there' },
+          { type: 'text-end', id: 't1' },
+          { type: 'finish', finishReason: 'stop', usage },
+        ],
+      }),
+    }),
+  });
+}
+
+/**
+ * Main agent on the model, with a lookup tool registered
+ */
+export function createAgent(model = createModel(), config: Partial<AgentConfig> = {}) {
+  const tools = new ToolRegistry();
+  tools.register(
+    createTool({
+      name: 'lookup',
+      description: 'Look up a setting',
+      inputSchema: z.object({ key: z.string() }),
+      execute: async ({ key }) => key,
+    })
+  );
+  const memory = new Memory();
+  const agent = new MainAgent(
+    {
+      model: new ModelAdapter(model),
+      tools,
+      memory,
+      eventBus: new EventBus(),
+      taskQueue: new TaskQueue(),
+    },
+    { id: 'main', name: 'Main', model: { provider: 'custom', name: 'mock' }, ...config }
+  );
+  return { agent, memory, tools, model };
+}
+
+/**
+ * API server for an agent created as above
+ */
+export function createApi(options: Partial<HttpApiServerOptions> = {}, model = createModel()) {
+  const { agent, memory, tools } = createAgent(model);
+  const api = new HttpApiServer({ agent, memory, tools, ...options });
+  return { api, agent, memory, model };
+}
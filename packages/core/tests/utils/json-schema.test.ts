@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { asSchema } from 'ai';
+import { z } from 'zod';
+import { zodToJsonSchema } from '../../src/utils/json-schema.js';
+import { CalculatorTool } from '../../src/core/tools/builtin/CalculatorTool.js';
+import { WebSearchTool } from '../../src/core/tools/builtin/WebSearchTool.js';
+import { FileSystemTool } from '../../src/core/tools/builtin/FileSystemTool.js';
+
+describe('zodToJsonSchema', () => {
+  it('should convert objects with optional fields, defaults and descriptions', () => {
+    const schema = z
+      .object({
+        name: z.string().min(1).max(20).describe('Name'),
+        age: z.number().int().positive().optional(),
+        role: z.enum(['admin', 'user']).default('user'),
+        tags: z.array(z.string()).min(1),
+        address: z.object({ city: z.string() }).describe('Where they live'),
+      })
+      .describe('A person');
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      description: 'A person',
+      properties: {
+        name: { type: 'string', minLength: 1, maxLength: 20, description: 'Name' },
+        age: { type: 'integer', exclusiveMinimum: 0 },
+        role: { type: 'string', enum: ['admin', 'user'], default: 'user' },
+        tags: { type: 'array', items: { type: 'string' }, minItems: 1 },
+        address: {
+          type: 'object',
+          description: 'Where they live',
+          properties: { city: { type: 'string' } },
+          required: ['city'],
+          additionalProperties: false,
+        },
+      },
+      required: ['name', 'tags', 'address'],
+      additionalProperties: false,
+    });
+  });
+
+  it('should convert unions, literals and nullable types', () => {
+    expect(zodToJsonSchema(z.union([z.string(), z.number()]))).toEqual({
+      type: ['string', 'number'],
+    });
+    expect(zodToJsonSchema(z.union([z.literal('a'), z.literal('b')]))).toEqual({
+      type: 'string',
+      enum: ['a', 'b'],
+    });
+    expect(zodToJsonSchema(z.string().nullable())).toEqual({ type: ['string', 'null'] });
+    expect(
+      zodToJsonSchema(
+        z.discriminatedUnion('kind', [
+          z.object({ kind: z.literal('file'), path: z.string() }),
+          z.object({ kind: z.literal('url'), href: z.string().url() }),
+        ])
+      )
+    ).toMatchObject({
+      anyOf: [
+        { properties: { kind: { type: 'string', const: 'file' } }, required: ['kind', 'path'] },
+        { properties: { href: { type: 'string', format: 'uri' } }, required: ['kind', 'href'] },
+      ],
+    });
+  });
+
+  it('should convert records, tuples, passthrough objects and wrapped schemas', () => {
+    expect(zodToJsonSchema(z.record(z.number()))).toEqual({
+      type: 'object',
+      additionalProperties: { type: 'number' },
+    });
+    expect(zodToJsonSchema(z.tuple([z.string(), z.boolean()]))).toEqual({
+      type: 'array',
+      minItems: 2,
+      maxItems: 2,
+      items: [{ type: 'string' }, { type: 'boolean' }],
+    });
+    expect(zodToJsonSchema(z.object({}).passthrough())).toEqual({
+      type: 'object',
+      properties: {},
+      additionalProperties: true,
+    });
+    expect(zodToJsonSchema(z.string().regex(/^\d+$/).transform(Number).describe('Digits'))).toEqual(
+      { type: 'string', pattern: '^\\d+$', description: 'Digits' }
+    );
+  });
+
+  it('should stop at recursive schemas', () => {
+    interface Node {
+      name: string;
+      children: Node[];
+    }
+    const node: z.ZodType<Node> = z.lazy(() =>
+      z.object({ name: z.string(), children: z.array(node) })
+    );
+
+    expect(zodToJsonSchema(node)).toMatchObject({
+      properties: { children: { type: 'array', items: {} } },
+    });
+  });
+
+  describe('built-in tools', () => {
+    const tools = [new CalculatorTool(), new WebSearchTool(), new FileSystemTool()];
+
+    it.each(tools.map((tool) => [tool.name, tool] as const))(
+      'should match the AI SDK conversion for %s',
+      (_name, tool) => {
+        const { $schema: _version, ...expected } = asSchema(tool.inputSchema).jsonSchema as Record<
+          string,
+          unknown
+        >;
+
+        expect(tool.getInputJsonSchema()).toEqual(expected);
+      }
+    );
+
+    it.each(tools.map((tool) => [tool.name, tool] as const))(
+      'should require exactly the fields %s rejects when missing',
+      (_name, tool) => {
+        const result = tool.inputSchema.safeParse({});
+        const missing = result.success ? [] : result.error.issues.map((issue) => issue.path[0]);
+
+        expect(missing).toEqual(tool.getInputJsonSchema().required ?? []);
+      }
+    );
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { TaskQueue } from '../../src/utils/task-queue.js';
+import { delay } from '../../src/utils/abort.js';
+import { Budget, BudgetExceededError } from '../../src/core/usage/Budget.js';
 
 describe('TaskQueue', () => {
   let queue: TaskQueue;
@@ -8,14 +10,10 @@ describe('TaskQueue', () => {
     queue = new TaskQueue({ maxConcurrent: 2, defaultTimeout: 5000 });
   });
 
-  afterEach(() => {
-    // Resume if paused, then clear to avoid unhandled rejections
+  afterEach(async () => {
+    // Resume if paused and let the remaining tasks finish; clear() would abort them
     queue.resume();
-    // Use setTimeout to let any pending promises settle
-    return new Promise<void>((resolve) => {
-      queue.clear();
-      setTimeout(resolve, 10);
-    });
+    await queue.drain();
   });
 
   describe('basic operations', () => {
@@ -175,6 +173,91 @@ describe('TaskQueue', () => {
     });
   });
 
+  describe('cancellation', () => {
+    it('should abort the task signal on timeout', async () => {
+      let signal: AbortSignal | undefined;
+
+      await expect(
+        queue.add(
+          (taskSignal) => {
+            signal = taskSignal;
+            return new Promise((r) => setTimeout(r, 200));
+          },
+          { timeout: 20 }
+        )
+      ).rejects.toThrow('timed out');
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('should cancel running and pending tasks by ID', async () => {
+      const queue = new TaskQueue({ maxConcurrent: 1 });
+      let signal: AbortSignal | undefined;
+
+      const running = queue.add(
+        (taskSignal) => {
+          signal = taskSignal;
+          return new Promise((r) => setTimeout(r, 200));
+        },
+        { id: 'running' }
+      );
+      const pending = queue.add(() => Promise.resolve('never'), { id: 'pending' });
+
+      expect(queue.cancel('pending')).toBe(true);
+      expect(queue.cancel('running')).toBe(true);
+      expect(queue.cancel('unknown')).toBe(false);
+
+      await expect(pending).rejects.toThrow('cancelled');
+      await expect(running).rejects.toThrow('cancelled');
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('should follow the caller signal', async () => {
+      const controller = new AbortController();
+      const task = queue.add(() => new Promise((r) => setTimeout(r, 200)), {
+        signal: controller.signal,
+      });
+
+      controller.abort(new Error('caller gave up'));
+
+      await expect(task).rejects.toThrow('caller gave up');
+    });
+
+    it('should abort running tasks when cleared', async () => {
+      let signal: AbortSignal | undefined;
+      const task = queue.add((taskSignal) => {
+        signal = taskSignal;
+        return new Promise((r) => setTimeout(r, 200));
+      });
+      await new Promise((r) => setTimeout(r, 10));
+
+      queue.clear();
+
+      await expect(task).rejects.toThrow('cleared');
+      expect(signal?.aborted).toBe(true);
+    });
+  });
+
+  describe('budget', () => {
+    it('should not start a task once its budget is exceeded', async () => {
+      const budget = new Budget({ limits: { maxToolCalls: 0 } });
+      budget.charge({ toolCalls: 1 });
+      let ran = false;
+
+      const task = queue.add(async () => (ran = true), { budget });
+
+      await expect(task).rejects.toBeInstanceOf(BudgetExceededError);
+      expect(ran).toBe(false);
+    });
+
+    it('should abort a running task at the budget deadline', async () => {
+      const budget = new Budget({ limits: { maxDurationMs: 20 } });
+
+      const task = queue.add((signal) => delay(1000, signal), { budget });
+
+      await expect(task).rejects.toMatchObject({ limit: 'duration' });
+    });
+  });
+
   describe('drain', () => {
     it('should wait for all tasks to complete', async () => {
       let completed = 0;
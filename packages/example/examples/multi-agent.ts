@@ -69,6 +69,7 @@ break it down into smaller steps and use the appropriate tools.`,
     selectionStrategy: 'capability-match',
   },
   maxDepth: 3,
+  mode: 'delegate',
   debug: true,
 };
 